@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/batch/route';
+import { convertBatch } from '@/lib/batch';
+
+// jsdom cannot read the generated archive back, so the conversion itself is stubbed
+vi.mock('@/lib/batch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/batch')>()),
+  convertBatch: vi.fn().mockResolvedValue({
+    archive: { arrayBuffer: async () => new ArrayBuffer(0) },
+    manifest: { summary: { succeeded: 1, failed: 0 } },
+  }),
+}));
+
+// The form is handed over directly, as jsdom's multipart bodies cannot be parsed back
+const postBatch = (options: unknown, fileOptions?: unknown) => {
+  const formData = new FormData();
+  formData.append('files', new File(['id,name\n1,Ada'], 'users.csv', { type: 'text/csv' }));
+  formData.append('outputFormat', 'sql');
+  formData.append('options', JSON.stringify(options));
+  if (fileOptions !== undefined) formData.append('fileOptions', JSON.stringify(fileOptions));
+
+  const request = {
+    headers: new Headers({ 'content-type': 'multipart/form-data; boundary=batch' }),
+    formData: async () => formData,
+  };
+  return POST(request as unknown as NextRequest);
+};
+
+describe('Batch route', () => {
+  describe('SQL upsert options', () => {
+    it('should reject upsert mode without key columns as a bad request', async () => {
+      const response = await postBatch({ sql: { mode: 'upsert' } });
+
+      expect(response.status).toBe(400);
+      expect(convertBatch).not.toHaveBeenCalled();
+      const body = await response.json();
+      expect(body.details).toContainEqual({
+        path: 'sql.keyColumns',
+        message: 'Upsert mode requires at least one key column',
+      });
+    });
+
+    it('should take key columns from the shared options for per-file upserts', async () => {
+      const response = await postBatch({ sql: { keyColumns: ['id'] } }, [{ sql: { mode: 'upsert' } }]);
+
+      expect(response.status).toBe(200);
+      const getOptions = vi.mocked(convertBatch).mock.calls[0][1];
+      expect(getOptions(0).sql).toMatchObject({ mode: 'upsert', keyColumns: ['id'] });
+    });
+  });
+});
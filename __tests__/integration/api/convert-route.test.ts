@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/convert/route';
+
+const postJson = (body: unknown) =>
+  POST(
+    new NextRequest('http://localhost/api/convert', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  );
+
+describe('Convert route', () => {
+  describe('SQL upsert options', () => {
+    it('should reject upsert mode without key columns as a bad request', async () => {
+      const response = await postJson({
+        data: 'id,name\n1,Ada',
+        outputFormat: 'sql',
+        options: { sql: { tableName: 'users', mode: 'upsert' } },
+      });
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.code).toBe('VALIDATION_ERROR');
+      expect(body.details).toContainEqual({
+        path: 'options.sql.keyColumns',
+        message: 'Upsert mode requires at least one key column',
+      });
+    });
+
+    it('should reject upsert mode with an empty key column list', async () => {
+      const response = await postJson({
+        data: 'id,name\n1,Ada',
+        outputFormat: 'sql',
+        options: { sql: { tableName: 'users', mode: 'upsert', keyColumns: [] } },
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should write upserts when key columns are given', async () => {
+      const response = await postJson({
+        data: 'id,name\n1,Ada',
+        outputFormat: 'sql',
+        options: { sql: { tableName: 'users', mode: 'upsert', keyColumns: ['id'] } },
+      });
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.data).toContain('ON CONFLICT (id)');
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { parseData, convertData } from '@/lib/converter';
+import { parseData, convertData, getOutputFilename } from '@/lib/converter';
+import { applyTransform } from '@/lib/transform';
+import { transformOptionsSchema } from '@/lib/validation/schemas';
 
 describe('Converter Integration', () => {
   describe('CSV to JSON conversion', () => {
@@ -19,6 +21,19 @@ describe('Converter Integration', () => {
       expect(jsonOutput).toHaveLength(2);
       expect(jsonOutput[0].name).toBe('John');
     });
+
+    it('should rebuild nested documents from dot-notation CSV headers', async () => {
+      const parsed = await parseData('id,address.city,address.zip\n1,NYC,10001', 'csv');
+
+      const result = await convertData(parsed, {
+        outputFormat: 'json',
+        json: { prettyPrint: false, unflatten: true },
+      });
+
+      expect(JSON.parse(result.data as string)).toEqual([
+        { id: '1', address: { city: 'NYC', zip: '10001' } },
+      ]);
+    });
   });
 
   describe('JSON to CSV conversion', () => {
@@ -78,6 +93,36 @@ describe('Converter Integration', () => {
     });
   });
 
+  describe('Nested arrays', () => {
+    const orders = JSON.stringify({
+      orders: [
+        { id: 'A', lines: [{ sku: 'x', qty: 1 }, { sku: 'y', qty: 2 }] },
+        { id: 'B', lines: [{ sku: 'z', qty: 3 }] },
+      ],
+    });
+
+    it('should convert exploded line items to one CSV row each', async () => {
+      const parsed = await parseData(orders, 'json', { json: { nestedArrays: 'explode' } });
+
+      const result = await convertData(parsed, { outputFormat: 'csv' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('id,lines.sku,lines.qty\nA,x,1\nA,y,2\nB,z,3');
+    });
+
+    it('should write normalized line items as a related SQL table', async () => {
+      const parsed = await parseData(orders, 'json', { json: { nestedArrays: 'normalize' } });
+
+      const result = await convertData(parsed, { outputFormat: 'sql' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toContain("INSERT INTO orders (_id, id)\nVALUES\n(1, 'A'),\n(2, 'B');");
+      expect(result.data).toContain(
+        "INSERT INTO orders_lines (_parent_id, sku, qty)\nVALUES\n(1, 'x', 1),\n(1, 'y', 2),\n(2, 'z', 3);"
+      );
+    });
+  });
+
   describe('XML conversion', () => {
     it('should convert to XML format', async () => {
       const csvData = 'name,age\nJohn,30';
@@ -91,6 +136,88 @@ describe('Converter Integration', () => {
     });
   });
 
+  describe('YAML conversion', () => {
+    it('should convert a multi-document YAML stream to CSV', async () => {
+      const yamlData = 'kind: Deployment\nmetadata:\n  name: web\n---\nkind: Service\nmetadata:\n  name: api\n';
+      const parsed = await parseData(yamlData);
+
+      const result = await convertData(parsed, { outputFormat: 'csv' });
+
+      expect(parsed.format).toBe('yaml');
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('kind,metadata.name\nDeployment,web\nService,api');
+    });
+
+    it('should convert CSV with dotted headers to nested YAML', async () => {
+      const parsed = await parseData('name,address.city\nJohn,NYC', 'csv');
+
+      const result = await convertData(parsed, { outputFormat: 'yaml' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('- name: John\n  address:\n    city: NYC\n');
+    });
+  });
+
+  describe('Markdown conversion', () => {
+    it('should convert CSV to a Markdown table', async () => {
+      const parsed = await parseData('name,age\nJohn,30', 'csv');
+
+      const result = await convertData(parsed, { outputFormat: 'markdown' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('| name | age |\n| ---- | --: |\n| John |  30 |');
+      expect(getOutputFilename('people.csv', 'markdown')).toBe('people.md');
+    });
+  });
+
+  describe('HTML conversion', () => {
+    it('should convert a chosen table of an HTML page to CSV', async () => {
+      const page =
+        '<!DOCTYPE html><html><body>' +
+        '<table id="nav"><tr><td>Home</td></tr></table>' +
+        '<table><caption>Prices</caption><tr><th>item</th><th>price</th></tr><tr><td>Pen</td><td>1.50</td></tr></table>' +
+        '</body></html>';
+
+      const parsed = await parseData(page, undefined, { html: { selectedTable: 'Prices' } });
+      const result = await convertData(parsed, { outputFormat: 'csv' });
+
+      expect(parsed.format).toBe('html');
+      expect(parsed.metadata?.tables).toEqual(['nav', 'Prices']);
+      expect(result.data).toBe('item,price\nPen,1.50');
+    });
+
+    it('should convert CSV to an HTML table fragment', async () => {
+      const parsed = await parseData('name\n<b>John</b>', 'csv');
+
+      const result = await convertData(parsed, { outputFormat: 'html', html: { standalone: false } });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toContain('<td>&lt;b&gt;John&lt;/b&gt;</td>');
+      expect(getOutputFilename('people.csv', 'html')).toBe('people.html');
+    });
+  });
+
+  describe('JSON Lines conversion', () => {
+    it('should convert JSON Lines to CSV', async () => {
+      const parsed = await parseData('{"level":"info","msg":"up"}\n{"level":"error","msg":"down"}\n');
+
+      const result = await convertData(parsed, { outputFormat: 'csv' });
+
+      expect(parsed.format).toBe('jsonl');
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('level,msg\ninfo,up\nerror,down');
+    });
+
+    it('should convert CSV to one compact object per line', async () => {
+      const parsed = await parseData('name,age\nJohn,30\nJane,25', 'csv');
+
+      const result = await convertData(parsed, { outputFormat: 'jsonl' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('{"name":"John","age":"30"}\n{"name":"Jane","age":"25"}\n');
+    });
+  });
+
   describe('Excel conversion', () => {
     it('should convert to Excel format', async () => {
       const csvData = 'name,age\nJohn,30';
@@ -105,4 +232,72 @@ describe('Converter Integration', () => {
       expect(result.data).toBeInstanceOf(Blob);
     });
   });
+
+  describe('CSV output dialect', () => {
+    it('should honour the chosen delimiter, quoting and line endings', async () => {
+      const parsed = await parseData('name,age\nJohn,30', 'csv');
+
+      const result = await convertData(parsed, {
+        outputFormat: 'csv',
+        csv: { delimiter: ';', quoting: 'nonNumeric', lineTerminator: 'crlf' },
+      });
+
+      expect(result.data).toBe('"name";"age"\r\n"John";30');
+    });
+
+    it('should always separate TSV output with tabs', async () => {
+      const parsed = await parseData('name,age\nJohn,30', 'csv');
+
+      const result = await convertData(parsed, { outputFormat: 'tsv', csv: { delimiter: ';' } });
+
+      expect(result.data).toBe('name\tage\nJohn\t30');
+    });
+  });
+
+  describe('CSV output encoding', () => {
+    it('should prefix a byte order mark for utf-8-bom', async () => {
+      const parsed = await parseData('name\nJosé', 'csv');
+
+      const result = await convertData(parsed, {
+        outputFormat: 'csv',
+        csv: { outputEncoding: 'utf-8-bom' },
+      });
+
+      expect(result.data).toBe('\uFEFFname\nJosé');
+    });
+
+    it('should return Windows-1252 output as binary data', async () => {
+      const parsed = await parseData('name\nJosé', 'csv');
+
+      const result = await convertData(parsed, {
+        outputFormat: 'csv',
+        csv: { outputEncoding: 'windows-1252' },
+      });
+
+      expect(result.data).toBeInstanceOf(Blob);
+      expect((result.data as Blob).type).toBe('text/csv;charset=windows-1252');
+      // 'name\nJosé' is 9 bytes in Windows-1252 and 10 in UTF-8
+      expect((result.data as Blob).size).toBe(9);
+    });
+  });
+
+  describe('Transform before conversion', () => {
+    it('should filter, rename and cast columns before converting', async () => {
+      const parsed = await parseData('name,age,city\nJohn,30,NYC\nJane,25,LA\nBob,40,LA', 'csv');
+      const transform = transformOptionsSchema.parse({
+        filters: [{ column: 'city', operator: 'equals', value: 'LA' }],
+        selectedColumns: ['name', 'age'],
+        columnMappings: [{ original: 'age', mapped: 'Age', type: 'number' }],
+      });
+
+      const result = await convertData(applyTransform(parsed, transform).data, {
+        outputFormat: 'json',
+      });
+
+      expect(JSON.parse(result.data as string)).toEqual([
+        { name: 'Jane', Age: 25 },
+        { name: 'Bob', Age: 40 },
+      ]);
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
 import { parseData } from '@/lib/converter';
 
 describe('Parse API Integration', () => {
@@ -51,6 +52,79 @@ describe('Parse API Integration', () => {
       expect(result.rows).toHaveLength(1);
     });
 
+    it('should auto-detect and parse SQL dumps', async () => {
+      const sqlData = "INSERT INTO users (id, name) VALUES (1, 'John'), (2, 'Jane');";
+      const result = await parseData(sqlData);
+
+      expect(result.format).toBe('sql');
+      expect(result.rows).toHaveLength(2);
+    });
+
+    it('should list and select tables of a multi-table SQL dump', async () => {
+      const sqlData = [
+        "INSERT INTO customers (id) VALUES (1);",
+        "INSERT INTO orders (id, total) VALUES (10, 5.5), (11, 7);",
+      ].join('\n');
+      const result = await parseData(sqlData, 'sql', { sql: { selectedTable: 'orders' } });
+
+      expect(result.metadata?.tables).toEqual(['customers', 'orders']);
+      expect(result.headers).toEqual(['id', 'total']);
+      expect(result.rows).toHaveLength(2);
+    });
+
+    it('should stack every sheet of a workbook', async () => {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['sku'], ['A1']]), 'January');
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['sku'], ['B2'], ['C3']]), 'February');
+      const data: ArrayBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+
+      const result = await parseData(data, 'xlsx', { excel: { allSheets: 'stack' } });
+
+      expect(result.rows.map((row) => row.__sheet)).toEqual(['January', 'February', 'February']);
+      expect(result.metadata?.sheetSummaries?.map((sheet) => sheet.rowCount)).toEqual([1, 2]);
+    });
+
+    it('should read JSON records at a record path', async () => {
+      const jsonData = '{"meta":{"page":2},"data":{"items":[{"id":1},{"id":2}]}}';
+      const result = await parseData(jsonData, 'json', {
+        json: { recordPath: 'data.items', includeParentFields: true },
+      });
+
+      expect(result.rows).toEqual([
+        { 'meta.page': 2, id: 1 },
+        { 'meta.page': 2, id: 2 },
+      ]);
+      expect(result.metadata?.recordPaths).toEqual(['$.data.items[*]']);
+    });
+
+    it('should detect the encoding of text bytes', async () => {
+      // 'name,city\nJosé,Zürich' encoded as Windows-1252
+      const bytes = new Uint8Array([
+        110, 97, 109, 101, 44, 99, 105, 116, 121, 10, 74, 111, 115, 233, 44, 90, 252, 114, 105, 99, 104,
+      ]);
+      const result = await parseData(bytes.buffer);
+
+      expect(result.format).toBe('csv');
+      expect(result.rows).toEqual([{ name: 'José', city: 'Zürich' }]);
+      expect(result.metadata?.encoding).toBe('windows-1252');
+    });
+
+    it('should honour an explicit encoding override', async () => {
+      const bytes = new TextEncoder().encode('name\nJosé');
+      const result = await parseData(bytes.buffer, 'csv', { csv: { encoding: 'windows-1252' } });
+
+      expect(result.rows).toEqual([{ name: 'JosÃ©' }]);
+      expect(result.metadata?.encoding).toBe('windows-1252');
+    });
+
+    it('should strip a UTF-8 byte order mark from headers', async () => {
+      const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('id,name\n1,a')]);
+      const result = await parseData(bytes.buffer);
+
+      expect(result.headers).toEqual(['id', 'name']);
+      expect(result.metadata?.encoding).toBe('utf-8');
+    });
+
     it('should handle empty CSV', async () => {
       const result = await parseData('', 'csv');
 
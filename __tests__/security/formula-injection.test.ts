@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { writeCsv } from '@/lib/converter/csv';
+import { writeExcel } from '@/lib/converter/excel';
+import { isFormulaLike, sanitizeFormula, createFormulaSanitizer } from '@/lib/converter/formula';
+import { convertData } from '@/lib/converter';
+import { csvOptionsSchema, excelOptionsSchema } from '@/lib/validation/schemas';
+import type { ParsedData } from '@/types';
+
+const payloads = [
+  '=HYPERLINK("http://evil.example","click")',
+  '+cmd|\' /C calc\'!A0',
+  '-2+3+cmd|\' /C calc\'!A0',
+  '@SUM(1+1)*cmd|\' /C calc\'!A0',
+  '\t=1+1',
+  '\r=1+1',
+];
+
+describe('Formula Injection Security', () => {
+  describe('Detection', () => {
+    it.each(payloads)('should detect formula payload %j', (payload) => {
+      expect(isFormulaLike(payload)).toBe(true);
+    });
+
+    it('should not treat signed numbers as formulas', () => {
+      expect(isFormulaLike('-42')).toBe(false);
+      expect(isFormulaLike('+1.5e3')).toBe(false);
+      expect(isFormulaLike('-.5')).toBe(false);
+      expect(isFormulaLike(-42)).toBe(false);
+    });
+
+    it('should not treat plain text as formulas', () => {
+      expect(isFormulaLike('a=b')).toBe(false);
+      expect(isFormulaLike('')).toBe(false);
+      expect(isFormulaLike(null)).toBe(false);
+    });
+  });
+
+  describe('sanitizeFormula', () => {
+    it('should leave values unchanged by default', () => {
+      expect(sanitizeFormula('=1+1')).toBe('=1+1');
+    });
+
+    it('should prefix formulas with an apostrophe', () => {
+      expect(sanitizeFormula('=1+1', 'prefix')).toBe("'=1+1");
+      expect(sanitizeFormula('\t=1+1', 'prefix')).toBe("'\t=1+1");
+    });
+
+    it('should strip the leading trigger characters', () => {
+      expect(sanitizeFormula('=1+1', 'strip')).toBe('1+1');
+      expect(sanitizeFormula('\t=+@SUM(A1)', 'strip')).toBe('SUM(A1)');
+    });
+
+    it('should keep negative numbers intact', () => {
+      expect(sanitizeFormula('-42', 'prefix')).toBe('-42');
+      expect(sanitizeFormula('-42', 'strip')).toBe('-42');
+    });
+  });
+
+  describe('createFormulaSanitizer', () => {
+    it('should count only the cells it changes', () => {
+      const stats = { sanitizedCells: 0 };
+      const sanitize = createFormulaSanitizer('prefix', stats);
+
+      expect(['=1+1', 'ok', -5, '@x'].map(sanitize)).toEqual(["'=1+1", 'ok', -5, "'@x"]);
+      expect(stats.sanitizedCells).toBe(2);
+    });
+
+    it('should count nothing when sanitization is off', () => {
+      const stats = { sanitizedCells: 0 };
+
+      createFormulaSanitizer('off', stats)('=1+1');
+
+      expect(stats.sanitizedCells).toBe(0);
+    });
+  });
+
+  describe('CSV output', () => {
+    const headers = ['name', 'note'];
+    const rows = [
+      { name: 'Ann', note: '=HYPERLINK("http://evil.example")' },
+      { name: '@admin', note: '-5' },
+    ];
+
+    it('should write formulas unchanged when sanitization is off', () => {
+      const csv = writeCsv(headers, rows);
+
+      expect(csv).toContain('"=HYPERLINK(""http://evil.example"")"');
+      expect(csv).toContain('@admin,-5');
+    });
+
+    it('should prefix formula cells', () => {
+      const csv = writeCsv(headers, rows, { formulaSanitization: 'prefix' });
+
+      expect(csv).toContain(`"'=HYPERLINK(""http://evil.example"")"`);
+      expect(csv).toContain("'@admin,-5");
+    });
+
+    it('should strip formula characters', () => {
+      const csv = writeCsv(headers, rows, { formulaSanitization: 'strip' });
+
+      expect(csv).toContain('"HYPERLINK(""http://evil.example"")"');
+      expect(csv).toContain('admin,-5');
+    });
+
+    it('should sanitize header cells', () => {
+      const csv = writeCsv(['=cmd'], [{ '=cmd': 1 }], { formulaSanitization: 'prefix' });
+
+      expect(csv.split('\n')[0]).toBe("'=cmd");
+    });
+
+    it('should quote a sanitized value holding a carriage return', () => {
+      const csv = writeCsv(['a'], [{ a: '\r=1+1' }], { formulaSanitization: 'prefix' });
+
+      expect(csv).toBe(`a\n"'\r=1+1"`);
+    });
+  });
+
+  describe('Excel output', () => {
+    it('should store prefixed formulas as text', async () => {
+      const workbook = await writeExcel(['=cmd'], [{ '=cmd': '+1+1' }, { '=cmd': -3 }], {
+        formulaSanitization: 'prefix',
+      });
+      const sheet = workbook.Sheets['Sheet1'];
+
+      expect(sheet['A1'].v).toBe("'=cmd");
+      expect(sheet['A2'].v).toBe("'+1+1");
+      expect(sheet['A2'].t).toBe('s');
+      expect(sheet['A2'].f).toBeUndefined();
+      expect(sheet['A3'].v).toBe(-3);
+    });
+
+    it('should strip formula characters', async () => {
+      const workbook = await writeExcel(['a'], [{ a: '@SUM(A1)' }], { formulaSanitization: 'strip' });
+
+      expect(workbook.Sheets['Sheet1']['A2'].v).toBe('SUM(A1)');
+    });
+
+    it('should write cells unchanged when sanitization is off', async () => {
+      const workbook = await writeExcel(['a'], [{ a: '=1+1' }]);
+      const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+      const sheet = XLSX.read(buffer).Sheets['Sheet1'];
+
+      expect(sheet['A2'].v).toBe('=1+1');
+    });
+  });
+
+  describe('convertData', () => {
+    const parsedData: ParsedData = {
+      headers: ['name', 'formula'],
+      rows: [
+        { name: 'Ann', formula: '=1+1' },
+        { name: 'Bob', formula: '-5' },
+        { name: '+Cy', formula: '@x' },
+      ],
+      format: 'csv',
+    };
+
+    it('should report the number of sanitized cells for CSV output', async () => {
+      const result = await convertData(parsedData, {
+        outputFormat: 'csv',
+        csv: { formulaSanitization: 'prefix' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.sanitizedCells).toBe(3);
+      expect(result.data).toContain("'=1+1");
+    });
+
+    it('should report the number of sanitized cells for Excel output', async () => {
+      const result = await convertData(parsedData, {
+        outputFormat: 'xlsx',
+        excel: { formulaSanitization: 'strip' },
+      });
+
+      expect(result.metadata?.sanitizedCells).toBe(3);
+    });
+
+    it('should not report sanitized cells when sanitization is off', async () => {
+      const result = await convertData(parsedData, { outputFormat: 'csv' });
+
+      expect(result.metadata?.sanitizedCells).toBeUndefined();
+    });
+
+    it('should count the cells written to every split sheet', async () => {
+      const result = await convertData(parsedData, {
+        outputFormat: 'xlsx',
+        excel: { formulaSanitization: 'prefix', splitBy: 'formula', summarySheet: true },
+      });
+
+      // Three data cells, plus the group values and sheet names listed on the summary
+      expect(result.metadata?.sanitizedCells).toBe(3 + 2 + 2);
+    });
+
+    it('should not count the header row when CSV output omits it', async () => {
+      const result = await convertData(
+        { headers: ['=a'], rows: [{ '=a': 1 }], format: 'csv' },
+        { outputFormat: 'csv', csv: { formulaSanitization: 'prefix', hasHeader: false } }
+      );
+
+      expect(result.metadata?.sanitizedCells).toBe(0);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept the sanitization modes', () => {
+      for (const mode of ['off', 'prefix', 'strip']) {
+        expect(csvOptionsSchema.safeParse({ formulaSanitization: mode }).success).toBe(true);
+        expect(excelOptionsSchema.safeParse({ formulaSanitization: mode }).success).toBe(true);
+      }
+    });
+
+    it('should reject unknown sanitization modes', () => {
+      expect(csvOptionsSchema.safeParse({ formulaSanitization: 'escape' }).success).toBe(false);
+      expect(excelOptionsSchema.safeParse({ formulaSanitization: 'escape' }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { writeJson, unflattenObject } from '@/lib/converter/json';
+import { parseData, convertData } from '@/lib/converter';
+
+describe('Prototype Pollution Prevention', () => {
+  afterEach(() => {
+    delete (Object.prototype as Record<string, unknown>).polluted;
+    delete (Object.prototype as Record<string, unknown>).evil;
+  });
+
+  describe('unflattenObject', () => {
+    it('should not pollute Object.prototype through __proto__ keys', () => {
+      unflattenObject({ '__proto__.polluted': 1 });
+
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+
+    it('should not pollute Object.prototype through constructor.prototype keys', () => {
+      unflattenObject({ 'constructor.prototype.evil': 1 });
+
+      expect(({} as Record<string, unknown>).evil).toBeUndefined();
+    });
+
+    it('should keep keys with unsafe segments flat', () => {
+      const result = unflattenObject({ '__proto__.polluted': 1, 'a.prototype': 2, 'b.c': 3 });
+
+      expect(Object.keys(result)).toEqual(['__proto__.polluted', 'a.prototype', 'b']);
+      expect(result['a.prototype']).toBe(2);
+      expect(result.b).toEqual({ c: 3 });
+    });
+
+    it('should store a bare __proto__ key as data', () => {
+      const result = unflattenObject(JSON.parse('{"__proto__": {"polluted": 1}}'));
+
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect(Object.prototype.hasOwnProperty.call(result, '__proto__')).toBe(true);
+      expect(result.polluted).toBeUndefined();
+    });
+
+    it('should not follow inherited properties', () => {
+      const result = unflattenObject({ 'toString.x': 1 });
+
+      expect(result).toEqual({ toString: { x: 1 } });
+    });
+  });
+
+  describe('writeJson', () => {
+    it('should write unsafe headers as flat keys', () => {
+      const json = writeJson(['__proto__.polluted', 'constructor.prototype.evil'], [
+        { '__proto__.polluted': 1, 'constructor.prototype.evil': 2 },
+      ], { unflatten: true, prettyPrint: false });
+
+      expect(JSON.parse(json)).toEqual([
+        { '__proto__.polluted': 1, 'constructor.prototype.evil': 2 },
+      ]);
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect(({} as Record<string, unknown>).evil).toBeUndefined();
+    });
+
+    it('should not pollute through columnar output', () => {
+      writeJson(['__proto__.polluted'], [{ '__proto__.polluted': 1 }], {
+        unflatten: true,
+        arrayFormat: 'objectOfArrays',
+      });
+
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+  });
+
+  describe('convertData', () => {
+    it('should not pollute when converting CSV headers to nested JSON', async () => {
+      const parsed = await parseData('constructor.prototype.evil,__proto__.polluted\n1,2', 'csv');
+
+      const result = await convertData(parsed, { outputFormat: 'json', json: { unflatten: true } });
+
+      expect(result.success).toBe(true);
+      expect(({} as Record<string, unknown>).evil).toBeUndefined();
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+  });
+});
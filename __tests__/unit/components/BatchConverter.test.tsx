@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { BatchConverter } from '@/components/batch/BatchConverter';
+import { useConverterStore } from '@/stores/converter-store';
+import { createBatchArchive } from '@/lib/batch';
+import { convertBatchFile } from '@/lib/batch-client';
+import { downloadFile } from '@/lib/utils';
+
+// Mock next-intl
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, unknown>) =>
+    values ? `${key}:${JSON.stringify(values)}` : key,
+}));
+
+// Mock the store
+vi.mock('@/stores/converter-store', () => ({
+  useConverterStore: vi.fn(),
+}));
+
+// The options panel is covered by its own tests
+vi.mock('@/components/converter/ConvertOptions', () => ({
+  ConvertOptions: () => null,
+}));
+
+vi.mock('@/lib/batch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/batch')>()),
+  createBatchArchive: vi.fn(),
+}));
+
+vi.mock('@/lib/batch-client', () => ({
+  convertBatchFile: vi.fn(),
+}));
+
+vi.mock('@/lib/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/utils')>()),
+  downloadFile: vi.fn(),
+}));
+
+const mockGetConvertOptions = vi.fn(() => ({ outputFormat: 'json' as const, inputFormat: 'csv' as const }));
+
+function selectFiles(...names: string[]) {
+  const files = names.map((name) => new File(['a,b\n1,2'], name, { type: 'text/csv' }));
+  fireEvent.change(screen.getByTestId('batch-file-input'), { target: { files } });
+}
+
+describe('BatchConverter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useConverterStore).mockReturnValue({
+      outputFormat: 'json',
+      setOutputFormat: vi.fn(),
+      getConvertOptions: mockGetConvertOptions,
+    });
+    vi.mocked(convertBatchFile).mockResolvedValue({ success: true, data: '[]', format: 'json' });
+  });
+
+  it('should list selected files as pending', () => {
+    render(<BatchConverter />);
+
+    selectFiles('a.csv', 'b.csv');
+
+    const rows = screen.getAllByTestId('batch-file');
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toHaveTextContent('a.csv');
+    expect(rows[0]).toHaveTextContent('status.pending');
+  });
+
+  it('should reject files beyond the limit', () => {
+    render(<BatchConverter />);
+
+    selectFiles(...Array.from({ length: 12 }, (_, i) => `file${i}.csv`));
+
+    expect(screen.getAllByTestId('batch-file')).toHaveLength(10);
+    expect(screen.getByRole('alert')).toHaveTextContent('tooManyFiles');
+  });
+
+  it('should convert every file with the shared options', async () => {
+    render(<BatchConverter />);
+    selectFiles('a.csv', 'b.csv');
+
+    fireEvent.click(screen.getByRole('button', { name: 'convertAll' }));
+
+    await waitFor(() => {
+      expect(screen.getAllByText(/status\.success/)).toHaveLength(2);
+    });
+    expect(convertBatchFile).toHaveBeenCalledTimes(2);
+    expect(convertBatchFile).toHaveBeenCalledWith(
+      expect.any(File),
+      { outputFormat: 'json', inputFormat: undefined },
+      expect.any(Function)
+    );
+    expect(screen.getByTestId('batch-results')).toHaveTextContent('results.success:{"count":2}');
+  });
+
+  it('should show errors and retry failed files', async () => {
+    vi.mocked(convertBatchFile).mockResolvedValueOnce({ success: false, format: 'json', error: 'Bad JSON' });
+    render(<BatchConverter />);
+    selectFiles('a.json');
+
+    fireEvent.click(screen.getByRole('button', { name: 'convertAll' }));
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent('Bad JSON');
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'retry:{"name":"a.json"}' }));
+    await waitFor(() => {
+      expect(screen.getByText(/status\.success/)).toBeInTheDocument();
+    });
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('should download all converted files as a ZIP archive', async () => {
+    const archive = new Blob(['zip']);
+    vi.mocked(createBatchArchive).mockResolvedValue(archive);
+    render(<BatchConverter />);
+    selectFiles('a.csv');
+
+    expect(screen.getByRole('button', { name: 'downloadAll' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'convertAll' }));
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'downloadAll' })).toBeEnabled();
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'downloadAll' }));
+    await waitFor(() => {
+      expect(downloadFile).toHaveBeenCalledWith(archive, 'converted.zip');
+    });
+  });
+
+  it('should remove files', () => {
+    render(<BatchConverter />);
+    selectFiles('a.csv', 'b.csv');
+
+    fireEvent.click(screen.getByRole('button', { name: 'remove:{"name":"a.csv"}' }));
+
+    expect(screen.getAllByTestId('batch-file')).toHaveLength(1);
+  });
+});
@@ -4,6 +4,7 @@ import userEvent from '@testing-library/user-event';
 import { ConvertButton } from '@/components/converter/ConvertButton';
 import { useConverterStore } from '@/stores/converter-store';
 import { convertData } from '@/lib/converter';
+import { recordConversion } from '@/lib/history';
 
 // Mock the converter
 vi.mock('@/lib/converter', () => ({
@@ -15,6 +16,11 @@ vi.mock('@/lib/converter', () => ({
   }),
 }));
 
+// Mock the conversion history
+vi.mock('@/lib/history', () => ({
+  recordConversion: vi.fn(),
+}));
+
 // Mock next-intl
 vi.mock('next-intl', () => ({
   useTranslations: () => (key: string) => key,
@@ -100,6 +106,33 @@ describe('ConvertButton', () => {
     });
   });
 
+  it('should record successful conversions in the history', async () => {
+    const user = userEvent.setup();
+    vi.mocked(useConverterStore).mockReturnValue({
+      ...defaultStoreState,
+      inputData: 'name\nJohn',
+      fileName: 'people.csv',
+      parseOptions: { csv: { encoding: 'utf-8' } },
+      transforms: [{ removeDuplicates: true }],
+    });
+    render(<ConvertButton />);
+
+    await user.click(screen.getByTestId('convert-btn'));
+
+    await waitFor(() => {
+      expect(recordConversion).toHaveBeenCalledWith(
+        expect.objectContaining({ success: true, format: 'json' }),
+        { outputFormat: 'json', csv: { delimiter: ',' } },
+        {
+          fileName: 'people.csv',
+          data: 'name\nJohn',
+          parseOptions: { csv: { encoding: 'utf-8' } },
+          transforms: [{ removeDuplicates: true }],
+        }
+      );
+    });
+  });
+
   it('should reset converting state after conversion', async () => {
     const user = userEvent.setup();
     render(<ConvertButton />);
@@ -119,6 +119,27 @@ describe('ConvertOptions - CSV format', () => {
     await waitFor(() => {
       expect(screen.getByText('csvOptions')).toBeInTheDocument();
     });
+    expect(screen.getByText('quoting')).toBeInTheDocument();
+    expect(screen.getByText('lineTerminator')).toBeInTheDocument();
+    expect(screen.getByText('includeHeader')).toBeInTheDocument();
+  });
+
+  it('should edit a custom delimiter', async () => {
+    vi.mocked(useConverterStore).mockReturnValue({
+      ...defaultStoreState,
+      outputFormat: 'csv',
+      csvOptions: { delimiter: '||' },
+    });
+    const user = userEvent.setup();
+    render(<ConvertOptions />);
+
+    await user.click(screen.getByTestId('options-toggle'));
+    const input = screen.getByLabelText('customDelimiter');
+    expect(input).toHaveValue('||');
+
+    await user.type(input, ';');
+
+    expect(mockSetCsvOptions).toHaveBeenLastCalledWith({ delimiter: '||;' });
   });
 });
 
@@ -185,6 +206,47 @@ describe('ConvertOptions - SQL format', () => {
   });
 });
 
+describe('ConvertOptions - SQL key columns', () => {
+  const withKeyColumns = (keyColumns: string[]) => ({
+    ...defaultStoreState,
+    outputFormat: 'sql',
+    sqlOptions: { ...defaultStoreState.sqlOptions, mode: 'upsert', keyColumns },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should resync key columns restored from history', async () => {
+    const user = userEvent.setup();
+    vi.mocked(useConverterStore).mockReturnValue(withKeyColumns(['id']));
+    const { rerender } = render(<ConvertOptions />);
+    await user.click(screen.getByTestId('options-toggle'));
+
+    expect(screen.getByLabelText('keyColumns')).toHaveValue('id');
+
+    vi.mocked(useConverterStore).mockReturnValue(withKeyColumns(['sku', 'region']));
+    rerender(<ConvertOptions />);
+
+    expect(screen.getByLabelText('keyColumns')).toHaveValue('sku, region');
+  });
+
+  it('should keep the typed text while it matches the key columns', async () => {
+    const user = userEvent.setup();
+    vi.mocked(useConverterStore).mockReturnValue(withKeyColumns([]));
+    const { rerender } = render(<ConvertOptions />);
+    await user.click(screen.getByTestId('options-toggle'));
+
+    await user.type(screen.getByLabelText('keyColumns'), 'id,');
+    expect(mockSetSqlOptions).toHaveBeenLastCalledWith({ keyColumns: ['id'] });
+
+    vi.mocked(useConverterStore).mockReturnValue(withKeyColumns(['id']));
+    rerender(<ConvertOptions />);
+
+    expect(screen.getByLabelText('keyColumns')).toHaveValue('id,');
+  });
+});
+
 describe('ConvertOptions - no parsed data', () => {
   beforeEach(() => {
     vi.mocked(useConverterStore).mockReturnValue({
@@ -198,6 +260,12 @@ describe('ConvertOptions - no parsed data', () => {
 
     expect(screen.queryByText('title')).not.toBeInTheDocument();
   });
+
+  it('should render without parsed data when standalone', () => {
+    render(<ConvertOptions standalone />);
+
+    expect(screen.getByText('title')).toBeInTheDocument();
+  });
 });
 
 describe('ConvertOptions - TSV format', () => {
@@ -215,9 +283,10 @@ describe('ConvertOptions - TSV format', () => {
 
     await user.click(screen.getByTestId('options-toggle'));
 
-    // TSV shares options with CSV
+    // TSV shares options with CSV, except for the delimiter
     await waitFor(() => {
       expect(screen.getByText('csvOptions')).toBeInTheDocument();
     });
+    expect(screen.queryByText('delimiter')).not.toBeInTheDocument();
   });
 });
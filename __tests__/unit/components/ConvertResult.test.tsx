@@ -205,3 +205,27 @@ describe('ConvertResult - blob output', () => {
     expect(screen.getByRole('button', { name: /downloadResult/i })).toBeInTheDocument();
   });
 });
+
+describe('ConvertResult - sanitized formulas', () => {
+  it('should report neutralized formula cells', () => {
+    vi.mocked(useConverterStore).mockReturnValue({
+      ...defaultStoreState,
+      result: { ...successResult, metadata: { ...successResult.metadata, sanitizedCells: 2 } },
+    });
+
+    render(<ConvertResult />);
+
+    expect(screen.getByTestId('sanitized-cells')).toHaveTextContent('sanitizedCells');
+  });
+
+  it('should not report when no cells were neutralized', () => {
+    vi.mocked(useConverterStore).mockReturnValue({
+      ...defaultStoreState,
+      result: { ...successResult, metadata: { ...successResult.metadata, sanitizedCells: 0 } },
+    });
+
+    render(<ConvertResult />);
+
+    expect(screen.queryByTestId('sanitized-cells')).not.toBeInTheDocument();
+  });
+});
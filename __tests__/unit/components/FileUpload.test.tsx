@@ -3,6 +3,12 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { FileUpload } from '@/components/converter/FileUpload';
 import { useConverterStore } from '@/stores/converter-store';
+import {
+  parseData,
+  parseJsonlStream,
+  detectFormatFromFilename,
+  needsStreaming,
+} from '@/lib/converter';
 
 // Mock the store
 const mockSetInputData = vi.fn();
@@ -10,6 +16,8 @@ const mockSetInputFormat = vi.fn();
 const mockSetParsedData = vi.fn();
 const mockSetIsParsing = vi.fn();
 const mockSetParseError = vi.fn();
+const mockSetParseOptions = vi.fn();
+const mockSetPendingTransforms = vi.fn();
 
 vi.mock('@/stores/converter-store', () => ({
   useConverterStore: vi.fn(),
@@ -28,8 +36,15 @@ vi.mock('@/lib/converter', () => ({
     format: 'csv',
     metadata: { rowCount: 1, columnCount: 2 },
   }),
+  parseJsonlStream: vi.fn().mockResolvedValue({
+    headers: ['level'],
+    rows: [{ level: 'info' }],
+    format: 'jsonl',
+    metadata: { rowCount: 1, columnCount: 1 },
+  }),
   detectFormat: vi.fn().mockReturnValue('csv'),
   detectFormatFromFilename: vi.fn().mockReturnValue('csv'),
+  needsStreaming: vi.fn().mockReturnValue(false),
 }));
 
 const defaultStoreState = {
@@ -38,6 +53,10 @@ const defaultStoreState = {
   setParsedData: mockSetParsedData,
   setIsParsing: mockSetIsParsing,
   setParseError: mockSetParseError,
+  setParseOptions: mockSetParseOptions,
+  setPendingTransforms: mockSetPendingTransforms,
+  parseOptions: {},
+  pendingTransforms: [],
   fileName: null,
   fileSize: null,
   isParsing: false,
@@ -101,6 +120,22 @@ describe('FileUpload', () => {
     });
   });
 
+  it('should stream large JSON Lines files instead of reading them whole', async () => {
+    vi.mocked(detectFormatFromFilename).mockReturnValueOnce('jsonl');
+    vi.mocked(needsStreaming).mockReturnValueOnce(true);
+    render(<FileUpload />);
+
+    const file = new File(['{"level":"info"}'], 'logs.jsonl');
+    fireEvent.drop(screen.getByTestId('upload-dropzone'), { dataTransfer: { files: [file] } });
+
+    await waitFor(() => {
+      expect(parseJsonlStream).toHaveBeenCalledWith(file);
+    });
+    expect(parseData).not.toHaveBeenCalled();
+    expect(mockSetInputData).toHaveBeenCalledWith(null, 'logs.jsonl', file.size);
+    expect(mockSetParsedData).toHaveBeenCalledWith(expect.objectContaining({ format: 'jsonl' }), []);
+  });
+
   it('should show dragging state', () => {
     render(<FileUpload />);
 
@@ -166,6 +201,23 @@ describe('FileUpload', () => {
     });
   });
 
+  it('should apply transforms kept from a history entry to the new input', async () => {
+    const user = userEvent.setup();
+    const transforms = [{ selectedColumns: ['name'] }];
+    vi.mocked(useConverterStore).mockReturnValue({ ...defaultStoreState, pendingTransforms: transforms });
+    render(<FileUpload />);
+
+    await user.click(screen.getByRole('button', { name: 'sampleData' }));
+
+    await waitFor(() => {
+      expect(mockSetParsedData).toHaveBeenCalledWith(
+        expect.objectContaining({ headers: ['name'], rows: [{ name: 'John' }] }),
+        transforms
+      );
+    });
+    expect(mockSetPendingTransforms).toHaveBeenCalledWith([]);
+  });
+
   it('should have visually hidden file input for accessibility', () => {
     render(<FileUpload />);
 
@@ -175,11 +227,57 @@ describe('FileUpload', () => {
     expect(fileInput).toHaveClass('sr-only');
   });
 
+  it('should not render a source picker for single-table data', () => {
+    render(<FileUpload />);
+
+    expect(screen.queryByTestId('source-select')).not.toBeInTheDocument();
+  });
+
+  it('should render a table picker for multi-table SQL dumps', () => {
+    vi.mocked(useConverterStore).mockReturnValue({
+      ...defaultStoreState,
+      parsedData: {
+        headers: ['id'],
+        rows: [{ id: 1 }],
+        format: 'sql',
+        metadata: { rowCount: 1, columnCount: 1, tables: ['customers', 'orders'] },
+      },
+    });
+
+    render(<FileUpload />);
+
+    expect(screen.getByTestId('source-select')).toBeInTheDocument();
+    expect(screen.getByText('selectedTable')).toBeInTheDocument();
+  });
+
+  it('should not render an encoding picker for pasted data', () => {
+    render(<FileUpload />);
+
+    expect(screen.queryByTestId('encoding-select')).not.toBeInTheDocument();
+  });
+
+  it('should render an encoding picker for decoded text files', () => {
+    vi.mocked(useConverterStore).mockReturnValue({
+      ...defaultStoreState,
+      parsedData: {
+        headers: ['name'],
+        rows: [{ name: 'José' }],
+        format: 'csv',
+        metadata: { rowCount: 1, columnCount: 1, encoding: 'windows-1252' },
+      },
+    });
+
+    render(<FileUpload />);
+
+    expect(screen.getByTestId('encoding-select')).toBeInTheDocument();
+    expect(screen.getByText('encoding')).toBeInTheDocument();
+  });
+
   it('should accept correct file types', () => {
     render(<FileUpload />);
 
     const fileInput = document.getElementById('file-input') as HTMLInputElement;
-    expect(fileInput.accept).toBe('.csv,.tsv,.json,.xlsx,.xls,.xml');
+    expect(fileInput.accept).toBe('.csv,.tsv,.json,.xlsx,.xls,.xml,.sql,.yaml,.yml,.jsonl,.ndjson,.parquet,.html,.htm');
   });
 });
 
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { HistoryList } from '@/components/history/HistoryList';
+import { clearHistory, deleteHistoryItem, getHistory, recordConversion, replayConversion } from '@/lib/history';
+import { downloadFile } from '@/lib/utils';
+import { useConverterStore } from '@/stores/converter-store';
+import type { ConversionHistoryItem } from '@/types';
+
+// Mock next-intl
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string) => key,
+  useFormatter: () => ({ dateTime: () => 'Jan 1, 2026' }),
+}));
+
+const mockPush = vi.fn();
+
+// Mock locale-aware navigation
+vi.mock('@/i18n/routing', () => ({
+  Link: ({ href, children }: { href: string; children: React.ReactNode }) => <a href={href}>{children}</a>,
+  useRouter: () => ({ push: mockPush }),
+}));
+
+vi.mock('@/stores/converter-store', () => ({
+  useConverterStore: vi.fn(),
+}));
+
+vi.mock('@/lib/history', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/history')>()),
+  getHistory: vi.fn(),
+  deleteHistoryItem: vi.fn(),
+  clearHistory: vi.fn(),
+  recordConversion: vi.fn(),
+  replayConversion: vi.fn(),
+}));
+
+vi.mock('@/lib/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/utils')>()),
+  downloadFile: vi.fn(),
+}));
+
+const output = new Blob(['[]'], { type: 'application/json' });
+
+const mockItems: ConversionHistoryItem[] = [
+  {
+    id: '1',
+    timestamp: 2,
+    inputFormat: 'csv',
+    outputFormat: 'json',
+    inputFileName: 'sales.csv',
+    outputFileName: 'sales.json',
+    rowCount: 10,
+    columnCount: 3,
+    options: { inputFormat: 'csv', outputFormat: 'json', json: { prettyPrint: false } },
+    parseOptions: { csv: { encoding: 'utf-8' } },
+    transforms: [{ removeDuplicates: true }],
+    input: 'name\nJohn',
+    result: output,
+    size: 100,
+  },
+  {
+    id: '2',
+    timestamp: 1,
+    inputFormat: 'xlsx',
+    outputFormat: 'sql',
+    inputFileName: 'users.xlsx',
+    outputFileName: 'users.sql',
+    rowCount: 5,
+    columnCount: 2,
+    options: { outputFormat: 'sql' },
+    transforms: [{ trimWhitespace: true }],
+    size: 50,
+  },
+];
+
+const mockStore = {
+  setInputData: vi.fn(),
+  setParseOptions: vi.fn(),
+  setParsedData: vi.fn(),
+  setPendingTransforms: vi.fn(),
+  setResult: vi.fn(),
+  setConvertError: vi.fn(),
+  restoreOptions: vi.fn(),
+  reset: vi.fn(),
+};
+
+describe('HistoryList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getHistory).mockResolvedValue(mockItems);
+    vi.mocked(useConverterStore).mockReturnValue(mockStore);
+  });
+
+  it('should show the empty state without history', async () => {
+    vi.mocked(getHistory).mockResolvedValue([]);
+    render(<HistoryList />);
+
+    expect(await screen.findByText('empty')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: /startConverting/ })).toHaveAttribute('href', '/');
+  });
+
+  it('should list stored conversions', async () => {
+    render(<HistoryList />);
+
+    const items = await screen.findAllByTestId('history-item');
+    expect(items).toHaveLength(2);
+    expect(items[0]).toHaveTextContent('sales.csv');
+    expect(items[0]).toHaveTextContent('10 rows');
+  });
+
+  it('should search by file name', async () => {
+    render(<HistoryList />);
+    await screen.findAllByTestId('history-item');
+
+    fireEvent.change(screen.getByLabelText('search'), { target: { value: 'users' } });
+
+    expect(screen.getAllByTestId('history-item')).toHaveLength(1);
+    expect(screen.getByTestId('history-item')).toHaveTextContent('users.xlsx');
+
+    fireEvent.change(screen.getByLabelText('search'), { target: { value: 'nothing' } });
+    expect(screen.getByText('noMatches')).toBeInTheDocument();
+  });
+
+  it('should download the stored result', async () => {
+    render(<HistoryList />);
+    await screen.findAllByTestId('history-item');
+
+    const downloads = screen.getAllByRole('button', { name: 'downloadAgain' });
+    expect(downloads[1]).toBeDisabled();
+
+    fireEvent.click(downloads[0]);
+    expect(downloadFile).toHaveBeenCalledWith(output, 'sales.json');
+  });
+
+  it('should delete an entry', async () => {
+    render(<HistoryList />);
+    await screen.findAllByTestId('history-item');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'deleteItem' })[0]);
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('history-item')).toHaveLength(1);
+    });
+    expect(deleteHistoryItem).toHaveBeenCalledWith('1');
+  });
+
+  it('should keep an entry and show an error when it cannot be deleted', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(deleteHistoryItem).mockRejectedValueOnce(new Error('Transaction aborted'));
+    render(<HistoryList />);
+    await screen.findAllByTestId('history-item');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'deleteItem' })[0]);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('deleteError');
+    expect(screen.getAllByTestId('history-item')).toHaveLength(2);
+  });
+
+  it('should clear the history after confirmation', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<HistoryList />);
+    await screen.findAllByTestId('history-item');
+
+    fireEvent.click(screen.getByRole('button', { name: /clearHistory/ }));
+
+    expect(await screen.findByText('empty')).toBeInTheDocument();
+    expect(clearHistory).toHaveBeenCalled();
+  });
+
+  it('should keep the entries and show an error when the history cannot be cleared', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    vi.mocked(clearHistory).mockRejectedValueOnce(new Error('Transaction aborted'));
+    render(<HistoryList />);
+    await screen.findAllByTestId('history-item');
+
+    fireEvent.click(screen.getByRole('button', { name: /clearHistory/ }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('clearError');
+    expect(screen.getAllByTestId('history-item')).toHaveLength(2);
+  });
+
+  it('should run a conversion again with its original input, options and transforms', async () => {
+    const parsedData = { headers: ['name'], rows: [{ name: 'John' }], totalRows: 1 };
+    const replayed = { success: true, data: '[{"name":"John"}]', format: 'json' as const };
+    vi.mocked(replayConversion).mockResolvedValue({ parsedData, result: replayed });
+    render(<HistoryList />);
+    await screen.findAllByTestId('history-item');
+
+    const runAgain = screen.getAllByRole('button', { name: 'reconvert' });
+    expect(runAgain[1]).toBeDisabled();
+
+    fireEvent.click(runAgain[0]);
+
+    await waitFor(() => {
+      expect(mockPush).toHaveBeenCalledWith('/');
+    });
+    expect(replayConversion).toHaveBeenCalledWith(mockItems[0]);
+    expect(mockStore.setInputData).toHaveBeenCalledWith('name\nJohn', 'sales.csv', 9);
+    expect(mockStore.restoreOptions).toHaveBeenCalledWith(mockItems[0].options);
+    expect(mockStore.setParseOptions).toHaveBeenCalledWith({ csv: { encoding: 'utf-8' } });
+    expect(mockStore.setParsedData).toHaveBeenCalledWith(parsedData, [{ removeDuplicates: true }]);
+    expect(mockStore.setResult).toHaveBeenCalledWith(replayed);
+    expect(recordConversion).toHaveBeenCalledWith(
+      replayed,
+      mockItems[0].options,
+      expect.objectContaining({ transforms: [{ removeDuplicates: true }] })
+    );
+  });
+
+  it('should show an error when a conversion cannot run again', async () => {
+    vi.mocked(replayConversion).mockRejectedValue(new Error('Invalid data'));
+    render(<HistoryList />);
+    await screen.findAllByTestId('history-item');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'reconvert' })[0]);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid data');
+    expect(mockPush).not.toHaveBeenCalled();
+  });
+
+  it('should apply the original options and transforms to a new file', async () => {
+    render(<HistoryList />);
+    await screen.findAllByTestId('history-item');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'runWithNewFile' })[1]);
+
+    expect(mockStore.reset).toHaveBeenCalled();
+    expect(mockStore.restoreOptions).toHaveBeenCalledWith({ outputFormat: 'sql', inputFormat: undefined });
+    expect(mockStore.setPendingTransforms).toHaveBeenCalledWith([{ trimWhitespace: true }]);
+    expect(mockPush).toHaveBeenCalledWith('/');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TransformEditor } from '@/components/transform/TransformEditor';
+import { useConverterStore } from '@/stores/converter-store';
+import type { ParsedData } from '@/types';
+
+// Mock next-intl
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, unknown>) =>
+    values ? `${key}:${JSON.stringify(values)}` : key,
+}));
+
+// Mock the store
+vi.mock('@/stores/converter-store', () => ({
+  useConverterStore: vi.fn(),
+}));
+
+// Mock locale-aware navigation
+vi.mock('@/i18n/routing', () => ({
+  Link: ({ href, children }: { href: string; children: React.ReactNode }) => <a href={href}>{children}</a>,
+}));
+
+// Render the preview as plain text instead of a virtualized table
+vi.mock('@/components/converter/VirtualDataPreview', () => ({
+  VirtualDataPreview: ({ data }: { data: ParsedData }) => (
+    <div data-testid="transform-preview">
+      {data.headers.join('|')} {data.rows.length}
+    </div>
+  ),
+}));
+
+const mockSetParsedData = vi.fn();
+const mockSetResult = vi.fn();
+
+const mockParsedData: ParsedData = {
+  headers: ['name', 'city'],
+  rows: [
+    { name: 'John', city: 'NYC' },
+    { name: 'Jane', city: 'LA' },
+    { name: 'Jane', city: 'LA' },
+  ],
+  format: 'csv',
+  metadata: { rowCount: 3, columnCount: 2 },
+};
+
+describe('TransformEditor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useConverterStore).mockReturnValue({
+      parsedData: mockParsedData,
+      transforms: [],
+      setParsedData: mockSetParsedData,
+      setResult: mockSetResult,
+    });
+  });
+
+  it('should prompt to load data when nothing is parsed', () => {
+    vi.mocked(useConverterStore).mockReturnValue({
+      parsedData: null,
+      transforms: [],
+      setParsedData: mockSetParsedData,
+      setResult: mockSetResult,
+    });
+
+    render(<TransformEditor />);
+
+    expect(screen.getByText('noData')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'goToConverter' })).toHaveAttribute('href', '/');
+  });
+
+  it('should render a mapping for every column', () => {
+    render(<TransformEditor />);
+
+    expect(screen.getByLabelText('name')).toBeChecked();
+    expect(screen.getByLabelText('city')).toBeChecked();
+  });
+
+  it('should preview renamed columns live', () => {
+    render(<TransformEditor />);
+
+    fireEvent.change(screen.getAllByLabelText('newName')[1], { target: { value: 'City' } });
+
+    expect(screen.getByTestId('transform-preview')).toHaveTextContent('name|City 3');
+  });
+
+  it('should preview excluded columns', () => {
+    render(<TransformEditor />);
+
+    fireEvent.click(screen.getByLabelText('city'));
+
+    expect(screen.getByTestId('transform-preview')).toHaveTextContent('name 3');
+  });
+
+  it('should report removed duplicates', () => {
+    render(<TransformEditor />);
+
+    fireEvent.click(screen.getByLabelText('removeDuplicates'));
+
+    expect(screen.getByTestId('transform-preview')).toHaveTextContent('name|city 2');
+    expect(screen.getByTestId('transform-stats')).toHaveTextContent('duplicatesRemoved:{"count":1}');
+  });
+
+  it('should add and remove filter rules', () => {
+    render(<TransformEditor />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'addFilter' }));
+    expect(screen.getAllByTestId('filter-rule')).toHaveLength(1);
+
+    fireEvent.click(screen.getByRole('button', { name: 'removeFilter' }));
+    expect(screen.queryByTestId('filter-rule')).not.toBeInTheDocument();
+  });
+
+  it('should show an error for duplicate column names', () => {
+    render(<TransformEditor />);
+
+    fireEvent.change(screen.getAllByLabelText('newName')[1], { target: { value: 'name' } });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Duplicate column name: name');
+    expect(screen.getByRole('button', { name: 'applyTransform' })).toBeDisabled();
+  });
+
+  it('should store the transformed data and the applied transforms', () => {
+    vi.mocked(useConverterStore).mockReturnValue({
+      parsedData: mockParsedData,
+      transforms: [{ trimWhitespace: true }],
+      setParsedData: mockSetParsedData,
+      setResult: mockSetResult,
+    });
+    render(<TransformEditor />);
+
+    fireEvent.click(screen.getByLabelText('removeDuplicates'));
+    fireEvent.click(screen.getByRole('button', { name: 'applyTransform' }));
+
+    expect(mockSetParsedData).toHaveBeenCalledWith(
+      expect.objectContaining({ headers: ['name', 'city'], rows: mockParsedData.rows.slice(0, 2) }),
+      [{ trimWhitespace: true }, { removeDuplicates: true }]
+    );
+    expect(mockSetResult).toHaveBeenCalledWith(null);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { convertBatchFile } from '@/lib/batch-client';
+
+/** jsdom files cannot be read as bytes, so provide the buffer directly */
+function createFile(content: string, name: string): File {
+  const file = new File([content], name);
+  const bytes = new TextEncoder().encode(content);
+  Object.defineProperty(file, 'arrayBuffer', { value: async () => bytes.buffer });
+  return file;
+}
+
+describe('Batch client', () => {
+  describe('convertBatchFile', () => {
+    it('should detect the input format from the file name', async () => {
+      const progress: number[] = [];
+      const result = await convertBatchFile(
+        createFile('[{"name":"John"}]', 'people.json'),
+        { outputFormat: 'csv' },
+        (value) => progress.push(value)
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('name\nJohn');
+      expect(progress).toEqual([10, 50, 100]);
+    });
+
+    it('should report parse errors as a failed result', async () => {
+      const result = await convertBatchFile(createFile('{ broken', 'broken.json'), {
+        outputFormat: 'csv',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeTruthy();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  convertBatch,
+  createBatchArchive,
+  getUniqueFilename,
+  runWithConcurrency,
+} from '@/lib/batch';
+import type { BatchFile } from '@/types';
+
+/** jsdom files cannot be read as bytes, so provide the buffer directly */
+function createFile(content: string, name: string): File {
+  const file = new File([content], name);
+  const bytes = new TextEncoder().encode(content);
+  Object.defineProperty(file, 'arrayBuffer', { value: async () => bytes.buffer });
+  return file;
+}
+
+describe('Batch', () => {
+  describe('runWithConcurrency', () => {
+    it('should never run more tasks than the limit', async () => {
+      let running = 0;
+      let peak = 0;
+      const done: number[] = [];
+
+      await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        done.push(item);
+        running--;
+      });
+
+      expect(peak).toBe(2);
+      expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should handle an empty list', async () => {
+      await expect(runWithConcurrency([], 3, async () => {})).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getUniqueFilename', () => {
+    it('should number repeated names before the extension', () => {
+      const used = new Set<string>();
+
+      expect(getUniqueFilename('data.csv', used)).toBe('data.csv');
+      expect(getUniqueFilename('data.csv', used)).toBe('data (1).csv');
+      expect(getUniqueFilename('data.csv', used)).toBe('data (2).csv');
+      expect(getUniqueFilename('README', used)).toBe('README');
+    });
+  });
+
+  describe('createBatchArchive', () => {
+    it('should zip converted files under unique names', async () => {
+      const files: BatchFile[] = [
+        {
+          id: '1',
+          file: new File([''], 'data.csv'),
+          status: 'success',
+          result: { success: true, data: '[]', format: 'json' },
+        },
+        {
+          id: '2',
+          file: new File([''], 'data.tsv'),
+          status: 'success',
+          result: { success: true, data: '[1]', format: 'json' },
+        },
+        { id: '3', file: new File([''], 'bad.csv'), status: 'failed', error: 'oops' },
+      ];
+
+      const zip = await JSZip.loadAsync(await createBatchArchive(files));
+
+      expect(Object.keys(zip.files).sort()).toEqual(['data (1).json', 'data.json']);
+      expect(await zip.file('data (1).json')?.async('string')).toBe('[1]');
+    });
+  });
+
+  describe('convertBatch', () => {
+    const options = { outputFormat: 'json' as const };
+
+    it('should convert every file and describe it in the manifest', async () => {
+      const { archive, manifest } = await convertBatch(
+        [createFile('name\nJohn', 'people.csv'), createFile('{ broken', 'broken.json')],
+        () => options,
+        { requestId: 'req-1', maxFileSize: 1024 }
+      );
+
+      expect(manifest.requestId).toBe('req-1');
+      expect(manifest.summary).toEqual({ total: 2, succeeded: 1, failed: 1 });
+      expect(manifest.files[0]).toMatchObject({
+        fileName: 'people.csv',
+        status: 'success',
+        outputFileName: 'people.json',
+        inputFormat: 'csv',
+        rowCount: 1,
+      });
+      expect(manifest.files[1]).toMatchObject({ fileName: 'broken.json', status: 'failed' });
+      expect(manifest.files[1].error?.code).toBeTruthy();
+
+      const zip = await JSZip.loadAsync(archive);
+      expect(Object.keys(zip.files).sort()).toEqual(['manifest.json', 'people.json']);
+      expect(JSON.parse((await zip.file('manifest.json')?.async('string')) ?? '')).toEqual(manifest);
+    });
+
+    it('should report files over the size limit', async () => {
+      const file = createFile('name\nJohn', 'big.csv');
+
+      const { manifest } = await convertBatch([file], () => options, {
+        requestId: 'req-2',
+        maxFileSize: 4,
+      });
+
+      expect(manifest.files[0].error?.code).toBe('FILE_TOO_LARGE');
+    });
+
+    it('should apply per-file options', async () => {
+      const { manifest } = await convertBatch(
+        [createFile('a\n1', 'a.csv'), createFile('b\n2', 'b.csv')],
+        (index) => (index === 1 ? { outputFormat: 'sql' } : options),
+        { requestId: 'req-3', maxFileSize: 1024 }
+      );
+
+      expect(manifest.files.map((entry) => entry.outputFileName)).toEqual(['a.json', 'b.sql']);
+    });
+
+    it('should not let an output overwrite the manifest', async () => {
+      const { manifest } = await convertBatch([createFile('a\n1', 'manifest.csv')], () => options, {
+        requestId: 'req-4',
+        maxFileSize: 1024,
+      });
+
+      expect(manifest.files[0].outputFileName).toBe('manifest (1).json');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ConversionCache } from '@/lib/cache';
+
+describe('ConversionCache', () => {
+  let cache: ConversionCache;
+
+  beforeEach(() => {
+    cache = new ConversionCache({ maxSize: 1024 * 1024 });
+  });
+
+  describe('keys', () => {
+    it('should not collide on inputs that share a long prefix', () => {
+      const header = 'id,name,email\n' + 'x'.repeat(2000);
+      cache.set(`${header}\n1,a`, {}, { data: 'first' });
+
+      expect(cache.get(`${header}\n2,b`, {})).toBeNull();
+      expect(cache.get(`${header}\n1,a`, {})).toEqual({ data: 'first' });
+    });
+
+    it('should distinguish options', () => {
+      cache.set('input', { outputFormat: 'json' }, 'json');
+
+      expect(cache.get('input', { outputFormat: 'csv' })).toBeNull();
+      expect(cache.get('input', { outputFormat: 'json' })).toBe('json');
+    });
+
+    it('should key binary input by its content', () => {
+      const bytes = new Uint8Array([1, 2, 3, 4]);
+      cache.set(bytes.slice().buffer, {}, 'bytes');
+
+      expect(cache.get(new Uint8Array([1, 2, 3, 4]).buffer, {})).toBe('bytes');
+      expect(cache.get(new Uint8Array([1, 2, 3, 5]).buffer, {})).toBeNull();
+    });
+  });
+
+  describe('size accounting', () => {
+    it('should count the bytes of cached buffers', () => {
+      cache.set('excel', {}, { buffer: new ArrayBuffer(4096), contentType: 'application/vnd.ms-excel' });
+
+      expect(cache.getStats().currentSize).toBeGreaterThanOrEqual(4096);
+    });
+  });
+
+  describe('stats', () => {
+    it('should track hits, misses and hit rate', () => {
+      cache.set('a', {}, 'value');
+      cache.get('a', {});
+      cache.get('a', {});
+      cache.get('b', {});
+
+      const stats = cache.getStats();
+
+      expect(stats.hits).toBe(2);
+      expect(stats.misses).toBe(1);
+      expect(stats.hitRate).toBeCloseTo(2 / 3);
+    });
+
+    it('should report a zero hit rate before any lookup', () => {
+      expect(cache.getStats().hitRate).toBe(0);
+    });
+
+    it('should reset counters on clear', () => {
+      cache.get('missing', {});
+      cache.clear();
+
+      expect(cache.getStats().misses).toBe(0);
+    });
+  });
+});
@@ -127,5 +127,99 @@ describe('CSV Parser', () => {
 
       expect(result).toBe('name,age\nJohn,\nJane,');
     });
+
+    it('should prefix a byte order mark for utf-8-bom output', () => {
+      const result = writeCsv(['name'], [{ name: 'José' }], { outputEncoding: 'utf-8-bom' });
+
+      expect(result).toBe('\uFEFFname\nJosé');
+    });
+
+    it('should not add a byte order mark by default', () => {
+      const result = writeCsv(['name'], [{ name: 'José' }]);
+
+      expect(result.charCodeAt(0)).not.toBe(0xfeff);
+    });
+
+    it('should quote fields containing a carriage return', () => {
+      const result = writeCsv(['note'], [{ note: 'line 1\rline 2' }]);
+
+      expect(result).toBe('note\n"line 1\rline 2"');
+    });
+
+    it('should write multi-character delimiters', () => {
+      const result = writeCsv(['a', 'b'], [{ a: 'x||y', b: 'z' }], { delimiter: '||' });
+
+      expect(result).toBe('a||b\n"x||y"||z');
+    });
+
+    it('should use a custom quote and escape character', () => {
+      const rows = [{ name: "O'Brien, Pat", note: 'plain' }];
+
+      expect(writeCsv(['name', 'note'], rows, { quoteChar: "'" })).toBe("name,note\n'O''Brien, Pat',plain");
+      expect(writeCsv(['name', 'note'], rows, { quoteChar: "'", escapeChar: '\\' })).toBe(
+        "name,note\n'O\\'Brien, Pat',plain"
+      );
+    });
+
+    it('should quote every field with the all policy', () => {
+      const result = writeCsv(['name', 'age'], [{ name: 'John', age: null }], { quoting: 'all' });
+
+      expect(result).toBe('"name","age"\n"John",""');
+    });
+
+    it('should quote everything but numbers with the nonNumeric policy', () => {
+      const result = writeCsv(
+        ['name', 'age', 'score'],
+        [{ name: 'John', age: 30, score: '-1.5e3' }, { name: '007', age: null, score: 'n/a' }],
+        { quoting: 'nonNumeric' }
+      );
+
+      expect(result).toBe('"name","age","score"\n"John",30,-1.5e3\n007,,"n/a"');
+    });
+
+    it('should never quote with the none policy', () => {
+      const rows = [{ a: 'x,y', b: 'say "hi" \\o/' }, { a: 'plain', b: 'text' }];
+
+      expect(writeCsv(['a', 'b'], rows, { quoting: 'none', escapeChar: '\\' })).toBe(
+        'a,b\nx\\,y,say \\"hi\\" \\\\o/\nplain,text'
+      );
+    });
+
+    it('should quote special fields with the none policy when there is no escape character', () => {
+      const rows = [{ a: 'x,y', b: 'line\nbreak' }, { a: 'plain', b: 'text' }];
+
+      expect(writeCsv(['a', 'b'], rows, { quoting: 'none' })).toBe(
+        'a,b\n"x,y","line\nbreak"\nplain,text'
+      );
+    });
+
+    it('should escape a distinct escape character inside quoted fields', () => {
+      const escaped = { escapeChar: '\\' };
+
+      expect(writeCsv(['a'], [{ a: 'C:\\' }], { ...escaped, quoting: 'all' })).toBe('"a"\n"C:\\\\"');
+      expect(writeCsv(['a'], [{ a: 'C:\\temp' }], escaped)).toBe('a\n"C:\\\\temp"');
+      expect(writeCsv(['a'], [{ a: 'say \\"hi' }], escaped)).toBe('a\n"say \\\\\\"hi"');
+    });
+
+    it('should write CRLF line endings', () => {
+      const result = writeCsv(['a'], [{ a: 1 }, { a: 2 }], { lineTerminator: 'crlf' });
+
+      expect(result).toBe('a\r\n1\r\n2');
+    });
+
+    it('should omit the header row', () => {
+      const result = writeCsv(['a', 'b'], [{ a: 1, b: 2 }], { hasHeader: false });
+
+      expect(result).toBe('1,2');
+    });
+
+    it('should round-trip a custom dialect through parseCsv', () => {
+      const rows = [{ name: 'Tom; "TJ"', note: 'two\r\nlines' }];
+      const options = { delimiter: ';', quoteChar: "'", lineTerminator: 'crlf' as const, quoting: 'all' as const };
+
+      const parsed = parseCsv(writeCsv(['name', 'note'], rows, options), options);
+
+      expect(parsed.rows).toEqual(rows);
+    });
   });
 });
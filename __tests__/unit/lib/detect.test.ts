@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { detectFormat, detectDelimiter } from '@/lib/converter/detect';
+import {
+  detectFormat,
+  detectDelimiter,
+  detectBinaryFormat,
+  detectFormatFromFilename,
+  detectFormatFromMimeType,
+} from '@/lib/converter/detect';
 
 describe('Format Detection', () => {
   describe('detectFormat', () => {
@@ -33,6 +39,43 @@ describe('Format Detection', () => {
       expect(detectFormat(data)).toBe('xml');
     });
 
+    it('should detect SQL INSERT statements', () => {
+      const data = "INSERT INTO users (id, name) VALUES (1, 'John');";
+      expect(detectFormat(data)).toBe('sql');
+    });
+
+    it('should detect SQL dumps with leading comments', () => {
+      const data = '-- MySQL dump\n/*!40101 SET NAMES utf8 */;\nCREATE TABLE `t` (`id` int);';
+      expect(detectFormat(data)).toBe('sql');
+    });
+
+    it('should not detect CSV mentioning SQL keywords as SQL', () => {
+      const data = 'statement,count\nINSERT INTO,3';
+      expect(detectFormat(data)).toBe('csv');
+    });
+
+    it('should detect YAML mappings and sequences', () => {
+      expect(detectFormat('name: John\naddress:\n  city: NYC')).toBe('yaml');
+      expect(detectFormat('# people\n- name: John\n  age: 30\n- name: Jane')).toBe('yaml');
+      expect(detectFormat('---\nkind: Service')).toBe('yaml');
+    });
+
+    it('should detect JSON Lines', () => {
+      expect(detectFormat('{"id": 1}\n{"id": 2}\n')).toBe('jsonl');
+      expect(detectFormat('{"id": 1}')).toBe('json');
+      expect(detectFormat('{\n  "id": 1\n}')).toBe('json');
+    });
+
+    it('should detect HTML pages and table fragments', () => {
+      expect(detectFormat('<!DOCTYPE html>\n<html><body><p>Hi</p></body></html>')).toBe('html');
+      expect(detectFormat('<div><table><tr><td>1</td></tr></table></div>')).toBe('html');
+      expect(detectFormat('<?xml version="1.0"?><table><row>1</row></table>')).toBe('xml');
+    });
+
+    it('should not detect CSV with colons as YAML', () => {
+      expect(detectFormat('time: start,time: end\n10:00,11:00')).toBe('csv');
+    });
+
     it('should default to csv for unknown format', () => {
       const data = 'some random text';
       expect(detectFormat(data)).toBe('csv');
@@ -65,4 +108,44 @@ describe('Format Detection', () => {
       expect(detectDelimiter(data)).toBe(',');
     });
   });
+
+  describe('detectFormatFromFilename', () => {
+    it('should map both YAML extensions', () => {
+      expect(detectFormatFromFilename('deployment.yaml')).toBe('yaml');
+      expect(detectFormatFromFilename('.gitlab-ci.yml')).toBe('yaml');
+      expect(detectFormatFromMimeType('application/x-yaml')).toBe('yaml');
+    });
+
+    it('should map both JSON Lines extensions', () => {
+      expect(detectFormatFromFilename('events.jsonl')).toBe('jsonl');
+      expect(detectFormatFromFilename('export.ndjson')).toBe('jsonl');
+      expect(detectFormatFromMimeType('application/x-ndjson')).toBe('jsonl');
+    });
+
+    it('should map both HTML extensions', () => {
+      expect(detectFormatFromFilename('report.html')).toBe('html');
+      expect(detectFormatFromFilename('REPORT.HTM')).toBe('html');
+      expect(detectFormatFromMimeType('text/html')).toBe('html');
+    });
+  });
+
+  describe('detectBinaryFormat', () => {
+    it('should detect XLSX from the ZIP signature', () => {
+      expect(detectBinaryFormat(new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x14]).buffer)).toBe('xlsx');
+    });
+
+    it('should detect XLS from the OLE2 signature', () => {
+      expect(detectBinaryFormat(new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1]).buffer)).toBe('xls');
+    });
+
+    it('should detect Parquet from the PAR1 magic bytes', () => {
+      expect(detectBinaryFormat(new Uint8Array([0x50, 0x41, 0x52, 0x31, 0x15]).buffer)).toBe('parquet');
+      expect(detectFormatFromFilename('events.parquet')).toBe('parquet');
+    });
+
+    it('should return null for text and short buffers', () => {
+      expect(detectBinaryFormat(new TextEncoder().encode('name,age').buffer)).toBeNull();
+      expect(detectBinaryFormat(new Uint8Array([0x50, 0x4b]).buffer)).toBeNull();
+    });
+  });
 });
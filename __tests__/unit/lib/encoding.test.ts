@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { detectEncoding, decodeText, encodeText, normalizeEncoding } from '@/lib/converter/encoding';
+import { ValidationError } from '@/lib/errors';
+
+// '名前,年齢\n山田太郎,30\nさくら,25\n' encoded as Shift_JIS
+const SHIFT_JIS_CSV = new Uint8Array([
+  150, 188, 145, 79, 44, 148, 78, 151, 238, 10, 142, 82, 147, 99, 145, 190, 152, 89, 44, 51, 48, 10,
+  130, 179, 130, 173, 130, 231, 44, 50, 53, 10,
+]);
+
+// 'name,city\nJosé,Zürich\nRenée,Besançon\n' encoded as Windows-1252
+const WINDOWS_1252_CSV = new Uint8Array([
+  110, 97, 109, 101, 44, 99, 105, 116, 121, 10, 74, 111, 115, 233, 44, 90, 252, 114, 105, 99, 104, 10,
+  82, 101, 110, 233, 101, 44, 66, 101, 115, 97, 110, 231, 111, 110, 10,
+]);
+
+function utf16(text: string, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i * 2 + (littleEndian ? 0 : 1)] = code & 0xff;
+    bytes[i * 2 + (littleEndian ? 1 : 0)] = code >> 8;
+  }
+  return bytes;
+}
+
+describe('Encoding', () => {
+  describe('detectEncoding', () => {
+    it('should detect a UTF-8 BOM', () => {
+      expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toEqual({
+        encoding: 'utf-8',
+        bom: true,
+      });
+    });
+
+    it('should detect UTF-16 BOMs', () => {
+      expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00])).encoding).toBe('utf-16le');
+      expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61])).encoding).toBe('utf-16be');
+    });
+
+    it('should detect UTF-16 without a BOM', () => {
+      expect(detectEncoding(utf16('name,age\nJohn,30', true))).toEqual({
+        encoding: 'utf-16le',
+        bom: false,
+      });
+      expect(detectEncoding(utf16('name,age\nJohn,30', false)).encoding).toBe('utf-16be');
+    });
+
+    it('should detect UTF-8 and plain ASCII', () => {
+      expect(detectEncoding(new TextEncoder().encode('name\nJosé')).encoding).toBe('utf-8');
+      expect(detectEncoding(new TextEncoder().encode('name,age')).encoding).toBe('utf-8');
+    });
+
+    it('should detect Shift_JIS', () => {
+      expect(detectEncoding(SHIFT_JIS_CSV).encoding).toBe('shift_jis');
+    });
+
+    it('should fall back to Windows-1252', () => {
+      expect(detectEncoding(WINDOWS_1252_CSV).encoding).toBe('windows-1252');
+    });
+
+    it('should accept an ArrayBuffer', () => {
+      expect(detectEncoding(SHIFT_JIS_CSV.buffer).encoding).toBe('shift_jis');
+    });
+  });
+
+  describe('decodeText', () => {
+    it('should decode detected encodings', () => {
+      expect(decodeText(SHIFT_JIS_CSV).text).toBe('名前,年齢\n山田太郎,30\nさくら,25\n');
+      expect(decodeText(WINDOWS_1252_CSV).text).toBe('name,city\nJosé,Zürich\nRenée,Besançon\n');
+    });
+
+    it('should strip the byte order mark', () => {
+      const result = decodeText(new Uint8Array([0xef, 0xbb, 0xbf, 0x61, 0x62]));
+
+      expect(result.text).toBe('ab');
+      expect(result.bom).toBe(true);
+    });
+
+    it('should honour an explicit encoding', () => {
+      const result = decodeText(new TextEncoder().encode('é'), 'windows-1252');
+
+      expect(result.encoding).toBe('windows-1252');
+      expect(result.text).toBe('Ã©');
+    });
+
+    it('should treat "auto" as detection', () => {
+      expect(decodeText(WINDOWS_1252_CSV, 'auto').encoding).toBe('windows-1252');
+    });
+
+    it('should throw ValidationError for unknown encodings', () => {
+      expect(() => decodeText(WINDOWS_1252_CSV, 'klingon')).toThrow(ValidationError);
+    });
+  });
+
+  describe('normalizeEncoding', () => {
+    it('should resolve labels to canonical names', () => {
+      expect(normalizeEncoding('UTF8')).toBe('utf-8');
+      expect(normalizeEncoding('latin1')).toBe('windows-1252');
+      expect(normalizeEncoding('Shift_JIS')).toBe('shift_jis');
+      expect(normalizeEncoding('utf16')).toBe('utf-16le');
+    });
+  });
+
+  describe('encodeText', () => {
+    it('should encode UTF-8 without a BOM', () => {
+      expect(Array.from(encodeText('é', 'utf-8'))).toEqual([0xc3, 0xa9]);
+    });
+
+    it('should prefix a BOM for utf-8-bom', () => {
+      expect(Array.from(encodeText('a', 'utf-8-bom'))).toEqual([0xef, 0xbb, 0xbf, 0x61]);
+    });
+
+    it('should not duplicate an existing BOM', () => {
+      expect(Array.from(encodeText('\uFEFFa', 'utf-8-bom'))).toEqual([0xef, 0xbb, 0xbf, 0x61]);
+    });
+
+    it('should encode UTF-16LE with a BOM', () => {
+      expect(Array.from(encodeText('a€', 'utf-16le'))).toEqual([0xff, 0xfe, 0x61, 0x00, 0xac, 0x20]);
+    });
+
+    it('should encode Windows-1252 and replace unmappable characters', () => {
+      expect(Array.from(encodeText('é€日', 'windows-1252'))).toEqual([0xe9, 0x80, 0x3f]);
+    });
+
+    it('should round-trip through decodeText', () => {
+      const text = 'name,city\nJosé,Zürich';
+
+      expect(decodeText(encodeText(text, 'utf-16le')).text).toBe(text);
+      expect(decodeText(encodeText(text, 'windows-1252')).text).toBe(text);
+    });
+  });
+});
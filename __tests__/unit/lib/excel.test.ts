@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'vitest';
-import { parseExcelData, writeExcel, getSheetNames, isXlsxLoaded, preloadXlsx } from '@/lib/converter/excel';
+import * as XLSX from 'xlsx';
+import {
+  parseExcel,
+  parseExcelData,
+  writeExcel,
+  writeExcelTables,
+  getSheetNames,
+  isXlsxLoaded,
+  preloadXlsx,
+  sanitizeSheetName,
+} from '@/lib/converter/excel';
 
 describe('Excel Parser', () => {
   describe('parseExcelData', () => {
@@ -44,6 +54,83 @@ describe('Excel Parser', () => {
     });
   });
 
+  describe('parseExcel with allSheets', () => {
+    // One sheet per store with slightly different columns, plus an empty sheet
+    const buildWorkbook = (): ArrayBuffer => {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([['product', 'sold'], ['Pen', 4], ['Ink', 2]]),
+        'Store 1'
+      );
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([['product', 'sold', 'returned'], ['Pen', 7, 1]]),
+        'Store 2'
+      );
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([]), 'Notes');
+      return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+    };
+
+    it('should stack all sheets with a source column and unioned headers', async () => {
+      const result = await parseExcel(buildWorkbook(), { allSheets: 'stack' });
+
+      expect(result.headers).toEqual(['__sheet', 'product', 'sold', 'returned']);
+      expect(result.rows).toEqual([
+        { __sheet: 'Store 1', product: 'Pen', sold: 4 },
+        { __sheet: 'Store 1', product: 'Ink', sold: 2 },
+        { __sheet: 'Store 2', product: 'Pen', sold: 7, returned: 1 },
+      ]);
+      expect(result.metadata?.rowCount).toBe(3);
+    });
+
+    it('should not overwrite an existing __sheet column when stacking', async () => {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([['__sheet', 'product'], ['archived', 'Pen']]),
+        'Store 1'
+      );
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['product'], ['Ink']]), 'Store 2');
+      const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+
+      const result = await parseExcel(buffer, { allSheets: 'stack' });
+
+      expect(result.headers).toEqual(['__sheet_1', '__sheet', 'product']);
+      expect(result.rows).toEqual([
+        { __sheet_1: 'Store 1', __sheet: 'archived', product: 'Pen' },
+        { __sheet_1: 'Store 2', product: 'Ink' },
+      ]);
+    });
+
+    it('should return every sheet as a separate table', async () => {
+      const result = await parseExcel(buildWorkbook(), { allSheets: 'separate' });
+
+      expect(result.sheetTables?.map((table) => table.name)).toEqual(['Store 1', 'Store 2', 'Notes']);
+      expect(result.sheetTables?.[1].rows).toEqual([{ product: 'Pen', sold: 7, returned: 1 }]);
+      expect(result.headers).toEqual(['product', 'sold']);
+      expect(result.rows).toHaveLength(2);
+    });
+
+    it('should report headers and row counts per sheet', async () => {
+      const result = await parseExcel(buildWorkbook(), { allSheets: 'stack' });
+
+      expect(result.metadata?.sheetSummaries).toEqual([
+        { name: 'Store 1', headers: ['product', 'sold'], rowCount: 2, columnCount: 2 },
+        { name: 'Store 2', headers: ['product', 'sold', 'returned'], rowCount: 1, columnCount: 3 },
+        { name: 'Notes', headers: [], rowCount: 0, columnCount: 0 },
+      ]);
+    });
+
+    it('should still read only the selected sheet by default', async () => {
+      const result = await parseExcel(buildWorkbook(), { selectedSheet: 'Store 2' });
+
+      expect(result.headers).toEqual(['product', 'sold', 'returned']);
+      expect(result.sheetTables).toBeUndefined();
+      expect(result.metadata?.sheetSummaries).toBeUndefined();
+    });
+  });
+
   describe('writeExcel (async)', () => {
     it('should create Excel worksheet data', async () => {
       const headers = ['name', 'age'];
@@ -84,6 +171,101 @@ describe('Excel Parser', () => {
     });
   });
 
+  describe('writeExcel with splitBy', () => {
+    const headers = ['region', 'amount'];
+    const rows = [
+      { region: 'North', amount: 10 },
+      { region: 'South', amount: 20 },
+      { region: 'North', amount: 5 },
+      { region: null, amount: 1 },
+    ];
+
+    it('should write one sheet per distinct value in order of appearance', async () => {
+      const workbook = await writeExcel(headers, rows, { splitBy: 'region' });
+
+      expect(workbook.SheetNames).toEqual(['North', 'South', '(blank)']);
+      expect(XLSX.utils.sheet_to_json(workbook.Sheets['North'])).toEqual([
+        { region: 'North', amount: 10 },
+        { region: 'North', amount: 5 },
+      ]);
+    });
+
+    it('should add a summary sheet with counts per group', async () => {
+      const workbook = await writeExcel(headers, rows, { splitBy: 'region', summarySheet: true });
+
+      expect(workbook.SheetNames[0]).toBe('Summary');
+      expect(XLSX.utils.sheet_to_json(workbook.Sheets['Summary'])).toEqual([
+        { region: 'North', Sheet: 'North', Rows: 2 },
+        { region: 'South', Sheet: 'South', Rows: 1 },
+        { region: '', Sheet: '(blank)', Rows: 1 },
+        { region: 'Total', Sheet: '', Rows: 4 },
+      ]);
+    });
+
+    it('should de-duplicate sheet names that collide after sanitizing', async () => {
+      const long = 'A'.repeat(40);
+      const workbook = await writeExcel(
+        ['key'],
+        [{ key: 'a/b' }, { key: 'a:b' }, { key: 'A/B' }, { key: long }, { key: `${long}x` }, { key: 'Summary' }],
+        { splitBy: 'key', summarySheet: true }
+      );
+
+      expect(workbook.SheetNames).toEqual([
+        'Summary',
+        'a_b',
+        'a_b (2)',
+        'A_B (3)',
+        'A'.repeat(31),
+        `${'A'.repeat(27)} (2)`,
+        'Summary (2)',
+      ]);
+    });
+
+    it('should write a single sheet when the split column does not exist', async () => {
+      const workbook = await writeExcel(headers, rows, { splitBy: 'missing', sheetName: 'Data' });
+
+      expect(workbook.SheetNames).toEqual(['Data']);
+    });
+  });
+
+  describe('writeExcelTables', () => {
+    it('should write one sheet per table with valid, unique names', async () => {
+      const workbook = await writeExcelTables([
+        { name: 'orders', headers: ['_id', 'id'], rows: [{ _id: 1, id: 'A' }] },
+        { name: 'orders/lines', headers: ['_parent_id', 'sku'], rows: [{ _parent_id: 1, sku: 'x' }] },
+        { name: 'Orders', headers: ['note'], rows: [] },
+      ]);
+
+      expect(workbook.SheetNames).toEqual(['orders', 'orders_lines', 'Orders (2)']);
+      expect(XLSX.utils.sheet_to_json(workbook.Sheets['orders_lines'])).toEqual([{ _parent_id: 1, sku: 'x' }]);
+    });
+  });
+
+  describe('sanitizeSheetName', () => {
+    it('should replace invalid characters and truncate to 31 characters', () => {
+      expect(sanitizeSheetName('Q1/Q2 [draft]: *?\\')).toBe('Q1_Q2 _draft__ ___');
+      expect(sanitizeSheetName('x'.repeat(40))).toHaveLength(31);
+    });
+
+    it('should strip surrounding apostrophes and name empty values', () => {
+      expect(sanitizeSheetName("'quoted'")).toBe('quoted');
+      expect(sanitizeSheetName('   ')).toBe('(blank)');
+    });
+
+    it('should strip apostrophes exposed by truncation', () => {
+      const name = sanitizeSheetName(`${'x'.repeat(29)}'' tail`);
+
+      expect(name).toBe('x'.repeat(29));
+      expect(sanitizeSheetName(`'${'y'.repeat(40)}`)).toBe('y'.repeat(30));
+    });
+
+    it('should rename the reserved History sheet name', () => {
+      expect(sanitizeSheetName('History')).toBe('History_1');
+      expect(sanitizeSheetName(' HISTORY ')).toBe('HISTORY_1');
+      expect(sanitizeSheetName('History 2024')).toBe('History 2024');
+    });
+  });
+
   describe('getSheetNames', () => {
     it('should return sheet names from workbook', async () => {
       const headers = ['name'];
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HISTORY_MAX_INPUT_BYTES,
+  HISTORY_MAX_RESULT_BYTES,
+  createHistoryItem,
+  filterHistory,
+  getHistory,
+  recordConversion,
+  replayConversion,
+  selectEvictions,
+} from '@/lib/history';
+import type { ConversionHistoryItem, ConversionResult } from '@/types';
+
+const result: ConversionResult = {
+  success: true,
+  data: '[{"name":"John"}]',
+  format: 'json',
+  metadata: { inputFormat: 'csv', outputFormat: 'json', rowCount: 1, columnCount: 1 },
+};
+
+function entry(id: string, timestamp: number, size: number, extra: Partial<ConversionHistoryItem> = {}) {
+  return {
+    id,
+    timestamp,
+    size,
+    inputFormat: 'csv',
+    outputFormat: 'json',
+    rowCount: 1,
+    columnCount: 1,
+    options: { outputFormat: 'json' },
+    ...extra,
+  } as ConversionHistoryItem;
+}
+
+describe('History', () => {
+  describe('createHistoryItem', () => {
+    it('should record formats, names, counts and options', () => {
+      const item = createHistoryItem(result, { outputFormat: 'json' }, { fileName: 'people.csv' });
+
+      expect(item).toMatchObject({
+        inputFormat: 'csv',
+        outputFormat: 'json',
+        inputFileName: 'people.csv',
+        outputFileName: 'people.json',
+        rowCount: 1,
+        columnCount: 1,
+        options: { outputFormat: 'json' },
+      });
+      expect(item.result).toBeInstanceOf(Blob);
+      expect(item.result?.type).toBe('application/json');
+      expect(item.size).toBeGreaterThan(item.result?.size ?? 0);
+    });
+
+    it('should leave out results that are too large to keep', () => {
+      const large = new Blob([new Uint8Array(HISTORY_MAX_RESULT_BYTES + 1)]);
+      const item = createHistoryItem({ ...result, data: large }, { outputFormat: 'json' });
+
+      expect(item.result).toBeUndefined();
+      expect(item.outputFileName).toBe('converted.json');
+    });
+
+    it('should keep the input and parse options when small enough', () => {
+      const item = createHistoryItem(result, { outputFormat: 'json' }, {
+        data: 'name\nJohn',
+        parseOptions: { csv: { encoding: 'utf-8' } },
+      });
+
+      expect(item.input).toBe('name\nJohn');
+      expect(item.parseOptions).toEqual({ csv: { encoding: 'utf-8' } });
+      expect(item.size).toBeGreaterThan('name\nJohn'.length + (item.result?.size ?? 0));
+    });
+
+    it('should keep the applied transforms', () => {
+      const transforms = [{ removeDuplicates: true }, { selectedColumns: ['name'] }];
+
+      expect(createHistoryItem(result, { outputFormat: 'json' }, { transforms }).transforms).toEqual(transforms);
+      expect(createHistoryItem(result, { outputFormat: 'json' }, { transforms: [] }).transforms).toBeUndefined();
+    });
+
+    it('should leave out inputs that are too large to keep', () => {
+      const item = createHistoryItem(result, { outputFormat: 'json' }, {
+        data: new ArrayBuffer(HISTORY_MAX_INPUT_BYTES + 1),
+      });
+
+      expect(item.input).toBeUndefined();
+    });
+  });
+
+  describe('replayConversion', () => {
+    it('should convert the kept input with the original options', async () => {
+      const item = entry('1', 1, 0, {
+        input: 'name;age\nJohn;30',
+        options: { inputFormat: 'csv', outputFormat: 'json', json: { prettyPrint: false } },
+        parseOptions: { csv: { encoding: 'utf-8' } },
+      });
+
+      const { parsedData, result: replayed } = await replayConversion(item);
+
+      expect(parsedData.headers).toEqual(['name', 'age']);
+      expect(replayed.success).toBe(true);
+      expect(replayed.data).toBe('[{"name":"John","age":"30"}]');
+    });
+
+    it('should apply the recorded transforms before converting', async () => {
+      const item = entry('1', 1, 0, {
+        input: 'name,age\nJohn,30\nJohn,30\nJane,25',
+        options: { inputFormat: 'csv', outputFormat: 'json', json: { prettyPrint: false } },
+        transforms: [{ removeDuplicates: true }, { selectedColumns: ['name'] }],
+      });
+
+      const { parsedData, result: replayed } = await replayConversion(item);
+
+      expect(parsedData.headers).toEqual(['name']);
+      expect(replayed.data).toBe('[{"name":"John"},{"name":"Jane"}]');
+    });
+
+    it('should reject entries without a kept input', async () => {
+      await expect(replayConversion(entry('1', 1, 0))).rejects.toMatchObject({
+        code: 'MISSING_REQUIRED',
+      });
+    });
+  });
+
+  describe('selectEvictions', () => {
+    it('should evict the oldest entries until the history fits', () => {
+      const items = [entry('new', 3, 40), entry('old', 1, 40), entry('mid', 2, 40)];
+
+      expect(selectEvictions(items, 100)).toEqual(['old']);
+      expect(selectEvictions(items, 50)).toEqual(['old', 'mid']);
+      expect(selectEvictions(items, 200)).toEqual([]);
+    });
+
+    it('should always keep the newest entry', () => {
+      expect(selectEvictions([entry('only', 1, 500)], 100)).toEqual([]);
+    });
+  });
+
+  describe('filterHistory', () => {
+    const items = [
+      entry('1', 1, 0, { inputFileName: 'Sales.csv', outputFileName: 'Sales.json' }),
+      entry('2', 2, 0, { inputFormat: 'xlsx', outputFormat: 'sql', inputFileName: 'users.xlsx' }),
+    ];
+
+    it('should search file names case-insensitively', () => {
+      expect(filterHistory(items, { query: 'sales' }).map((item) => item.id)).toEqual(['1']);
+    });
+
+    it('should match input or output format', () => {
+      expect(filterHistory(items, { format: 'sql' }).map((item) => item.id)).toEqual(['2']);
+      expect(filterHistory(items, { format: 'csv' }).map((item) => item.id)).toEqual(['1']);
+    });
+
+    it('should return everything without a filter', () => {
+      expect(filterHistory(items, {})).toHaveLength(2);
+    });
+  });
+
+  describe('without IndexedDB', () => {
+    it('should return an empty history', async () => {
+      await expect(getHistory()).resolves.toEqual([]);
+    });
+
+    it('should skip recording conversions', async () => {
+      await expect(recordConversion(result, { outputFormat: 'json' })).resolves.toBeUndefined();
+    });
+  });
+});
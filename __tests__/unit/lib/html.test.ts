@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { parseHtml, writeHtml } from '@/lib/converter/html';
+import { ParseError } from '@/lib/errors';
+
+describe('HTML Converter', () => {
+  describe('parseHtml', () => {
+    it('should read headers from <thead> and rows from <tbody>', () => {
+      const result = parseHtml(`
+        <table>
+          <thead><tr><th>Name</th><th>Age</th></tr></thead>
+          <tbody>
+            <tr><td>John</td><td>30</td></tr>
+            <tr><td>Jane</td><td>25</td></tr>
+          </tbody>
+        </table>
+      `);
+
+      expect(result.format).toBe('html');
+      expect(result.headers).toEqual(['Name', 'Age']);
+      expect(result.rows).toEqual([
+        { Name: 'John', Age: '30' },
+        { Name: 'Jane', Age: '25' },
+      ]);
+      expect(result.metadata).toMatchObject({ rowCount: 2, columnCount: 2, tables: ['Table 1'] });
+    });
+
+    it('should use the first row as the header without <thead>', () => {
+      const result = parseHtml('<table><tr><td>id</td></tr><tr><td>1</td></tr></table>');
+
+      expect(result.headers).toEqual(['id']);
+      expect(result.rows).toEqual([{ id: '1' }]);
+    });
+
+    it('should repeat cells spanning columns and rows', () => {
+      const result = parseHtml(`
+        <table>
+          <tr><th>Region</th><th>Product</th><th>Sales</th></tr>
+          <tr><td rowspan="2">North</td><td>Pens</td><td>10</td></tr>
+          <tr><td>Ink</td><td>5</td></tr>
+          <tr><td colspan="2">Total</td><td>15</td></tr>
+        </table>
+      `);
+
+      expect(result.rows).toEqual([
+        { Region: 'North', Product: 'Pens', Sales: '10' },
+        { Region: 'North', Product: 'Ink', Sales: '5' },
+        { Region: 'Total', Product: 'Total', Sales: '15' },
+      ]);
+    });
+
+    it('should join multi-row headers with dots', () => {
+      const result = parseHtml(`
+        <table>
+          <thead>
+            <tr><th rowspan="2">City</th><th colspan="2">Temperature</th></tr>
+            <tr><th>Min</th><th>Max</th></tr>
+          </thead>
+          <tbody><tr><td>Oslo</td><td>-3</td><td>4</td></tr></tbody>
+        </table>
+      `);
+
+      expect(result.headers).toEqual(['City', 'Temperature.Min', 'Temperature.Max']);
+      expect(result.rows).toEqual([{ City: 'Oslo', 'Temperature.Min': '-3', 'Temperature.Max': '4' }]);
+    });
+
+    it('should decode entities, collapse whitespace and keep line breaks', () => {
+      const result = parseHtml(`
+        <table>
+          <tr><th>Note</th></tr>
+          <tr><td>  Tom   &amp;
+            <b>Jerry</b><br>second line </td></tr>
+        </table>
+      `);
+
+      expect(result.rows).toEqual([{ Note: 'Tom & Jerry\nsecond line' }]);
+    });
+
+    it('should name duplicate and empty headers', () => {
+      const result = parseHtml('<table><tr><th>a</th><th>a</th><th></th></tr><tr><td>1</td><td>2</td><td>3</td></tr></table>');
+
+      expect(result.headers).toEqual(['a', 'a_2', 'Column 3']);
+    });
+
+    it('should ignore tables nested inside cells', () => {
+      const result = parseHtml(`
+        <table>
+          <tr><th>Outer</th></tr>
+          <tr><td><table><tr><td>inner</td></tr></table></td></tr>
+        </table>
+      `);
+
+      expect(result.rows).toHaveLength(1);
+      expect(result.metadata?.tables).toEqual(['Table 1', 'Table 2']);
+    });
+
+    it('should list every table and select one by name or index', () => {
+      const html = `
+        <table id="users"><tr><th>name</th></tr><tr><td>John</td></tr></table>
+        <table><caption>Order totals</caption><tr><th>total</th></tr><tr><td>9.99</td></tr></table>
+      `;
+
+      expect(parseHtml(html).metadata?.tables).toEqual(['users', 'Order totals']);
+      expect(parseHtml(html, { selectedTable: 'Order totals' }).rows).toEqual([{ total: '9.99' }]);
+      expect(parseHtml(html, { selectedTable: 1 }).headers).toEqual(['total']);
+    });
+
+    it('should reject HTML without tables', () => {
+      expect(() => parseHtml('<p>No data here</p>')).toThrow(ParseError);
+      expect(() => parseHtml('<p>No data here</p>')).toThrow(/No <table> elements/);
+    });
+
+    it('should reject a table that does not exist', () => {
+      expect(() => parseHtml('<table><tr><th>a</th></tr></table>', { selectedTable: 'missing' })).toThrow(
+        'Table "missing" not found in HTML'
+      );
+    });
+  });
+
+  describe('writeHtml', () => {
+    it('should write a standalone styled document by default', () => {
+      const output = writeHtml(['name'], [{ name: 'John' }]);
+
+      expect(output.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(output).toContain('<style>');
+      expect(output).toContain('<tr><th>name</th></tr>');
+      expect(output).toContain('<tr><td>John</td></tr>');
+    });
+
+    it('should write a bare table fragment', () => {
+      const output = writeHtml(['a', 'b'], [{ a: 1, b: null }], { standalone: false });
+
+      expect(output).toBe(
+        [
+          '<table>',
+          '  <thead>',
+          '    <tr><th>a</th><th>b</th></tr>',
+          '  </thead>',
+          '  <tbody>',
+          '    <tr><td>1</td><td></td></tr>',
+          '  </tbody>',
+          '</table>',
+        ].join('\n')
+      );
+    });
+
+    it('should escape markup and replace line breaks', () => {
+      const output = writeHtml(['<x>'], [{ '<x>': `<script>"Tom" & 'Jerry'</script>\nnext` }], {
+        standalone: false,
+      });
+
+      expect(output).toContain('<th>&lt;x&gt;</th>');
+      expect(output).toContain(
+        '<td>&lt;script&gt;&quot;Tom&quot; &amp; &#39;Jerry&#39;&lt;/script&gt;<br>next</td>'
+      );
+    });
+
+    it('should round-trip through parseHtml', () => {
+      const rows = [{ name: 'A & B', note: 'line 1\nline 2' }];
+
+      const parsed = parseHtml(writeHtml(['name', 'note'], rows));
+
+      expect(parsed.headers).toEqual(['name', 'note']);
+      expect(parsed.rows).toEqual(rows);
+    });
+  });
+});
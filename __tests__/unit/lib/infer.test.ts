@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { inferColumnType, inferColumnTypes } from '@/lib/converter/infer';
+
+describe('Column Type Inference', () => {
+  describe('inferColumnType', () => {
+    it('should infer integer from numbers and integer strings', () => {
+      expect(inferColumnType('id', [1, '2', 3]).type).toBe('integer');
+    });
+
+    it('should infer bigint for values beyond 32 bits', () => {
+      expect(inferColumnType('id', [1, 3000000000]).type).toBe('bigint');
+    });
+
+    it('should infer decimal with precision and scale', () => {
+      const column = inferColumnType('price', ['9.99', '123.5', 4]);
+
+      expect(column.type).toBe('decimal');
+      expect(column.precision).toBe(5);
+      expect(column.scale).toBe(2);
+    });
+
+    it('should size decimals given in exponent notation', () => {
+      expect(inferColumnType('n', [1e21, 0.5])).toMatchObject({ type: 'decimal', precision: 23, scale: 1 });
+      expect(inferColumnType('n', [1.5e-7])).toMatchObject({ type: 'decimal', precision: 9, scale: 8 });
+    });
+
+    it('should fall back to varchar for numbers too large for DECIMAL', () => {
+      expect(inferColumnType('n', [1e40]).type).toBe('varchar');
+    });
+
+    it('should keep values with leading zeros as text', () => {
+      expect(inferColumnType('zip', ['01234', '90210'])).toMatchObject({ type: 'varchar', length: 5 });
+      expect(inferColumnType('amount', ['00.5']).type).toBe('varchar');
+      expect(inferColumnType('n', ['0', '-0', '0.25']).type).toBe('decimal');
+    });
+
+    it('should infer boolean from booleans and true/false strings', () => {
+      expect(inferColumnType('active', [true, 'false', 'TRUE']).type).toBe('boolean');
+    });
+
+    it('should not treat 0 and 1 as boolean', () => {
+      expect(inferColumnType('flag', ['0', '1']).type).toBe('integer');
+    });
+
+    it('should infer date from YYYY-MM-DD strings', () => {
+      expect(inferColumnType('day', ['2024-01-31', '2024-02-01']).type).toBe('date');
+    });
+
+    it('should not infer date for days that do not exist', () => {
+      expect(inferColumnType('day', ['2023-02-30']).type).toBe('varchar');
+      expect(inferColumnType('day', ['2024-02-29']).type).toBe('date');
+      expect(inferColumnType('at', ['2023-04-31T10:00:00Z']).type).toBe('varchar');
+    });
+
+    it('should infer timestamp from ISO date-time strings', () => {
+      expect(inferColumnType('at', ['2024-01-31T10:00:00Z', '2024-02-01 08:30']).type).toBe('timestamp');
+    });
+
+    it('should infer timestamp when dates and date-times are mixed', () => {
+      expect(inferColumnType('at', ['2024-01-31', '2024-02-01T08:30:00']).type).toBe('timestamp');
+    });
+
+    it('should infer varchar with the maximum length', () => {
+      const column = inferColumnType('name', ['Jo', 'Jane', 'Bob']);
+
+      expect(column.type).toBe('varchar');
+      expect(column.length).toBe(4);
+    });
+
+    it('should infer text for very long strings', () => {
+      expect(inferColumnType('body', ['x'.repeat(5000)]).type).toBe('text');
+    });
+
+    it('should fall back to varchar for mixed values', () => {
+      expect(inferColumnType('mixed', [1, 'abc', true]).type).toBe('varchar');
+    });
+
+    it('should mark columns with empty values as nullable', () => {
+      expect(inferColumnType('a', [1, null]).nullable).toBe(true);
+      expect(inferColumnType('a', [1, '']).nullable).toBe(true);
+      expect(inferColumnType('a', [1, 2]).nullable).toBe(false);
+    });
+
+    it('should infer nullable text for all-empty columns', () => {
+      expect(inferColumnType('empty', [null, undefined, ''])).toEqual({
+        name: 'empty',
+        type: 'text',
+        nullable: true,
+      });
+    });
+  });
+
+  describe('inferColumnTypes', () => {
+    it('should infer one column per header in order', () => {
+      const columns = inferColumnTypes(['id', 'name'], [
+        { id: 1, name: 'John' },
+        { id: 2 },
+      ]);
+
+      expect(columns.map((c) => c.name)).toEqual(['id', 'name']);
+      expect(columns[0]).toMatchObject({ type: 'integer', nullable: false });
+      expect(columns[1]).toMatchObject({ type: 'varchar', nullable: true });
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseJson, writeJson, flattenObject } from '@/lib/converter/json';
+import { parseJson, writeJson, flattenObject, unflattenObject } from '@/lib/converter/json';
 
 describe('JSON Parser', () => {
   describe('parseJson', () => {
@@ -57,6 +57,105 @@ describe('JSON Parser', () => {
       const jsonData = 'invalid json';
       expect(() => parseJson(jsonData)).toThrow();
     });
+
+    it('should read the records at a record path', () => {
+      const jsonData = '{"data":{"items":[{"id":1},{"id":2}]},"meta":{"page":1}}';
+
+      const result = parseJson(jsonData, { recordPath: '$.data.items[*]' });
+
+      expect(result.headers).toEqual(['id']);
+      expect(result.rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(result.metadata?.recordPath).toBe('$.data.items[*]');
+    });
+
+    it('should accept plain dot paths, indexes and bracketed keys', () => {
+      const jsonData = '{"pages":[{"my items":[{"id":1}]},{"my items":[{"id":2}]}]}';
+
+      expect(parseJson(jsonData, { recordPath: "pages[1]['my items']" }).rows).toEqual([{ id: 2 }]);
+      expect(parseJson(jsonData, { recordPath: "$.pages[*]['my items']" }).rows).toEqual([
+        { id: 1 },
+        { id: 2 },
+      ]);
+    });
+
+    it('should discover the largest nested array of records', () => {
+      const jsonData = JSON.stringify({
+        meta: { total: 3 },
+        tags: [{ name: 'a' }],
+        results: { items: [{ id: 1 }, { id: 2 }, { id: 3 }] },
+      });
+
+      const result = parseJson(jsonData);
+
+      expect(result.rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(result.metadata?.recordPath).toBe('$.results.items[*]');
+      expect(result.metadata?.recordPaths).toEqual(['$.results.items[*]', '$.tags[*]']);
+    });
+
+    it('should not list record paths for a plain array', () => {
+      const result = parseJson('[{"id":1}]');
+
+      expect(result.metadata?.recordPaths).toBeUndefined();
+      expect(result.metadata?.recordPath).toBeUndefined();
+    });
+
+    it('should copy parent fields into each record', () => {
+      const jsonData = JSON.stringify({
+        meta: { page: 1 },
+        orders: [
+          { id: 'A', lines: [{ sku: 'x' }, { sku: 'y' }] },
+          { id: 'B', lines: [{ sku: 'z' }] },
+        ],
+      });
+
+      const result = parseJson(jsonData, { recordPath: '$.orders[*].lines[*]', includeParentFields: true });
+
+      expect(result.rows).toEqual([
+        { 'meta.page': 1, 'orders.id': 'A', sku: 'x' },
+        { 'meta.page': 1, 'orders.id': 'A', sku: 'y' },
+        { 'meta.page': 1, 'orders.id': 'B', sku: 'z' },
+      ]);
+    });
+
+    it('should wrap primitive values found at a record path', () => {
+      const result = parseJson('{"ids":[1,2]}', { recordPath: '$.ids' });
+
+      expect(result.rows).toEqual([{ value: 1 }, { value: 2 }]);
+    });
+
+    it('should explode an array field into one row per element', () => {
+      const jsonData = JSON.stringify([
+        { id: 'A', lines: [{ sku: 'x' }, { sku: 'y' }] },
+        { id: 'B', lines: [{ sku: 'z' }] },
+      ]);
+
+      const result = parseJson(jsonData, { nestedArrays: 'explode' });
+
+      expect(result.headers).toEqual(['id', 'lines.sku']);
+      expect(result.rows).toEqual([
+        { id: 'A', 'lines.sku': 'x' },
+        { id: 'A', 'lines.sku': 'y' },
+        { id: 'B', 'lines.sku': 'z' },
+      ]);
+      expect(result.metadata?.arrayField).toBe('lines');
+    });
+
+    it('should normalize an array field into a table named after the record path', () => {
+      const jsonData = JSON.stringify({
+        orders: [{ id: 'A', customer: { name: 'Ann' }, lines: [{ sku: 'x', qty: 2 }] }],
+      });
+
+      const result = parseJson(jsonData, { nestedArrays: 'normalize', flattenNested: true });
+
+      expect(result.headers).toEqual(['_id', 'id', 'customer.name']);
+      expect(result.sheetTables?.map((table) => table.name)).toEqual(['orders', 'orders_lines']);
+      expect(result.sheetTables?.[1].rows).toEqual([{ _parent_id: 1, sku: 'x', qty: 2 }]);
+    });
+
+    it('should reject invalid or unmatched record paths', () => {
+      expect(() => parseJson('{"a":[]}', { recordPath: '$..a' })).toThrow(/Invalid record path/);
+      expect(() => parseJson('{"a":[]}', { recordPath: '$.b[*]' })).toThrow(/does not match any data/);
+    });
   });
 
   describe('writeJson', () => {
@@ -97,6 +196,53 @@ describe('JSON Parser', () => {
 
       expect(JSON.parse(result)).toEqual([]);
     });
+
+    it('should write columnar output for objectOfArrays', () => {
+      const headers = ['name', 'age'];
+      const rows = [
+        { name: 'John', age: 30 },
+        { name: 'Jane' },
+      ];
+      const result = writeJson(headers, rows, { arrayFormat: 'objectOfArrays' });
+
+      expect(JSON.parse(result)).toEqual({ name: ['John', 'Jane'], age: [30, null] });
+    });
+
+    it('should rebuild nested objects from dot-notation headers', () => {
+      const headers = ['name', 'address.city', 'address.geo.lat'];
+      const rows = [{ name: 'John', 'address.city': 'NYC', 'address.geo.lat': 40.7 }];
+      const result = writeJson(headers, rows, { unflatten: true });
+
+      expect(JSON.parse(result)).toEqual([
+        { name: 'John', address: { city: 'NYC', geo: { lat: 40.7 } } },
+      ]);
+    });
+
+    it('should rebuild nested columns in columnar output', () => {
+      const headers = ['id', 'address.city'];
+      const rows = [
+        { id: 1, 'address.city': 'NYC' },
+        { id: 2, 'address.city': 'LA' },
+      ];
+      const result = writeJson(headers, rows, { arrayFormat: 'objectOfArrays', unflatten: true });
+
+      expect(JSON.parse(result)).toEqual({ id: [1, 2], address: { city: ['NYC', 'LA'] } });
+    });
+
+    it('should round-trip flattened JSON back to nested documents', () => {
+      const original = [{ user: { name: 'John', address: { city: 'NYC' } }, active: true }];
+      const parsed = parseJson(JSON.stringify(original), { flattenNested: true });
+      const result = writeJson(parsed.headers, parsed.rows, { unflatten: true });
+
+      expect(JSON.parse(result)).toEqual(original);
+    });
+  });
+
+  describe('unflattenObject', () => {
+    it('should keep keys flat when they clash with a value at the same path', () => {
+      expect(unflattenObject({ 'a.b': 2, a: 1, 'c.d': 3 })).toEqual({ 'a.b': 2, a: 1, c: { d: 3 } });
+      expect(unflattenObject({ a: 1, 'a.b': 2 })).toEqual({ a: 1, 'a.b': 2 });
+    });
   });
 
   describe('flattenObject', () => {
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { parseJsonl, parseJsonlStream, writeJsonl } from '@/lib/converter/jsonl';
+import { ParseError } from '@/lib/errors';
+
+describe('JSON Lines Converter', () => {
+  describe('parseJsonl', () => {
+    it('should turn each line into a row', () => {
+      const result = parseJsonl('{"name":"John","age":30}\n{"name":"Jane","age":25}\n');
+
+      expect(result.format).toBe('jsonl');
+      expect(result.headers).toEqual(['name', 'age']);
+      expect(result.rows).toEqual([
+        { name: 'John', age: 30 },
+        { name: 'Jane', age: 25 },
+      ]);
+      expect(result.metadata).toEqual({ rowCount: 2, columnCount: 2 });
+    });
+
+    it('should collect headers across rows and skip blank lines', () => {
+      const result = parseJsonl('{"a":1}\r\n\r\n{"b":2}\n   \n');
+
+      expect(result.headers).toEqual(['a', 'b']);
+      expect(result.rows).toHaveLength(2);
+    });
+
+    it('should flatten nested objects when requested', () => {
+      const result = parseJsonl('{"user":{"id":1},"tags":["a","b"]}', { flattenNested: true });
+
+      expect(result.rows[0]).toEqual({ 'user.id': 1, tags: 'a,b' });
+    });
+
+    it('should report the line number of malformed lines', () => {
+      try {
+        parseJsonl('{"id":1}\n\n{"id":2\n{"id":3}');
+        expect.fail('Expected a ParseError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ParseError);
+        expect((error as ParseError).code).toBe('INVALID_JSON');
+        expect((error as ParseError).line).toBe(3);
+        expect((error as ParseError).message).toContain('line 3');
+      }
+    });
+
+    it('should reject lines that are not objects', () => {
+      expect(() => parseJsonl('{"id":1}\n[1,2]')).toThrow(/Line 2 must be a JSON object/);
+      expect(() => parseJsonl('"text"')).toThrow(ParseError);
+    });
+
+    it('should return an empty table for empty input', () => {
+      const result = parseJsonl('');
+
+      expect(result.headers).toEqual([]);
+      expect(result.rows).toEqual([]);
+    });
+  });
+
+  describe('parseJsonlStream', () => {
+    it('should parse a file line by line', async () => {
+      const file = new File(['{"id":1}\n{"id":2}\n{"id":3}'], 'events.jsonl');
+
+      const result = await parseJsonlStream(file);
+
+      expect(result.rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(result.metadata).toMatchObject({
+        rowCount: 3,
+        fileName: 'events.jsonl',
+        truncated: false,
+      });
+    });
+
+    it('should deliver rows in chunks and report progress', async () => {
+      const lines = Array.from({ length: 25 }, (_, i) => JSON.stringify({ id: i }));
+      const file = new File([lines.join('\n')], 'events.jsonl');
+      const chunks: number[] = [];
+      const progress: number[] = [];
+
+      await parseJsonlStream(file, {
+        chunkSize: 10,
+        onChunk: (rows) => chunks.push(rows.length),
+        onProgress: (value) => progress.push(value),
+      });
+
+      expect(chunks).toEqual([10, 10, 5]);
+      expect(progress[progress.length - 1]).toBe(100);
+    });
+
+    it('should stop at maxRows', async () => {
+      const file = new File(['{"id":1}\n{"id":2}\n{"id":3}\n'], 'events.jsonl');
+
+      const result = await parseJsonlStream(file, { maxRows: 2 });
+
+      expect(result.rows).toHaveLength(2);
+      expect(result.metadata?.truncated).toBe(true);
+    });
+
+    it('should keep multi-byte characters intact', async () => {
+      const file = new File(['{"city":"Zürich"}\n{"city":"القاهرة"}\n'], 'cities.jsonl');
+
+      const result = await parseJsonlStream(file);
+
+      expect(result.rows).toEqual([{ city: 'Zürich' }, { city: 'القاهرة' }]);
+    });
+
+    it('should report malformed lines', async () => {
+      const file = new File(['{"id":1}\nnot json\n'], 'events.jsonl');
+
+      await expect(parseJsonlStream(file)).rejects.toMatchObject({ line: 2 });
+    });
+  });
+
+  describe('writeJsonl', () => {
+    it('should write one compact object per line', () => {
+      const output = writeJsonl(['name', 'age'], [
+        { name: 'John', age: 30 },
+        { name: 'Jane', age: 25 },
+      ]);
+
+      expect(output).toBe('{"name":"John","age":30}\n{"name":"Jane","age":25}\n');
+    });
+
+    it('should only include the given headers', () => {
+      const output = writeJsonl(['name'], [{ name: 'John', secret: 'x' }]);
+
+      expect(output).toBe('{"name":"John"}\n');
+    });
+
+    it('should return an empty string for no rows', () => {
+      expect(writeJsonl(['name'], [])).toBe('');
+    });
+
+    it('should round-trip through parseJsonl', () => {
+      const rows = [{ id: 1, note: 'line\nbreak' }, { id: 2, note: null }];
+
+      expect(parseJsonl(writeJsonl(['id', 'note'], rows)).rows).toEqual(rows);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { writeMarkdown } from '@/lib/converter/markdown';
+
+describe('Markdown Converter', () => {
+  describe('writeMarkdown', () => {
+    it('should render a padded GitHub-flavored table', () => {
+      const output = writeMarkdown(['name', 'city'], [
+        { name: 'John', city: 'NYC' },
+        { name: 'Jane', city: 'Los Angeles' },
+      ]);
+
+      expect(output).toBe(
+        [
+          '| name | city        |',
+          '| ---- | ----------- |',
+          '| John | NYC         |',
+          '| Jane | Los Angeles |',
+        ].join('\n')
+      );
+    });
+
+    it('should right-align numeric columns by default', () => {
+      const output = writeMarkdown(['item', 'price'], [
+        { item: 'Pen', price: '1.5' },
+        { item: 'Notebook', price: 12 },
+      ]);
+
+      expect(output.split('\n')).toEqual([
+        '| item     | price |',
+        '| -------- | ----: |',
+        '| Pen      |   1.5 |',
+        '| Notebook |    12 |',
+      ]);
+    });
+
+    it('should leave alignment to the renderer when alignment is none', () => {
+      const output = writeMarkdown(['id'], [{ id: 1 }], { alignment: 'none' });
+
+      expect(output.split('\n')[1]).toBe('| --- |');
+    });
+
+    it('should escape pipes and replace line breaks', () => {
+      const output = writeMarkdown(['note'], [{ note: 'a | b\r\nnext line' }]);
+
+      expect(output.split('\n')[2]).toBe('| a \\| b<br>next line |');
+    });
+
+    it('should truncate cells longer than maxWidth', () => {
+      const output = writeMarkdown(['text'], [{ text: 'abcdefghij' }, { text: 'abc' }], {
+        maxWidth: 5,
+      });
+
+      expect(output.split('\n').slice(2)).toEqual(['| abcd… |', '| abc   |']);
+    });
+
+    it('should render empty values and objects', () => {
+      const output = writeMarkdown(['a', 'b'], [{ a: null, b: { x: 1 } }]);
+
+      expect(output.split('\n')[2]).toBe('|     | {"x":1} |');
+    });
+
+    it('should return an empty string without headers', () => {
+      expect(writeMarkdown([], [])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { expandArrayField, ROW_ID_COLUMN, PARENT_ID_COLUMN } from '@/lib/converter/nested';
+
+const orders = [
+  { id: 'A', customer: 'Ann', lines: [{ sku: 'x', qty: 1 }, { sku: 'y', qty: 2 }] },
+  { id: 'B', customer: 'Bob', lines: [] },
+  { id: 'C', customer: 'Cy', lines: [{ sku: 'z', qty: 5 }] },
+];
+
+describe('Nested arrays', () => {
+  describe('expandArrayField', () => {
+    it('should leave records as they are by default', () => {
+      const result = expandArrayField(orders);
+
+      expect(result.rows).toEqual(orders);
+      expect(result.headers).toEqual(['id', 'customer', 'lines']);
+      expect(result.field).toBeUndefined();
+      expect(result.tables).toBeUndefined();
+    });
+
+    it('should explode an array into one row per element', () => {
+      const result = expandArrayField(orders, { mode: 'explode' });
+
+      expect(result.field).toBe('lines');
+      expect(result.headers).toEqual(['id', 'customer', 'lines.sku', 'lines.qty']);
+      expect(result.rows).toEqual([
+        { id: 'A', customer: 'Ann', 'lines.sku': 'x', 'lines.qty': 1 },
+        { id: 'A', customer: 'Ann', 'lines.sku': 'y', 'lines.qty': 2 },
+        { id: 'B', customer: 'Bob' },
+        { id: 'C', customer: 'Cy', 'lines.sku': 'z', 'lines.qty': 5 },
+      ]);
+    });
+
+    it('should explode arrays of primitives under the field name', () => {
+      const result = expandArrayField([{ id: 1, tags: ['a', 'b'] }], { mode: 'explode' });
+
+      expect(result.rows).toEqual([
+        { id: 1, tags: 'a' },
+        { id: 1, tags: 'b' },
+      ]);
+    });
+
+    it('should normalize an array into a child table with generated keys', () => {
+      const result = expandArrayField(orders, { mode: 'normalize', tableName: 'orders' });
+
+      expect(result.rows).toEqual([
+        { [ROW_ID_COLUMN]: 1, id: 'A', customer: 'Ann' },
+        { [ROW_ID_COLUMN]: 2, id: 'B', customer: 'Bob' },
+        { [ROW_ID_COLUMN]: 3, id: 'C', customer: 'Cy' },
+      ]);
+      expect(result.tables?.map((table) => table.name)).toEqual(['orders', 'orders_lines']);
+      expect(result.tables?.[1]).toEqual({
+        name: 'orders_lines',
+        headers: [PARENT_ID_COLUMN, 'sku', 'qty'],
+        rows: [
+          { [PARENT_ID_COLUMN]: 1, sku: 'x', qty: 1 },
+          { [PARENT_ID_COLUMN]: 1, sku: 'y', qty: 2 },
+          { [PARENT_ID_COLUMN]: 3, sku: 'z', qty: 5 },
+        ],
+      });
+    });
+
+    it('should not overwrite existing _id and _parent_id columns when normalizing', () => {
+      const records = [
+        { _id: 'mongo-a', _id_1: 'taken', lines: [{ _parent_id: 'p', sku: 'x' }] },
+        { _id: 'mongo-b', _id_1: 'taken', lines: [] },
+      ];
+
+      const result = expandArrayField(records, { mode: 'normalize', tableName: 'orders' });
+
+      expect(result.headers).toEqual(['_id_2', '_id', '_id_1']);
+      expect(result.rows).toEqual([
+        { _id_2: 1, _id: 'mongo-a', _id_1: 'taken' },
+        { _id_2: 2, _id: 'mongo-b', _id_1: 'taken' },
+      ]);
+      expect(result.tables?.[1].rows).toEqual([{ _parent_id_1: 1, _parent_id: 'p', sku: 'x' }]);
+    });
+
+    it('should expand a field given as a nested dot path', () => {
+      const records = [{ id: 1, order: { date: '2024-01-01', lines: [{ sku: 'x' }] } }];
+
+      const result = expandArrayField(records, { mode: 'explode', field: 'order.lines' });
+
+      expect(result.rows).toEqual([{ id: 1, order: { date: '2024-01-01' }, 'order.lines.sku': 'x' }]);
+    });
+
+    it('should treat a single value at the field as a one-element array', () => {
+      const records = [
+        { id: 1, line: { sku: 'x' } },
+        { id: 2, line: [{ sku: 'y' }, { sku: 'z' }] },
+      ];
+
+      const result = expandArrayField(records, { mode: 'explode' });
+
+      expect(result.field).toBe('line');
+      expect(result.rows.map((row) => row['line.sku'])).toEqual(['x', 'y', 'z']);
+    });
+
+    it('should prefer arrays of objects when detecting the field', () => {
+      const records = [{ tags: ['a'], lines: [{ sku: 'x' }] }];
+
+      expect(expandArrayField(records, { mode: 'explode' }).field).toBe('lines');
+    });
+
+    it('should flatten every output row', () => {
+      const records = [{ id: 1, meta: { ok: true }, lines: [{ sku: 'x' }] }];
+      const flatten = (row: Record<string, unknown>) =>
+        Object.fromEntries(Object.entries(row).map(([key, value]) => [key.toUpperCase(), value]));
+
+      const result = expandArrayField(records, { mode: 'normalize', flatten });
+
+      expect(result.headers).toEqual(['_ID', 'ID', 'META']);
+      expect(result.tables?.[1].headers).toEqual(['_PARENT_ID', 'SKU']);
+    });
+
+    it('should return records unchanged when there is no array field', () => {
+      const result = expandArrayField([{ id: 1 }], { mode: 'normalize' });
+
+      expect(result.rows).toEqual([{ id: 1 }]);
+      expect(result.tables).toBeUndefined();
+    });
+  });
+});
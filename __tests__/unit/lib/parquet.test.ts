@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { parseParquet, writeParquet } from '@/lib/converter/parquet';
+import { ParseError } from '@/lib/errors';
+
+const HEADERS = ['id', 'price', 'active', 'sold', 'name'];
+const ROWS = [
+  { id: '1', price: '9.99', active: 'true', sold: '2024-01-15', name: 'Pen' },
+  { id: '2', price: '19.5', active: 'false', sold: '', name: 'Pencil case' },
+];
+
+describe('Parquet Converter', () => {
+  // jsdom replaces Uint8Array with its own, so encoded strings from Node's
+  // TextEncoder fail the writer's instanceof checks
+  beforeAll(() => {
+    const NodeTextEncoder = TextEncoder;
+    vi.stubGlobal(
+      'TextEncoder',
+      class extends NodeTextEncoder {
+        encode(input?: string) {
+          return new Uint8Array(super.encode(input));
+        }
+      }
+    );
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('writeParquet', () => {
+    it('should write a file with the Parquet magic bytes', async () => {
+      const buffer = await writeParquet(HEADERS, ROWS);
+      const bytes = new Uint8Array(buffer);
+
+      expect(String.fromCharCode(...bytes.slice(0, 4))).toBe('PAR1');
+      expect(String.fromCharCode(...bytes.slice(-4))).toBe('PAR1');
+    });
+
+    it('should store inferred column types', async () => {
+      const parsed = await parseParquet(await writeParquet(HEADERS, ROWS));
+
+      expect(parsed.metadata?.columnTypes).toEqual({
+        id: 'INT32',
+        price: 'DOUBLE',
+        active: 'BOOLEAN',
+        sold: 'DATE',
+        name: 'UTF8',
+      });
+      expect(parsed.rows).toEqual([
+        { id: 1, price: 9.99, active: true, sold: '2024-01-15', name: 'Pen' },
+        { id: 2, price: 19.5, active: false, sold: null, name: 'Pencil case' },
+      ]);
+    });
+
+    it('should write 64-bit integers and timestamps', async () => {
+      const parsed = await parseParquet(
+        await writeParquet(
+          ['big', 'at'],
+          [{ big: '9007199254740993', at: '2024-01-15T10:30:00Z' }, { big: 5000000000, at: '' }]
+        )
+      );
+
+      expect(parsed.metadata?.columnTypes).toMatchObject({ big: 'INT64', at: 'TIMESTAMP_MILLIS' });
+      expect(parsed.rows).toEqual([
+        { big: '9007199254740993', at: '2024-01-15T10:30:00.000Z' },
+        { big: 5000000000, at: null },
+      ]);
+    });
+
+    it('should write whole numbers that are not integer literals as doubles', async () => {
+      const parsed = await parseParquet(
+        await writeParquet(['a', 'b'], [{ a: '5.', b: 1e21 }, { a: '9007199254740993', b: 2 }])
+      );
+
+      expect(parsed.metadata?.columnTypes).toMatchObject({ a: 'DOUBLE', b: 'DOUBLE' });
+      expect(parsed.rows[0]).toEqual({ a: 5, b: 1e21 });
+    });
+
+    it.each(['snappy', 'gzip', 'none'] as const)('should round-trip with %s compression', async (compression) => {
+      const rows = Array.from({ length: 50 }, (_, i) => ({ id: i, label: `row ${i % 5}` }));
+
+      const parsed = await parseParquet(await writeParquet(['id', 'label'], rows, { compression }));
+
+      expect(parsed.rows).toEqual(rows);
+    });
+
+    it('should make gzip output smaller than uncompressed output', async () => {
+      const rows = Array.from({ length: 500 }, (_, i) => ({ note: `repeated text ${i}` }));
+
+      const gzip = await writeParquet(['note'], rows, { compression: 'gzip' });
+      const none = await writeParquet(['note'], rows, { compression: 'none' });
+
+      expect(gzip.byteLength).toBeLessThan(none.byteLength);
+    });
+
+    it('should split rows into row groups', async () => {
+      const { parquetMetadata } = await import('hyparquet');
+      const rows = Array.from({ length: 25 }, (_, i) => ({ id: i }));
+
+      const metadata = parquetMetadata(await writeParquet(['id'], rows, { rowGroupSize: 10 }));
+
+      expect(metadata.row_groups.map((group) => Number(group.num_rows))).toEqual([10, 10, 5]);
+    });
+  });
+
+  describe('parseParquet', () => {
+    it('should return headers for a file without rows', async () => {
+      const parsed = await parseParquet(await writeParquet(['id', 'name'], []));
+
+      expect(parsed.format).toBe('parquet');
+      expect(parsed.headers).toEqual(['id', 'name']);
+      expect(parsed.rows).toEqual([]);
+    });
+
+    it('should reject data that is not Parquet', async () => {
+      const data = new TextEncoder().encode('name,age\nJohn,30').buffer as ArrayBuffer;
+
+      await expect(parseParquet(data)).rejects.toBeInstanceOf(ParseError);
+      await expect(parseParquet(data)).rejects.toMatchObject({ code: 'INVALID_PARQUET' });
+    });
+  });
+});
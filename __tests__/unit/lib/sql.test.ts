@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { writeSql } from '@/lib/converter/sql';
+import { parseCsv } from '@/lib/converter/csv';
+import { writeSql, writeSqlTables, parseSql } from '@/lib/converter/sql';
 
 describe('SQL Generator', () => {
   describe('writeSql', () => {
@@ -387,4 +388,660 @@ describe('SQL Generator', () => {
       expect(sql).toMatch(/\('a'\),\n\('b'\)/);
     });
   });
+
+  describe('SQL Dialects', () => {
+    it('should default to PostgreSQL double-quote identifiers', () => {
+      const sql = writeSql(['SELECT'], [{ SELECT: 1 }]);
+
+      expect(sql).toContain('"SELECT"');
+    });
+
+    it('should quote MySQL identifiers with backticks', () => {
+      const sql = writeSql(['SELECT'], [{ SELECT: 1 }], { dialect: 'mysql' });
+
+      expect(sql).toContain('`SELECT`');
+      expect(sql).not.toContain('"SELECT"');
+    });
+
+    it('should quote MSSQL identifiers with brackets', () => {
+      const sql = writeSql(['SELECT'], [{ SELECT: 1 }], { dialect: 'mssql' });
+
+      expect(sql).toContain('[SELECT]');
+    });
+
+    it('should quote dialect-specific reserved words', () => {
+      expect(writeSql(['key'], [{ key: 1 }], { dialect: 'mysql' })).toContain('`key`');
+      expect(writeSql(['key'], [{ key: 1 }], { dialect: 'postgresql' })).not.toContain('"key"');
+      expect(writeSql(['top'], [{ top: 1 }], { dialect: 'mssql' })).toContain('[top]');
+    });
+
+    it('should use 1/0 booleans for SQLite and MSSQL', () => {
+      const rows = [{ active: true, deleted: false }];
+
+      expect(writeSql(['active', 'deleted'], rows, { dialect: 'sqlite' })).toContain('(1, 0)');
+      expect(writeSql(['active', 'deleted'], rows, { dialect: 'mssql' })).toContain('(1, 0)');
+      expect(writeSql(['active', 'deleted'], rows, { dialect: 'mysql' })).toContain('(TRUE, FALSE)');
+    });
+
+    it('should escape backslashes in MySQL strings', () => {
+      const sql = writeSql(['path'], [{ path: "C:\\Users\\O'Brien" }], { dialect: 'mysql' });
+
+      expect(sql).toContain("'C:\\\\Users\\\\O''Brien'");
+    });
+
+    it('should not escape backslashes in PostgreSQL strings', () => {
+      const sql = writeSql(['path'], [{ path: 'C:\\Users' }], { dialect: 'postgresql' });
+
+      expect(sql).toContain("'C:\\Users'");
+    });
+
+    it('should prefix MSSQL strings with N', () => {
+      const sql = writeSql(['name'], [{ name: "O'Brien" }], { dialect: 'mssql' });
+
+      expect(sql).toContain("N'O''Brien'");
+    });
+
+    it('should cap MSSQL batches at 1000 rows', () => {
+      const rows = Array.from({ length: 2500 }, (_, i) => ({ id: i }));
+      const sql = writeSql(['id'], rows, { dialect: 'mssql', batchSize: 5000 });
+
+      const insertCount = (sql.match(/INSERT INTO/g) || []).length;
+      expect(insertCount).toBe(3);
+    });
+
+    it('should not cap batches for other dialects', () => {
+      const rows = Array.from({ length: 2500 }, (_, i) => ({ id: i }));
+      const sql = writeSql(['id'], rows, { dialect: 'postgresql', batchSize: 5000 });
+
+      const insertCount = (sql.match(/INSERT INTO/g) || []).length;
+      expect(insertCount).toBe(1);
+    });
+  });
+
+  describe('CREATE TABLE Type Inference', () => {
+    const headers = ['id', 'price', 'active', 'day', 'name'];
+    const rows = [
+      { id: 1, price: '9.99', active: true, day: '2024-01-31', name: 'Pen' },
+      { id: 2, price: '19.5', active: false, day: '2024-02-01', name: '' },
+    ];
+
+    it('should keep TEXT columns when inference is off', () => {
+      const sql = writeSql(headers, rows, { includeCreate: true });
+
+      expect(sql).toContain('id TEXT');
+      expect(sql).not.toContain('NOT NULL');
+    });
+
+    it('should infer PostgreSQL types with NOT NULL', () => {
+      const sql = writeSql(headers, rows, { includeCreate: true, inferTypes: true });
+
+      expect(sql).toContain('id INTEGER NOT NULL');
+      expect(sql).toContain('price DECIMAL(4, 2) NOT NULL');
+      expect(sql).toContain('active BOOLEAN NOT NULL');
+      expect(sql).toContain('day DATE NOT NULL');
+      expect(sql).toContain('name VARCHAR(3)\n');
+    });
+
+    it('should map inferred types to MySQL', () => {
+      const sql = writeSql(['at'], [{ at: '2024-01-31T10:00:00Z' }], {
+        includeCreate: true,
+        inferTypes: true,
+        dialect: 'mysql',
+      });
+
+      expect(sql).toContain('at DATETIME NOT NULL');
+    });
+
+    it('should map inferred types to SQLite affinities', () => {
+      const sql = writeSql(headers, rows, { includeCreate: true, inferTypes: true, dialect: 'sqlite' });
+
+      expect(sql).toContain('active INTEGER NOT NULL');
+      expect(sql).toContain('day TEXT NOT NULL');
+      expect(sql).toContain('name TEXT');
+    });
+
+    it('should map inferred types to MSSQL', () => {
+      const sql = writeSql(headers, rows, { includeCreate: true, inferTypes: true, dialect: 'mssql' });
+
+      expect(sql).toContain('id INT NOT NULL');
+      expect(sql).toContain('active BIT NOT NULL');
+      expect(sql).toContain('name NVARCHAR(3)');
+    });
+
+    it('should apply generic column type overrides', () => {
+      const sql = writeSql(headers, rows, {
+        includeCreate: true,
+        inferTypes: true,
+        columnTypes: { id: 'bigint' },
+      });
+
+      expect(sql).toContain('id BIGINT NOT NULL');
+    });
+
+    it('should apply raw column type overrides without inference', () => {
+      const sql = writeSql(['code'], [{ code: 'USD' }], {
+        includeCreate: true,
+        columnTypes: { code: 'CHAR(3)' },
+      });
+
+      expect(sql).toContain('code CHAR(3)');
+    });
+
+    it('should ignore unsafe raw column type overrides', () => {
+      const sql = writeSql(['code'], [{ code: 'USD' }], {
+        includeCreate: true,
+        columnTypes: { code: 'TEXT); DROP TABLE users; --' },
+      });
+
+      expect(sql).toContain('code TEXT\n');
+      expect(sql).not.toContain('DROP TABLE');
+    });
+  });
+
+  describe('Typed Values', () => {
+    const csv = 'id,active,price,name\n1,true,9.5,Pen\n,false,,';
+
+    it('should write CSV values as their inferred PostgreSQL types', () => {
+      const { headers, rows } = parseCsv(csv);
+
+      const sql = writeSql(headers, rows, { inferTypes: true });
+
+      expect(sql).toContain("VALUES\n(1, TRUE, 9.5, 'Pen'),\n(NULL, FALSE, NULL, '');");
+    });
+
+    it('should write CSV booleans as the dialect literal', () => {
+      const { headers, rows } = parseCsv(csv);
+
+      expect(writeSql(headers, rows, { inferTypes: true, dialect: 'mysql' })).toContain(
+        "VALUES\n(1, TRUE, 9.5, 'Pen'),\n(NULL, FALSE, NULL, '');"
+      );
+      expect(writeSql(headers, rows, { inferTypes: true, dialect: 'sqlite' })).toContain(
+        "VALUES\n(1, 1, 9.5, 'Pen'),\n(NULL, 0, NULL, '');"
+      );
+    });
+
+    it('should follow generic column type overrides', () => {
+      const sql = writeSql(['zip', 'qty'], [{ zip: '01234', qty: '+3' }], {
+        columnTypes: { zip: 'varchar', qty: 'integer' },
+      });
+
+      expect(sql).toContain("VALUES\n('01234', 3);");
+    });
+
+    it('should quote values that do not fit the column type', () => {
+      const sql = writeSql(['qty'], [{ qty: 'n/a' }], { columnTypes: { qty: 'integer' } });
+
+      expect(sql).toContain("VALUES\n('n/a');");
+    });
+
+    it('should write values unchanged without inference', () => {
+      const { headers, rows } = parseCsv(csv);
+
+      expect(writeSql(headers, rows)).toContain("VALUES\n('1', 'true', '9.5', 'Pen'),");
+    });
+  });
+
+  describe('Upsert Mode', () => {
+    const headers = ['id', 'name', 'price'];
+    const rows = [
+      { id: 1, name: 'Pen', price: 2 },
+      { id: 2, name: 'Ink', price: 5 },
+    ];
+
+    it('should generate ON CONFLICT for PostgreSQL', () => {
+      const sql = writeSql(headers, rows, { mode: 'upsert', keyColumns: ['id'] });
+
+      expect(sql).toContain('INSERT INTO my_table (id, name, price)');
+      expect(sql).toContain('ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name, price = EXCLUDED.price;');
+    });
+
+    it('should generate ON CONFLICT for SQLite', () => {
+      const sql = writeSql(headers, rows, { mode: 'upsert', keyColumns: ['id'], dialect: 'sqlite' });
+
+      expect(sql).toContain('ON CONFLICT (id) DO UPDATE SET');
+    });
+
+    it('should generate ON DUPLICATE KEY UPDATE for MySQL', () => {
+      const sql = writeSql(headers, rows, { mode: 'upsert', keyColumns: ['id'], dialect: 'mysql' });
+
+      expect(sql).toContain('ON DUPLICATE KEY UPDATE name = VALUES(name), price = VALUES(price);');
+    });
+
+    it('should generate MERGE for MSSQL', () => {
+      const sql = writeSql(headers, rows, { mode: 'upsert', keyColumns: ['id'], dialect: 'mssql' });
+
+      expect(sql).toContain('MERGE INTO my_table AS target');
+      expect(sql).toContain(") AS source (id, name, price)");
+      expect(sql).toContain('ON target.id = source.id');
+      expect(sql).toContain('WHEN MATCHED THEN UPDATE SET target.name = source.name, target.price = source.price');
+      expect(sql).toContain('WHEN NOT MATCHED THEN INSERT (id, name, price) VALUES (source.id, source.name, source.price);');
+      expect(sql).not.toContain('INSERT INTO');
+    });
+
+    it('should support composite keys', () => {
+      const sql = writeSql(headers, rows, { mode: 'upsert', keyColumns: ['id', 'name'] });
+
+      expect(sql).toContain('ON CONFLICT (id, name) DO UPDATE SET price = EXCLUDED.price;');
+    });
+
+    it('should do nothing on conflict when every column is a key', () => {
+      const sql = writeSql(['id'], [{ id: 1 }], { mode: 'upsert', keyColumns: ['id'] });
+
+      expect(sql).toContain('ON CONFLICT (id) DO NOTHING;');
+    });
+
+    it('should add a primary key to CREATE TABLE in upsert mode', () => {
+      const sql = writeSql(headers, rows, { mode: 'upsert', keyColumns: ['id'], includeCreate: true });
+
+      expect(sql).toContain('  PRIMARY KEY (id)\n);');
+    });
+
+    it('should declare key columns with an indexable type per dialect', () => {
+      const options = { mode: 'upsert' as const, keyColumns: ['id'], includeCreate: true };
+
+      expect(writeSql(headers, rows, options)).toContain('id TEXT NOT NULL,');
+      expect(writeSql(headers, rows, { ...options, dialect: 'mysql' })).toContain('id VARCHAR(255) NOT NULL,');
+      expect(writeSql(headers, rows, { ...options, dialect: 'mssql' })).toContain('id NVARCHAR(450) NOT NULL,');
+    });
+
+    it('should make nullable inferred key columns NOT NULL', () => {
+      const sql = writeSql(['id', 'note'], [{ id: 1, note: 'a' }, { id: null, note: 'b' }], {
+        mode: 'upsert',
+        keyColumns: ['id'],
+        includeCreate: true,
+        inferTypes: true,
+        dialect: 'mssql',
+      });
+
+      expect(sql).toContain('id INT NOT NULL,');
+      expect(sql).toContain('note NVARCHAR(1) NOT NULL,');
+    });
+
+    it('should give text key columns an indexable type when inferred', () => {
+      const sql = writeSql(['code'], [{ code: 'x'.repeat(5000) }], {
+        mode: 'upsert',
+        keyColumns: ['code'],
+        includeCreate: true,
+        inferTypes: true,
+        dialect: 'mysql',
+      });
+
+      expect(sql).toContain('code VARCHAR(255) NOT NULL');
+    });
+
+    it('should emit one upsert per batch', () => {
+      const sql = writeSql(headers, rows, { mode: 'upsert', keyColumns: ['id'], batchSize: 1 });
+
+      expect((sql.match(/ON CONFLICT/g) || []).length).toBe(2);
+    });
+
+    it('should require key columns', () => {
+      expect(() => writeSql(headers, rows, { mode: 'upsert' })).toThrow('at least one key column');
+    });
+
+    it('should reject key columns missing from the data', () => {
+      expect(() => writeSql(headers, rows, { mode: 'upsert', keyColumns: ['sku'] })).toThrow('sku');
+    });
+  });
+
+  describe('writeSqlTables', () => {
+    const tables = [
+      { name: 'orders', headers: ['_id', 'id'], rows: [{ _id: 1, id: 'A' }] },
+      { name: 'orders_lines', headers: ['_parent_id', 'sku'], rows: [{ _parent_id: 1, sku: 'x' }] },
+    ];
+
+    it('should write each table under its own name', () => {
+      const sql = writeSqlTables(tables, { tableName: 'ignored', includeCreate: true });
+
+      expect(sql).toContain('CREATE TABLE orders (');
+      expect(sql).toContain('CREATE TABLE orders_lines (');
+      expect(sql).toContain("INSERT INTO orders (_id, id)\nVALUES\n(1, 'A');");
+      expect(sql).toContain("INSERT INTO orders_lines (_parent_id, sku)\nVALUES\n(1, 'x');");
+      expect(sql).not.toContain('ignored');
+    });
+
+    it('should upsert only tables holding the key columns', () => {
+      const sql = writeSqlTables(tables, { mode: 'upsert', keyColumns: ['_id'] });
+
+      expect((sql.match(/ON CONFLICT/g) || []).length).toBe(1);
+      expect(sql).toContain("INSERT INTO orders_lines (_parent_id, sku)\nVALUES\n(1, 'x');");
+    });
+  });
+
+  describe('parseSql', () => {
+    it('should parse CREATE TABLE and multi-row INSERT statements', () => {
+      const data = parseSql(`
+        CREATE TABLE users (
+          id INTEGER NOT NULL PRIMARY KEY,
+          name VARCHAR(50),
+          price DECIMAL(10, 2) DEFAULT 0
+        );
+        INSERT INTO users (id, name, price) VALUES (1, 'John', 9.99), (2, 'Jane', -5);
+      `);
+
+      expect(data.format).toBe('sql');
+      expect(data.headers).toEqual(['id', 'name', 'price']);
+      expect(data.rows).toEqual([
+        { id: 1, name: 'John', price: 9.99 },
+        { id: 2, name: 'Jane', price: -5 },
+      ]);
+      expect(data.metadata?.columnTypes).toEqual({
+        id: 'INTEGER',
+        name: 'VARCHAR(50)',
+        price: 'DECIMAL(10, 2)',
+      });
+    });
+
+    it('should use CREATE TABLE columns for INSERTs without a column list', () => {
+      const data = parseSql(`
+        CREATE TABLE t (a INT, b TEXT);
+        INSERT INTO t VALUES (1, 'x');
+      `);
+
+      expect(data.rows).toEqual([{ a: 1, b: 'x' }]);
+    });
+
+    it('should name columns by position without CREATE TABLE or column list', () => {
+      const data = parseSql("INSERT INTO t VALUES (1, 'x');");
+
+      expect(data.headers).toEqual(['Column 1', 'Column 2']);
+      expect(data.rows).toEqual([{ 'Column 1': 1, 'Column 2': 'x' }]);
+    });
+
+    it('should handle quoted identifiers in every dialect', () => {
+      const data = parseSql(`
+        INSERT INTO "public"."users" ("first name", [last name], \`e-mail\`) VALUES ('a', 'b', 'c');
+      `);
+
+      expect(data.headers).toEqual(['first name', 'last name', 'e-mail']);
+    });
+
+    it('should unescape doubled quotes', () => {
+      const data = parseSql("INSERT INTO t (name) VALUES ('O''Brien');");
+
+      expect(data.rows[0].name).toBe("O'Brien");
+    });
+
+    it('should unescape MySQL backslash escapes in dumps with backticks', () => {
+      const data = parseSql("INSERT INTO `t` (`name`) VALUES ('O\\'Brien\\nline');");
+
+      expect(data.rows[0].name).toBe("O'Brien\nline");
+    });
+
+    it('should keep backslashes literal in standard SQL', () => {
+      const data = parseSql("INSERT INTO t (path) VALUES ('C:\\Users');");
+
+      expect(data.rows[0].path).toBe('C:\\Users');
+    });
+
+    it('should keep backslashes literal when a backtick only appears inside a string', () => {
+      const data = parseSql("INSERT INTO t (a, b) VALUES ('`x`', 'C:\\temp');");
+
+      expect(data.rows[0]).toEqual({ a: '`x`', b: 'C:\\temp' });
+    });
+
+    it('should follow an explicit dialect for backslash escapes', () => {
+      const mysql = parseSql("INSERT INTO t (a) VALUES ('O\\'Brien');", { dialect: 'mysql' });
+      const postgres = parseSql("INSERT INTO `t` (a) VALUES ('C:\\temp');", { dialect: 'postgresql' });
+
+      expect(mysql.rows[0].a).toBe("O'Brien");
+      expect(postgres.rows[0].a).toBe('C:\\temp');
+    });
+
+    it('should keep integers beyond the safe range as strings', () => {
+      const data = parseSql('INSERT INTO t (a, b, c) VALUES (9007199254740993, -9007199254740993, 9007199254740991);');
+
+      expect(data.rows[0]).toEqual({ a: '9007199254740993', b: '-9007199254740993', c: 9007199254740991 });
+    });
+
+    it('should parse NULL, booleans and N-prefixed strings', () => {
+      const data = parseSql("INSERT INTO t (a, b, c, d) VALUES (NULL, TRUE, false, N'日本');");
+
+      expect(data.rows[0]).toEqual({ a: null, b: true, c: false, d: '日本' });
+    });
+
+    it('should keep other expressions as SQL text', () => {
+      const data = parseSql('INSERT INTO t (a) VALUES (NOW());');
+
+      expect(data.rows[0].a).toBe('NOW()');
+    });
+
+    it('should ignore comments, semicolons in strings and other statements', () => {
+      const data = parseSql(`
+        -- comment; with semicolon
+        /*!40101 SET NAMES utf8 */;
+        DROP TABLE IF EXISTS t;
+        INSERT INTO t (a) VALUES ('x; y'); # trailing comment
+      `);
+
+      expect(data.rows).toEqual([{ a: 'x; y' }]);
+    });
+
+    it('should skip table constraints in CREATE TABLE', () => {
+      const data = parseSql(`
+        CREATE TABLE IF NOT EXISTS t (
+          id INT,
+          code CHAR(3),
+          PRIMARY KEY (id),
+          CONSTRAINT uq UNIQUE (code)
+        );
+      `);
+
+      expect(data.headers).toEqual(['id', 'code']);
+      expect(data.rows).toEqual([]);
+    });
+
+    it('should round-trip writeSql output', () => {
+      const rows = [
+        { id: 1, name: "O'Brien", active: true },
+        { id: 2, name: null, active: false },
+      ];
+      const sql = writeSql(['id', 'name', 'active'], rows, { includeCreate: true, inferTypes: true });
+      const data = parseSql(sql);
+
+      expect(data.headers).toEqual(['id', 'name', 'active']);
+      expect(data.rows).toEqual(rows);
+    });
+
+    it('should throw ParseError with line number for unterminated strings', () => {
+      expect(() => parseSql("INSERT INTO t (a)\nVALUES ('oops);")).toThrow(/line 2/);
+    });
+
+    it('should return empty data for SQL without tables', () => {
+      const data = parseSql('SELECT 1;');
+
+      expect(data.headers).toEqual([]);
+      expect(data.rows).toEqual([]);
+    });
+  });
+
+  describe('parseSql multi-table dumps', () => {
+    const dump = `
+      CREATE TABLE customers (id INT, name TEXT);
+      CREATE TABLE orders (id INT, customer_id INT);
+      INSERT INTO customers VALUES (1, 'Acme');
+      INSERT INTO orders VALUES (10, 1), (11, 1);
+      INSERT INTO products (sku) VALUES ('A-1');
+    `;
+
+    it('should list all tables in metadata', () => {
+      const data = parseSql(dump);
+
+      expect(data.metadata?.tables).toEqual(['customers', 'orders', 'products']);
+    });
+
+    it('should load the first table by default', () => {
+      const data = parseSql(dump);
+
+      expect(data.headers).toEqual(['id', 'name']);
+      expect(data.rows).toEqual([{ id: 1, name: 'Acme' }]);
+    });
+
+    it('should select a table by name', () => {
+      const data = parseSql(dump, { selectedTable: 'orders' });
+
+      expect(data.headers).toEqual(['id', 'customer_id']);
+      expect(data.rows).toHaveLength(2);
+    });
+
+    it('should select a table by index', () => {
+      const data = parseSql(dump, { selectedTable: 2 });
+
+      expect(data.rows).toEqual([{ sku: 'A-1' }]);
+    });
+
+    it('should return empty data with the table list for unknown tables', () => {
+      const data = parseSql(dump, { selectedTable: 'missing' });
+
+      expect(data.rows).toEqual([]);
+      expect(data.metadata?.tables).toHaveLength(3);
+    });
+
+    it('should strip schema qualifiers from table names', () => {
+      const data = parseSql('INSERT INTO public.users (id) VALUES (1);');
+
+      expect(data.metadata?.tables).toEqual(['users']);
+    });
+  });
+
+  describe('parseSql pg_dump output', () => {
+    // Trimmed output of pg_dump 16 (plain format, default COPY data)
+    const pgDump = `--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 16.2
+-- Dumped by pg_dump version 16.2
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+
+--
+-- Name: touch_updated_at(); Type: FUNCTION; Schema: public; Owner: app
+--
+
+CREATE FUNCTION public.touch_updated_at() RETURNS trigger
+    LANGUAGE plpgsql
+    AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+
+ALTER FUNCTION public.touch_updated_at() OWNER TO app;
+
+--
+-- Name: customers; Type: TABLE; Schema: public; Owner: app
+--
+
+CREATE TABLE public.customers (
+    id integer NOT NULL,
+    name character varying(100) NOT NULL,
+    notes text,
+    balance numeric(10,2) DEFAULT 0,
+    active boolean DEFAULT true NOT NULL,
+    CONSTRAINT customers_name_check CHECK ((name <> $tag$;$tag$::text))
+);
+
+
+ALTER TABLE public.customers OWNER TO app;
+
+--
+-- Name: orders; Type: TABLE; Schema: public; Owner: app
+--
+
+CREATE TABLE public.orders (
+    id bigint NOT NULL,
+    customer_id integer
+);
+
+
+ALTER TABLE public.orders OWNER TO app;
+
+--
+-- Data for Name: customers; Type: TABLE DATA; Schema: public; Owner: app
+--
+
+COPY public.customers (id, name, notes, balance, active) FROM stdin;
+1\tAcme; Inc.\tfirst line\\nsecond line\t1250.50\tt
+2\tO'Brien\t\\N\t-3.00\tf
+3\tTab\\there\tC:\\\\temp\t\\N\tt
+\\.
+
+
+--
+-- Data for Name: orders; Type: TABLE DATA; Schema: public; Owner: app
+--
+
+COPY public.orders (id, customer_id) FROM stdin;
+9007199254740993\t1
+\\.
+
+
+--
+-- Name: customers customers_pkey; Type: CONSTRAINT; Schema: public; Owner: app
+--
+
+ALTER TABLE ONLY public.customers
+    ADD CONSTRAINT customers_pkey PRIMARY KEY (id);
+
+
+--
+-- PostgreSQL database dump complete
+--
+
+`;
+
+    it('should read rows from COPY blocks', () => {
+      const data = parseSql(pgDump);
+
+      expect(data.metadata?.tables).toEqual(['customers', 'orders']);
+      expect(data.headers).toEqual(['id', 'name', 'notes', 'balance', 'active']);
+      expect(data.rows).toEqual([
+        { id: 1, name: 'Acme; Inc.', notes: 'first line\nsecond line', balance: 1250.5, active: true },
+        { id: 2, name: "O'Brien", notes: null, balance: -3, active: false },
+        { id: 3, name: 'Tab\there', notes: 'C:\\temp', balance: null, active: true },
+      ]);
+    });
+
+    it('should keep the declared PostgreSQL column types', () => {
+      const data = parseSql(pgDump);
+
+      expect(data.metadata?.columnTypes).toEqual({
+        id: 'INTEGER',
+        name: 'CHARACTER VARYING(100)',
+        notes: 'TEXT',
+        balance: 'NUMERIC(10, 2)',
+        active: 'BOOLEAN',
+      });
+    });
+
+    it('should read the COPY block of a selected table', () => {
+      const data = parseSql(pgDump, { selectedTable: 'orders' });
+
+      expect(data.rows).toEqual([{ id: '9007199254740993', customer_id: 1 }]);
+    });
+
+    it('should keep COPY values as text without CREATE TABLE', () => {
+      const data = parseSql('COPY t (a, b) FROM stdin;\n1\t\\x41\\101\n\\.\n');
+
+      expect(data.rows).toEqual([{ a: '1', b: 'AA' }]);
+    });
+
+    it('should read dollar-quoted strings in INSERT values', () => {
+      const data = parseSql("INSERT INTO t (a, b) VALUES ($$it's; $$, $q$a$$b$q$);");
+
+      expect(data.rows[0]).toEqual({ a: "it's; ", b: 'a$$b' });
+    });
+
+    it('should throw ParseError for COPY data without a terminator', () => {
+      expect(() => parseSql('COPY t (a) FROM stdin;\n1\n2\n')).toThrow(/Unterminated COPY data/);
+    });
+  });
 });
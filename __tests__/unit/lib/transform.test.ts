@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { applyTransform, matchesFilter, castValue } from '@/lib/transform';
+import { ValidationError } from '@/lib/errors';
+import type { FilterOperator, ParsedData } from '@/types';
+
+const data: ParsedData = {
+  headers: ['name', 'age', 'city'],
+  rows: [
+    { name: ' John ', age: '30', city: 'NYC' },
+    { name: 'Jane', age: '25', city: 'LA' },
+    { name: 'Bob', age: '', city: 'Chicago' },
+    { name: 'Jane', age: '25', city: 'LA' },
+  ],
+  format: 'csv',
+  metadata: { rowCount: 4, columnCount: 3 },
+};
+
+const rule = (operator: FilterOperator, value = '') => ({ id: '1', column: 'c', operator, value });
+
+describe('Transform', () => {
+  describe('applyTransform', () => {
+    it('should return the data unchanged without options', () => {
+      const { data: result } = applyTransform(data);
+
+      expect(result.headers).toEqual(data.headers);
+      expect(result.rows).toEqual(data.rows);
+    });
+
+    it('should not mutate the input', () => {
+      applyTransform(data, { trimWhitespace: true, removeDuplicates: true });
+
+      expect(data.rows[0].name).toBe(' John ');
+      expect(data.rows).toHaveLength(4);
+    });
+
+    it('should trim string values', () => {
+      const { data: result } = applyTransform(data, { trimWhitespace: true });
+
+      expect(result.rows[0].name).toBe('John');
+    });
+
+    it('should filter rows matching every rule', () => {
+      const result = applyTransform(data, {
+        filters: [
+          { id: '1', column: 'city', operator: 'equals', value: 'LA' },
+          { id: '2', column: 'age', operator: 'lessThan', value: '30' },
+        ],
+      });
+
+      expect(result.data.rows).toHaveLength(2);
+      expect(result.rowsFiltered).toBe(2);
+    });
+
+    it('should ignore filters without a column', () => {
+      const { data: result } = applyTransform(data, {
+        filters: [{ id: '1', column: '', operator: 'equals', value: 'x' }],
+      });
+
+      expect(result.rows).toHaveLength(4);
+    });
+
+    it('should keep only selected columns in header order', () => {
+      const { data: result } = applyTransform(data, { selectedColumns: ['city', 'name'] });
+
+      expect(result.headers).toEqual(['name', 'city']);
+      expect(result.rows[1]).toEqual({ name: 'Jane', city: 'LA' });
+      expect(result.metadata?.columnCount).toBe(2);
+    });
+
+    it('should rename and cast columns', () => {
+      const { data: result } = applyTransform(data, {
+        columnMappings: [{ original: 'age', mapped: 'Age', type: 'number' }],
+      });
+
+      expect(result.headers).toEqual(['name', 'Age', 'city']);
+      expect(result.rows[0].Age).toBe(30);
+      expect(result.rows[2].Age).toBeNull();
+    });
+
+    it('should keep the original name when the mapped name is blank', () => {
+      const { data: result } = applyTransform(data, {
+        columnMappings: [{ original: 'age', mapped: '  ', type: 'number' }],
+      });
+
+      expect(result.headers).toEqual(['name', 'age', 'city']);
+    });
+
+    it('should reject mappings that produce duplicate column names', () => {
+      expect(() =>
+        applyTransform(data, { columnMappings: [{ original: 'age', mapped: 'name' }] })
+      ).toThrow(ValidationError);
+    });
+
+    it('should remove duplicate rows and report the count', () => {
+      const result = applyTransform(data, { removeDuplicates: true });
+
+      expect(result.data.rows).toHaveLength(3);
+      expect(result.duplicatesRemoved).toBe(1);
+      expect(result.data.metadata?.rowCount).toBe(3);
+    });
+
+    it('should detect duplicates after trimming and column selection', () => {
+      const result = applyTransform(
+        {
+          headers: ['a', 'b'],
+          rows: [
+            { a: 'x ', b: '1' },
+            { a: 'x', b: '2' },
+          ],
+        },
+        { trimWhitespace: true, selectedColumns: ['a'], removeDuplicates: true }
+      );
+
+      expect(result.data.rows).toEqual([{ a: 'x' }]);
+    });
+  });
+
+  describe('matchesFilter', () => {
+    it('should compare equality exactly', () => {
+      expect(matchesFilter('LA', rule('equals', 'LA'))).toBe(true);
+      expect(matchesFilter('la', rule('equals', 'LA'))).toBe(false);
+      expect(matchesFilter('NYC', rule('notEquals', 'LA'))).toBe(true);
+    });
+
+    it('should match text case-insensitively', () => {
+      expect(matchesFilter('Chicago', rule('contains', 'CAG'))).toBe(true);
+      expect(matchesFilter('Chicago', rule('startsWith', 'chi'))).toBe(true);
+      expect(matchesFilter('Chicago', rule('endsWith', 'GO'))).toBe(true);
+      expect(matchesFilter('Chicago', rule('endsWith', 'chi'))).toBe(false);
+    });
+
+    it('should compare numbers numerically', () => {
+      expect(matchesFilter('100', rule('greaterThan', '20'))).toBe(true);
+      expect(matchesFilter(5, rule('lessThan', '20'))).toBe(true);
+      expect(matchesFilter('', rule('lessThan', '20'))).toBe(false);
+    });
+
+    it('should compare non-numeric values as strings', () => {
+      expect(matchesFilter('2024-03-01', rule('greaterThan', '2024-01-15'))).toBe(true);
+      expect(matchesFilter('apple', rule('lessThan', 'banana'))).toBe(true);
+    });
+
+    it('should detect empty values', () => {
+      expect(matchesFilter(null, rule('isEmpty'))).toBe(true);
+      expect(matchesFilter('  ', rule('isEmpty'))).toBe(true);
+      expect(matchesFilter('x', rule('isNotEmpty'))).toBe(true);
+      expect(matchesFilter(undefined, rule('isNotEmpty'))).toBe(false);
+    });
+  });
+
+  describe('castValue', () => {
+    it('should cast to string', () => {
+      expect(castValue(42, { type: 'string' })).toBe('42');
+      expect(castValue(null, { type: 'string' })).toBe('');
+    });
+
+    it('should cast to number', () => {
+      expect(castValue('3.5', { type: 'number' })).toBe(3.5);
+      expect(castValue('abc', { type: 'number' })).toBeNull();
+    });
+
+    it('should cast boolean spellings', () => {
+      expect(castValue('Yes', { type: 'boolean' })).toBe(true);
+      expect(castValue('0', { type: 'boolean' })).toBe(false);
+      expect(castValue('maybe', { type: 'boolean' })).toBeNull();
+    });
+
+    it('should cast dates using the date format', () => {
+      expect(castValue('03/04/2024', { type: 'date', dateFormat: 'MM/DD/YYYY' })).toBe('2024-03-04');
+      expect(castValue('03/04/2024', { type: 'date', dateFormat: 'DD/MM/YYYY' })).toBe('2024-04-03');
+      expect(castValue('2024-02-30', { type: 'date', dateFormat: 'YYYY-MM-DD' })).toBeNull();
+      expect(castValue('2024-02-29', { type: 'date' })).toBe('2024-02-29');
+    });
+
+    it('should auto-detect numbers and booleans', () => {
+      expect(castValue('12', { type: 'auto' })).toBe(12);
+      expect(castValue('TRUE', { type: 'auto' })).toBe(true);
+      expect(castValue('hello', { type: 'auto' })).toBe('hello');
+      expect(castValue('', { type: 'auto' })).toBe('');
+    });
+
+    it('should leave values untouched without a type', () => {
+      expect(castValue('12', {})).toBe('12');
+    });
+  });
+});
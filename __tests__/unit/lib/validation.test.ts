@@ -6,6 +6,9 @@ import {
   jsonOptionsSchema,
   excelOptionsSchema,
   sqlOptionsSchema,
+  parquetOptionsSchema,
+  transformOptionsSchema,
+  batchFileOptionsSchema,
   convertRequestSchema,
   parseRequestSchema,
   fileMetadataSchema,
@@ -18,7 +21,7 @@ import {
 describe('Validation Schemas', () => {
   describe('inputFormatSchema', () => {
     it('should accept valid input formats', () => {
-      const validFormats = ['csv', 'tsv', 'json', 'xlsx', 'xls', 'xml'];
+      const validFormats = ['csv', 'tsv', 'json', 'xlsx', 'xls', 'xml', 'sql', 'yaml', 'jsonl', 'parquet', 'html'];
       validFormats.forEach((format) => {
         const result = inputFormatSchema.safeParse(format);
         expect(result.success).toBe(true);
@@ -36,7 +39,7 @@ describe('Validation Schemas', () => {
 
   describe('outputFormatSchema', () => {
     it('should accept valid output formats', () => {
-      const validFormats = ['csv', 'tsv', 'json', 'xlsx', 'xls', 'xml', 'sql'];
+      const validFormats = ['csv', 'tsv', 'json', 'xlsx', 'xls', 'xml', 'sql', 'yaml', 'jsonl', 'parquet', 'markdown', 'html'];
       validFormats.forEach((format) => {
         const result = outputFormatSchema.safeParse(format);
         expect(result.success).toBe(true);
@@ -70,11 +73,31 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(true);
     });
 
-    it('should reject delimiter longer than one character', () => {
-      const invalidOptions = { delimiter: ';;' };
-      const result = csvOptionsSchema.safeParse(invalidOptions);
+    it('should accept multi-character delimiters', () => {
+      const result = csvOptionsSchema.safeParse({ delimiter: ';;' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject empty or overly long delimiters', () => {
+      expect(csvOptionsSchema.safeParse({ delimiter: '' }).success).toBe(false);
+      const result = csvOptionsSchema.safeParse({ delimiter: ';'.repeat(11) });
       expect(result.success).toBe(false);
-      expect(result.error?.errors[0]?.message).toContain('exactly one character');
+      expect(result.error?.errors[0]?.message).toContain('cannot exceed 10 characters');
+    });
+
+    it('should accept dialect options', () => {
+      const result = csvOptionsSchema.safeParse({
+        quoteChar: "'",
+        escapeChar: '\\',
+        lineTerminator: 'crlf',
+        quoting: 'nonNumeric',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject multi-character quote characters and unknown quoting policies', () => {
+      expect(csvOptionsSchema.safeParse({ quoteChar: '""' }).success).toBe(false);
+      expect(csvOptionsSchema.safeParse({ quoting: 'sometimes' }).success).toBe(false);
     });
 
     it('should accept empty object', () => {
@@ -239,6 +262,67 @@ describe('Validation Schemas', () => {
     });
   });
 
+  describe('parquetOptionsSchema', () => {
+    it('should accept valid Parquet options', () => {
+      ['snappy', 'gzip', 'none'].forEach((compression) => {
+        const result = parquetOptionsSchema.safeParse({ compression, rowGroupSize: 5000 });
+        expect(result.success).toBe(true);
+      });
+    });
+
+    it('should reject unknown compression codecs', () => {
+      const result = parquetOptionsSchema.safeParse({ compression: 'zstd' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject row group size less than 1', () => {
+      const result = parquetOptionsSchema.safeParse({ rowGroupSize: 0 });
+      expect(result.success).toBe(false);
+      expect(result.error?.errors[0]?.message).toContain('at least 1');
+    });
+  });
+
+  describe('transformOptionsSchema', () => {
+    it('should accept a full transform', () => {
+      const result = transformOptionsSchema.safeParse({
+        columnMappings: [{ original: 'age', mapped: 'Age', type: 'number' }],
+        filters: [{ id: '1', column: 'city', operator: 'equals', value: 'LA' }],
+        removeDuplicates: true,
+        trimWhitespace: true,
+        selectedColumns: ['age', 'city'],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should default filter id and value', () => {
+      const result = transformOptionsSchema.parse({
+        filters: [{ column: 'city', operator: 'isEmpty' }],
+      });
+      expect(result.filters?.[0]).toEqual({ id: '', column: 'city', operator: 'isEmpty', value: '' });
+    });
+
+    it('should reject unknown filter operators', () => {
+      const result = transformOptionsSchema.safeParse({
+        filters: [{ column: 'city', operator: 'matches', value: 'L.*' }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject filters without a column', () => {
+      const result = transformOptionsSchema.safeParse({
+        filters: [{ column: '', operator: 'equals', value: 'x' }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject unknown column types', () => {
+      const result = transformOptionsSchema.safeParse({
+        columnMappings: [{ original: 'age', type: 'integer' }],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('convertRequestSchema', () => {
     it('should accept valid convert request', () => {
       const validRequest = {
@@ -277,6 +361,15 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(false);
     });
 
+    it('should accept request with a transform', () => {
+      const result = convertRequestSchema.safeParse({
+        data: 'name,age\nJohn,30',
+        outputFormat: 'json',
+        transform: { selectedColumns: ['name'] },
+      });
+      expect(result.success).toBe(true);
+    });
+
     it('should accept request with options', () => {
       const validRequest = {
         data: 'name,age\nJohn,30',
@@ -290,6 +383,23 @@ describe('Validation Schemas', () => {
     });
   });
 
+  describe('batchFileOptionsSchema', () => {
+    it('should accept overrides and null entries', () => {
+      const result = batchFileOptionsSchema.safeParse([null, { outputFormat: 'csv', csv: { delimiter: ';' } }]);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject invalid output formats', () => {
+      const result = batchFileOptionsSchema.safeParse([{ outputFormat: 'pdf' }]);
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept upsert overrides whose key columns come from the shared options', () => {
+      const result = batchFileOptionsSchema.safeParse([{ outputFormat: 'sql', sql: { mode: 'upsert' } }]);
+      expect(result.success).toBe(true);
+    });
+  });
+
   describe('parseRequestSchema', () => {
     it('should accept valid parse request', () => {
       const validRequest = {
@@ -215,6 +215,43 @@ describe('XML Parser', () => {
       expect(result.rows.length).toBeGreaterThan(0);
       expect(result.format).toBe('xml');
     });
+
+    describe('nested arrays', () => {
+      const xml = `<orders>
+        <order id="A"><customer>Ann</customer><line><sku>x</sku></line><line><sku>y</sku></line></order>
+        <order id="B"><customer>Bob</customer><line><sku>z</sku></line></order>
+      </orders>`;
+
+      it('should explode repeated child elements into rows', () => {
+        const result = parseXml(xml, { nestedArrays: 'explode' });
+
+        expect(result.headers).toEqual(['customer', '@_id', 'line.sku']);
+        expect(result.rows).toEqual([
+          { '@_id': 'A', customer: 'Ann', 'line.sku': 'x' },
+          { '@_id': 'A', customer: 'Ann', 'line.sku': 'y' },
+          { '@_id': 'B', customer: 'Bob', 'line.sku': 'z' },
+        ]);
+        expect(result.metadata?.arrayField).toBe('line');
+      });
+
+      it('should normalize repeated child elements into a table named after the row element', () => {
+        const result = parseXml(xml, { nestedArrays: 'normalize' });
+
+        expect(result.rows).toEqual([
+          { _id: 1, '@_id': 'A', customer: 'Ann' },
+          { _id: 2, '@_id': 'B', customer: 'Bob' },
+        ]);
+        expect(result.sheetTables?.[1]).toEqual({
+          name: 'order_line',
+          headers: ['_parent_id', 'sku'],
+          rows: [
+            { _parent_id: 1, sku: 'x' },
+            { _parent_id: 1, sku: 'y' },
+            { _parent_id: 2, sku: 'z' },
+          ],
+        });
+      });
+    });
   });
 
   describe('writeXml', () => {
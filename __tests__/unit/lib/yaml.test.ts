@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { parseYaml, writeYaml } from '@/lib/converter/yaml';
+import { ParseError } from '@/lib/errors';
+
+describe('YAML Converter', () => {
+  describe('parseYaml', () => {
+    it('should turn a sequence of mappings into rows', () => {
+      const result = parseYaml('- name: John\n  age: 30\n- name: Jane\n  age: 25\n');
+
+      expect(result.format).toBe('yaml');
+      expect(result.headers).toEqual(['name', 'age']);
+      expect(result.rows).toEqual([
+        { name: 'John', age: 30 },
+        { name: 'Jane', age: 25 },
+      ]);
+      expect(result.metadata).toEqual({ rowCount: 2, columnCount: 2 });
+    });
+
+    it('should flatten nested mappings with dot notation', () => {
+      const result = parseYaml('name: web\nspec:\n  replicas: 3\n  ports: [80, 443]\n');
+
+      expect(result.headers).toEqual(['name', 'spec.replicas', 'spec.ports']);
+      expect(result.rows[0]).toEqual({ name: 'web', 'spec.replicas': 3, 'spec.ports': '80,443' });
+    });
+
+    it('should read every document of a multi-document stream', () => {
+      const result = parseYaml(
+        '---\nkind: Deployment\nmetadata:\n  name: web\n---\nkind: Service\nmetadata:\n  name: web\n  namespace: prod\n---\n'
+      );
+
+      expect(result.rows).toEqual([
+        { kind: 'Deployment', 'metadata.name': 'web' },
+        { kind: 'Service', 'metadata.name': 'web', 'metadata.namespace': 'prod' },
+      ]);
+      expect(result.headers).toEqual(['kind', 'metadata.name', 'metadata.namespace']);
+    });
+
+    it('should resolve merge keys and keep timestamps as strings', () => {
+      const result = parseYaml(
+        'defaults: &defaults\n  image: node:20\nbuild:\n  <<: *defaults\n  created: 2024-01-02\n'
+      );
+
+      expect(result.rows[0]).toMatchObject({
+        'build.image': 'node:20',
+        'build.created': '2024-01-02T00:00:00.000Z',
+      });
+    });
+
+    it('should return an empty table for empty input', () => {
+      const result = parseYaml('# nothing here\n');
+
+      expect(result.headers).toEqual([]);
+      expect(result.rows).toEqual([]);
+    });
+
+    it('should report the position of syntax errors', () => {
+      try {
+        parseYaml('name: John\n  age: [30\n');
+        expect.fail('Expected a ParseError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ParseError);
+        expect((error as ParseError).code).toBe('INVALID_YAML');
+        expect((error as ParseError).line).toBeGreaterThan(0);
+      }
+    });
+
+    it('should reject documents that are not mappings', () => {
+      expect(() => parseYaml('- one\n- two\n')).toThrow(ParseError);
+      expect(() => parseYaml('just text')).toThrow(/must be a mapping/);
+    });
+  });
+
+  describe('writeYaml', () => {
+    it('should write one mapping per row', () => {
+      const output = writeYaml(['name', 'age'], [{ name: 'John', age: 30 }]);
+
+      expect(output).toBe('- name: John\n  age: 30\n');
+    });
+
+    it('should nest dot-notation keys', () => {
+      const output = writeYaml(
+        ['metadata.name', 'metadata.namespace'],
+        [{ 'metadata.name': 'web', 'metadata.namespace': 'prod' }]
+      );
+
+      expect(output).toBe('- metadata:\n    name: web\n    namespace: prod\n');
+    });
+
+    it('should only include the given headers', () => {
+      const output = writeYaml(['name'], [{ name: 'John', secret: 'x' }]);
+
+      expect(output).not.toContain('secret');
+    });
+
+    it('should round-trip through parseYaml', () => {
+      const parsed = parseYaml('- name: web\n  spec:\n    replicas: 3\n');
+      const output = writeYaml(parsed.headers, parsed.rows);
+
+      expect(parseYaml(output).rows).toEqual(parsed.rows);
+    });
+  });
+});
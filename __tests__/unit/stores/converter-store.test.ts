@@ -99,6 +99,18 @@ describe('useConverterStore', () => {
     });
   });
 
+  describe('setParquetOptions', () => {
+    it('should update Parquet options and keep the rest', () => {
+      const { result } = renderHook(() => useConverterStore());
+
+      act(() => {
+        result.current.setParquetOptions({ compression: 'gzip' });
+      });
+
+      expect(result.current.parquetOptions).toEqual({ compression: 'gzip', rowGroupSize: 100000 });
+    });
+  });
+
   describe('setInputData', () => {
     it('should set input data', () => {
       const { result } = renderHook(() => useConverterStore());
@@ -481,6 +493,7 @@ describe('useConverterStore', () => {
       expect(options).toHaveProperty('json');
       expect(options).toHaveProperty('excel');
       expect(options).toHaveProperty('sql');
+      expect(options).toHaveProperty('parquet');
     });
 
     it('should include input format when set', () => {
@@ -516,6 +529,62 @@ describe('useConverterStore', () => {
     });
   });
 
+  describe('setParseOptions', () => {
+    it('should set parse options', () => {
+      const { result } = renderHook(() => useConverterStore());
+
+      act(() => {
+        result.current.setParseOptions({ excel: { selectedSheet: 'Sheet2' } });
+      });
+
+      expect(result.current.parseOptions).toEqual({ excel: { selectedSheet: 'Sheet2' } });
+    });
+
+    it('should clear parse options when setting new input', () => {
+      const { result } = renderHook(() => useConverterStore());
+
+      act(() => {
+        result.current.setParseOptions({ csv: { encoding: 'windows-1252' } });
+        result.current.setInputData('new data', 'new.csv', 8);
+      });
+
+      expect(result.current.parseOptions).toEqual({});
+    });
+  });
+
+  describe('restoreOptions', () => {
+    it('should restore a snapshot of convert options', () => {
+      const options = {
+        inputFormat: 'csv' as const,
+        outputFormat: 'sql' as const,
+        csv: { delimiter: ';' },
+        sql: { tableName: 'people' },
+      };
+      const { result } = renderHook(() => useConverterStore());
+
+      act(() => {
+        result.current.setJsonOptions({ prettyPrint: false });
+        result.current.restoreOptions(options);
+      });
+
+      expect(result.current.getConvertOptions()).toMatchObject(options);
+      expect(result.current.csvOptions.hasHeader).toBe(true);
+      expect(result.current.jsonOptions.prettyPrint).toBe(true);
+    });
+
+    it('should clear the input format when the snapshot has none', () => {
+      const { result } = renderHook(() => useConverterStore());
+
+      act(() => {
+        result.current.setInputFormat('xlsx');
+        result.current.restoreOptions({ outputFormat: 'csv' });
+      });
+
+      expect(result.current.inputFormat).toBeNull();
+      expect(result.current.outputFormat).toBe('csv');
+    });
+  });
+
   describe('reset', () => {
     it('should reset all state to initial values', () => {
       const { result } = renderHook(() => useConverterStore());
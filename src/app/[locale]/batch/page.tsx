@@ -1,7 +1,6 @@
 import { useTranslations } from 'next-intl';
 import { setRequestLocale } from 'next-intl/server';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Files } from 'lucide-react';
+import { BatchConverter } from '@/components/batch/BatchConverter';
 
 interface PageProps {
   params: Promise<{ locale: string }>;
@@ -26,21 +25,7 @@ function BatchContent() {
       <h1 className="text-3xl font-bold">{t('title')}</h1>
       <p className="mt-2 text-muted-foreground">{t('subtitle')}</p>
 
-      <Card className="mt-8">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Files className="h-5 w-5" />
-            {t('title')}
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="dropzone">
-            <Files className="mx-auto h-12 w-12 text-muted-foreground" />
-            <p className="mt-4">{t('dropzone')}</p>
-            <p className="mt-2 text-sm text-muted-foreground">{t('maxFiles', { max: 10 })}</p>
-          </div>
-        </CardContent>
-      </Card>
+      <BatchConverter />
     </div>
   );
 }
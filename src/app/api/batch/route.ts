@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  batchOptionsSchema,
+  batchFileOptionsSchema,
+  convertOptionsSchema,
+  outputFormatSchema,
+  type BatchOptions,
+} from '@/lib/validation/schemas';
+import {
+  generateRequestId,
+  createErrorResponse,
+  handleApiError,
+  MAX_FILE_SIZE,
+  MAX_BATCH_SIZE,
+} from '@/lib/api-utils';
+import { ErrorCodes, ValidationError } from '@/lib/errors';
+import { MAX_BATCH_FILES, convertBatch } from '@/lib/batch';
+import type { ConvertOptions, OutputFormat } from '@/types';
+
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId();
+
+  try {
+    const contentType = request.headers.get('content-type') || '';
+    if (!contentType.includes('multipart/form-data')) {
+      return createErrorResponse(
+        'Batch requests must be sent as multipart/form-data',
+        ErrorCodes.INVALID_INPUT,
+        415,
+        requestId
+      );
+    }
+
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((entry): entry is File => typeof entry !== 'string');
+
+    if (files.length === 0) {
+      return createErrorResponse(
+        'No files provided',
+        ErrorCodes.MISSING_REQUIRED,
+        400,
+        requestId
+      );
+    }
+
+    if (files.length > MAX_BATCH_FILES) {
+      return createErrorResponse(
+        `Too many files: a batch can contain at most ${MAX_BATCH_FILES} files`,
+        ErrorCodes.VALIDATION_ERROR,
+        400,
+        requestId,
+        { fileCount: files.length, maxFiles: MAX_BATCH_FILES }
+      );
+    }
+
+    // Validate the aggregate size; oversized single files are reported per file
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    if (totalSize > MAX_BATCH_SIZE) {
+      const maxSizeMB = Math.round(MAX_BATCH_SIZE / (1024 * 1024));
+      return createErrorResponse(
+        `Batch size exceeds maximum allowed size of ${maxSizeMB}MB`,
+        ErrorCodes.FILE_TOO_LARGE,
+        413,
+        requestId,
+        { totalSize, maxSize: MAX_BATCH_SIZE }
+      );
+    }
+
+    // Validate output format
+    const outputFormatRaw = formData.get('outputFormat') as string;
+    const outputFormatResult = outputFormatSchema.safeParse(outputFormatRaw);
+    if (!outputFormatResult.success && outputFormatRaw) {
+      return createErrorResponse(
+        `Invalid output format: ${outputFormatRaw}`,
+        ErrorCodes.VALIDATION_ERROR,
+        400,
+        requestId
+      );
+    }
+    const outputFormat: OutputFormat = outputFormatResult.success ? outputFormatResult.data : 'json';
+
+    const sharedOptions = batchOptionsSchema.parse(readJsonField(formData, 'options') ?? {});
+    const fileOptions = batchFileOptionsSchema.parse(readJsonField(formData, 'fileOptions') ?? []);
+    if (fileOptions.length > files.length) {
+      throw new ValidationError(
+        `fileOptions has ${fileOptions.length} entries but only ${files.length} files were sent`,
+        ErrorCodes.VALIDATION_ERROR,
+        { field: 'fileOptions' }
+      );
+    }
+
+    const options = files.map((_, index) => mergeOptions(outputFormat, sharedOptions, fileOptions[index]));
+    options.forEach((fileOption) => convertOptionsSchema.parse(fileOption));
+
+    const { archive, manifest } = await convertBatch(
+      files,
+      (index) => options[index],
+      { requestId, maxFileSize: MAX_FILE_SIZE }
+    );
+
+    return new NextResponse(await archive.arrayBuffer(), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': 'attachment; filename="converted.zip"',
+        'X-Request-Id': requestId,
+        'X-Batch-Succeeded': String(manifest.summary.succeeded),
+        'X-Batch-Failed': String(manifest.summary.failed),
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, requestId);
+  }
+}
+
+/**
+ * Reads a JSON form field, rejecting malformed JSON
+ */
+function readJsonField(formData: FormData, name: string): unknown {
+  const value = formData.get(name);
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ValidationError(`Invalid JSON in ${name}`, ErrorCodes.INVALID_INPUT, { field: name });
+  }
+}
+
+/**
+ * Layers per-file options over the shared options, merging each format section
+ */
+function mergeOptions(
+  outputFormat: OutputFormat,
+  shared: BatchOptions,
+  override: BatchOptions | null | undefined
+): ConvertOptions {
+  return {
+    ...shared,
+    ...override,
+    outputFormat: override?.outputFormat ?? shared.outputFormat ?? outputFormat,
+    csv: { ...shared.csv, ...override?.csv },
+    json: { ...shared.json, ...override?.json },
+    excel: { ...shared.excel, ...override?.excel },
+    sql: { ...shared.sql, ...override?.sql },
+    parquet: { ...shared.parquet, ...override?.parquet },
+    markdown: { ...shared.markdown, ...override?.markdown },
+    html: { ...shared.html, ...override?.html },
+    xml: { ...shared.xml, ...override?.xml },
+  };
+}
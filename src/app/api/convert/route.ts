@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { parseData, convertData, getOutputFilename } from '@/lib/converter';
-import { convertRequestSchema, outputFormatSchema, inputFormatSchema } from '@/lib/validation/schemas';
+import {
+  convertRequestSchema,
+  outputFormatSchema,
+  inputFormatSchema,
+  transformOptionsSchema,
+} from '@/lib/validation/schemas';
 import {
   generateRequestId,
   createErrorResponse,
@@ -8,7 +13,22 @@ import {
   MAX_FILE_SIZE,
 } from '@/lib/api-utils';
 import { ErrorCodes, ParseError, FileError } from '@/lib/errors';
-import type { ConvertOptions, InputFormat, OutputFormat } from '@/types';
+import { conversionCache } from '@/lib/cache';
+import { applyTransform } from '@/lib/transform';
+import type {
+  ConversionResult,
+  ConvertOptions,
+  InputFormat,
+  OutputFormat,
+  TransformOptions,
+} from '@/types';
+
+/**
+ * Conversion output stored in the cache: binary files (Excel) or text output
+ */
+type CachedConversion =
+  | { buffer: ArrayBuffer; contentType: string }
+  | { data: string; metadata: ConversionResult['metadata'] };
 
 export async function POST(request: NextRequest) {
   const requestId = generateRequestId();
@@ -18,6 +38,7 @@ export async function POST(request: NextRequest) {
 
     let inputData: string | ArrayBuffer;
     let options: Partial<ConvertOptions> = {};
+    let transform: TransformOptions | undefined;
     let inputFormat: InputFormat | undefined;
     let outputFormat: OutputFormat = 'json';
     let fileName: string | undefined;
@@ -79,22 +100,32 @@ export async function POST(request: NextRequest) {
       fileName = file.name;
       const ext = fileName.split('.').pop()?.toLowerCase();
 
-      if (ext === 'xlsx' || ext === 'xls') {
-        inputData = await file.arrayBuffer();
-      } else {
-        inputData = await file.text();
+      // Read raw bytes so the text encoding can be detected or overridden
+      inputData = await file.arrayBuffer();
+      if (!inputFormat && (ext === 'xlsx' || ext === 'xls')) {
+        inputFormat = ext;
       }
 
       // Parse options from form data
       const optionsStr = formData.get('options');
+      let rawTransform: unknown;
       if (optionsStr && typeof optionsStr === 'string') {
         try {
-          options = JSON.parse(optionsStr);
+          ({ transform: rawTransform, ...options } = JSON.parse(optionsStr));
         } catch {
           // Log but don't fail - use default options
           console.warn(`[${requestId}] Invalid options JSON, using defaults`);
         }
       }
+
+      // Transforms change the output, so reject invalid ones instead of ignoring them
+      if (rawTransform !== undefined) {
+        const transformResult = transformOptionsSchema.safeParse(rawTransform);
+        if (!transformResult.success) {
+          return handleApiError(transformResult.error, requestId);
+        }
+        transform = transformResult.data;
+      }
     } else {
       // Handle JSON body
       const body = await request.json();
@@ -110,11 +141,22 @@ export async function POST(request: NextRequest) {
       outputFormat = validatedBody.outputFormat;
       inputFormat = validatedBody.inputFormat;
       options = validatedBody.options || {};
+      transform = validatedBody.transform;
       fileName = body.fileName;
     }
 
-    // Parse input data
-    const parsedData = await parseData(inputData, inputFormat);
+    // Serve repeated identical requests from the cache
+    const cacheOptions = { operation: 'convert', inputFormat, outputFormat, options, transform };
+    const cached = conversionCache.get<CachedConversion>(inputData, cacheOptions);
+    if (cached) {
+      return createConvertResponse(cached, fileName, outputFormat, requestId, 'HIT');
+    }
+
+    // Parse input data, then reshape it before conversion
+    let parsedData = await parseData(inputData, inputFormat, options);
+    if (transform) {
+      parsedData = applyTransform(parsedData, transform).data;
+    }
 
     if (parsedData.rows.length === 0 && parsedData.headers.length === 0) {
       return createErrorResponse(
@@ -140,29 +182,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Handle binary output (Excel)
-    if (result.data instanceof Blob) {
-      const buffer = await result.data.arrayBuffer();
-      const outputFileName = getOutputFilename(fileName, outputFormat);
-
-      return new NextResponse(buffer, {
-        headers: {
-          'Content-Type': result.data.type,
-          'Content-Disposition': `attachment; filename="${outputFileName}"`,
-          'X-Request-Id': requestId,
-        },
-      });
-    }
+    const entry: CachedConversion =
+      result.data instanceof Blob
+        ? { buffer: await result.data.arrayBuffer(), contentType: result.data.type }
+        : { data: result.data ?? '', metadata: result.metadata };
+    conversionCache.set(inputData, cacheOptions, entry);
 
-    // Return JSON response for text formats
-    return NextResponse.json({
-      success: true,
-      data: result.data,
-      metadata: result.metadata,
-      fileName: getOutputFilename(fileName, outputFormat),
-      requestId,
-    });
+    return createConvertResponse(entry, fileName, outputFormat, requestId, 'MISS');
   } catch (error) {
     return handleApiError(error, requestId);
   }
 }
+
+/**
+ * Builds the response for a conversion, whether freshly computed or cached
+ */
+function createConvertResponse(
+  entry: CachedConversion,
+  fileName: string | undefined,
+  outputFormat: OutputFormat,
+  requestId: string,
+  cacheStatus: 'HIT' | 'MISS'
+): NextResponse {
+  const outputFileName = getOutputFilename(fileName, outputFormat);
+
+  // Handle binary output (Excel)
+  if ('buffer' in entry) {
+    return new NextResponse(entry.buffer, {
+      headers: {
+        'Content-Type': entry.contentType,
+        'Content-Disposition': `attachment; filename="${outputFileName}"`,
+        'X-Request-Id': requestId,
+        'X-Cache': cacheStatus,
+      },
+    });
+  }
+
+  // Return JSON response for text formats
+  return NextResponse.json(
+    {
+      success: true,
+      data: entry.data,
+      metadata: entry.metadata,
+      fileName: outputFileName,
+      requestId,
+    },
+    { headers: { 'X-Cache': cacheStatus } }
+  );
+}
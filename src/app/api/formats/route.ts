@@ -19,6 +19,16 @@ export async function GET() {
         mimeType: 'application/vnd.ms-excel',
       },
       { id: 'xml', name: 'XML', extension: '.xml', mimeType: 'application/xml' },
+      { id: 'sql', name: 'SQL', extension: '.sql', mimeType: 'application/sql' },
+      { id: 'yaml', name: 'YAML', extension: '.yaml', mimeType: 'application/yaml' },
+      { id: 'jsonl', name: 'JSON Lines', extension: '.jsonl', mimeType: 'application/x-ndjson' },
+      {
+        id: 'parquet',
+        name: 'Apache Parquet',
+        extension: '.parquet',
+        mimeType: 'application/vnd.apache.parquet',
+      },
+      { id: 'html', name: 'HTML', extension: '.html', mimeType: 'text/html' },
     ],
     output: [
       { id: 'csv', name: 'CSV', extension: '.csv', mimeType: 'text/csv' },
@@ -38,6 +48,16 @@ export async function GET() {
       },
       { id: 'xml', name: 'XML', extension: '.xml', mimeType: 'application/xml' },
       { id: 'sql', name: 'SQL', extension: '.sql', mimeType: 'application/sql' },
+      { id: 'yaml', name: 'YAML', extension: '.yaml', mimeType: 'application/yaml' },
+      { id: 'jsonl', name: 'JSON Lines', extension: '.jsonl', mimeType: 'application/x-ndjson' },
+      {
+        id: 'parquet',
+        name: 'Apache Parquet',
+        extension: '.parquet',
+        mimeType: 'application/vnd.apache.parquet',
+      },
+      { id: 'markdown', name: 'Markdown', extension: '.md', mimeType: 'text/markdown' },
+      { id: 'html', name: 'HTML', extension: '.html', mimeType: 'text/html' },
     ],
   };
 
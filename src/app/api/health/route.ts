@@ -1,9 +1,11 @@
 import { NextResponse } from 'next/server';
+import { conversionCache } from '@/lib/cache';
 
 export async function GET() {
   return NextResponse.json({
     status: 'healthy',
     timestamp: new Date().toISOString(),
     version: '1.0.0',
+    cache: conversionCache.getStats(),
   });
 }
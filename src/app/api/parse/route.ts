@@ -9,7 +9,8 @@ import {
   MAX_PREVIEW_ROWS,
 } from '@/lib/api-utils';
 import { ErrorCodes } from '@/lib/errors';
-import type { InputFormat } from '@/types';
+import { conversionCache } from '@/lib/cache';
+import type { InputFormat, ParseOptions } from '@/types';
 
 export async function POST(request: NextRequest) {
   const requestId = generateRequestId();
@@ -19,6 +20,7 @@ export async function POST(request: NextRequest) {
 
     let inputData: string | ArrayBuffer;
     let inputFormat: InputFormat | undefined;
+    let options: ParseOptions = {};
 
     if (contentType.includes('multipart/form-data')) {
       const formData = await request.formData();
@@ -62,10 +64,21 @@ export async function POST(request: NextRequest) {
 
       const ext = file.name.split('.').pop()?.toLowerCase();
 
-      if (ext === 'xlsx' || ext === 'xls') {
-        inputData = await file.arrayBuffer();
-      } else {
-        inputData = await file.text();
+      // Read raw bytes so the text encoding can be detected or overridden
+      inputData = await file.arrayBuffer();
+      if (!inputFormat && (ext === 'xlsx' || ext === 'xls')) {
+        inputFormat = ext;
+      }
+
+      // Parse options from form data
+      const optionsStr = formData.get('options');
+      if (optionsStr && typeof optionsStr === 'string') {
+        try {
+          options = JSON.parse(optionsStr);
+        } catch {
+          // Log but don't fail - use default options
+          console.warn(`[${requestId}] Invalid options JSON, using defaults`);
+        }
       }
     } else {
       // Handle JSON body
@@ -80,26 +93,44 @@ export async function POST(request: NextRequest) {
       const validatedBody = validationResult.data;
       inputData = validatedBody.data;
       inputFormat = validatedBody.format;
+      options = validatedBody.options || {};
     }
 
-    const parsedData = await parseData(inputData, inputFormat);
+    // Serve repeated identical requests from the cache
+    const cacheOptions = { operation: 'parse', inputFormat, options };
+    const cached = conversionCache.get<Record<string, unknown>>(inputData, cacheOptions);
+    if (cached) {
+      return NextResponse.json({ ...cached, requestId }, { headers: { 'X-Cache': 'HIT' } });
+    }
+
+    const parsedData = await parseData(inputData, inputFormat, options);
 
     // Limit preview rows
     const previewRows = parsedData.rows.slice(0, MAX_PREVIEW_ROWS);
 
-    return NextResponse.json({
+    const payload = {
       success: true,
       headers: parsedData.headers,
       rows: previewRows,
       format: parsedData.format,
+      // Every sheet of a workbook read with allSheets: 'separate'
+      ...(parsedData.sheetTables && {
+        sheets: parsedData.sheetTables.map(({ name, headers, rows }) => ({
+          name,
+          headers,
+          rows: rows.slice(0, MAX_PREVIEW_ROWS),
+        })),
+      }),
       metadata: {
         ...parsedData.metadata,
         previewRowCount: previewRows.length,
         totalRowCount: parsedData.rows.length,
         truncated: parsedData.rows.length > MAX_PREVIEW_ROWS,
       },
-      requestId,
-    });
+    };
+    conversionCache.set(inputData, cacheOptions, payload);
+
+    return NextResponse.json({ ...payload, requestId }, { headers: { 'X-Cache': 'MISS' } });
   } catch (error) {
     return handleApiError(error, requestId);
   }
@@ -0,0 +1,374 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useConverterStore } from '@/stores/converter-store';
+import {
+  BATCH_CONCURRENCY,
+  MAX_BATCH_FILES,
+  createBatchArchive,
+  runWithConcurrency,
+} from '@/lib/batch';
+import { convertBatchFile } from '@/lib/batch-client';
+import { getOutputFilename } from '@/lib/converter';
+import { cn, downloadFile, formatFileSize, generateId, getMimeType } from '@/lib/utils';
+import { OUTPUT_FORMATS } from '@/components/converter/FormatSelector';
+import { ConvertOptions } from '@/components/converter/ConvertOptions';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertCircle,
+  CheckCircle2,
+  Clock,
+  Download,
+  FileArchive,
+  Files,
+  Loader2,
+  RotateCcw,
+  Trash2,
+  XCircle,
+} from 'lucide-react';
+import type { BatchFile, OutputFormat } from '@/types';
+
+const STATUS_ICONS: Record<BatchFile['status'], React.ReactNode> = {
+  pending: <Clock className="h-4 w-4 text-muted-foreground" aria-hidden="true" />,
+  converting: <Loader2 className="h-4 w-4 animate-spin text-primary" aria-hidden="true" />,
+  success: <CheckCircle2 className="h-4 w-4 text-green-600" aria-hidden="true" />,
+  failed: <XCircle className="h-4 w-4 text-destructive" aria-hidden="true" />,
+};
+
+export function BatchConverter() {
+  const t = useTranslations('batch');
+  const tConvert = useTranslations('convert');
+  const { outputFormat, setOutputFormat, getConvertOptions } = useConverterStore();
+  const [files, setFiles] = useState<BatchFile[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [limitReached, setLimitReached] = useState(false);
+
+  const updateFile = useCallback((id: string, changes: Partial<BatchFile>) => {
+    setFiles((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const addFiles = useCallback(
+    (incoming: File[]) => {
+      const room = MAX_BATCH_FILES - files.length;
+      setLimitReached(incoming.length > room);
+      if (room <= 0) return;
+
+      const added: BatchFile[] = incoming
+        .slice(0, room)
+        .map((file) => ({ id: generateId(), file, status: 'pending' }));
+      setFiles((prev) => [...prev, ...added]);
+    },
+    [files.length]
+  );
+
+  const convertFiles = useCallback(
+    async (items: BatchFile[]) => {
+      if (items.length === 0) return;
+
+      // Every file is detected from its own name rather than the single-file input format
+      const options = { ...getConvertOptions(), inputFormat: undefined };
+
+      setIsRunning(true);
+      for (const item of items) {
+        updateFile(item.id, { status: 'pending', progress: 0, result: undefined, error: undefined });
+      }
+
+      await runWithConcurrency(items, BATCH_CONCURRENCY, async (item) => {
+        updateFile(item.id, { status: 'converting' });
+        try {
+          const result = await convertBatchFile(item.file, options, (progress) =>
+            updateFile(item.id, { progress })
+          );
+          if (result.success) {
+            updateFile(item.id, { status: 'success', progress: 100, result });
+          } else {
+            updateFile(item.id, { status: 'failed', error: result.error || tConvert('convertFailed') });
+          }
+        } catch (error) {
+          updateFile(item.id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : tConvert('convertFailed'),
+          });
+        }
+      });
+
+      setIsRunning(false);
+    },
+    [getConvertOptions, updateFile, tConvert]
+  );
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      addFiles(Array.from(e.dataTransfer.files));
+    },
+    [addFiles]
+  );
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+  }, []);
+
+  const handleFileSelect = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      addFiles(Array.from(e.target.files ?? []));
+      // Allow selecting the same files again
+      e.target.value = '';
+    },
+    [addFiles]
+  );
+
+  const handleRemove = (id: string) => {
+    setFiles((prev) => prev.filter((item) => item.id !== id));
+    setLimitReached(false);
+  };
+
+  const handleClear = () => {
+    setFiles([]);
+    setLimitReached(false);
+  };
+
+  const handleDownload = (item: BatchFile) => {
+    if (!item.result?.data) return;
+    const format = item.result.format;
+    downloadFile(item.result.data, getOutputFilename(item.file.name, format), getMimeType(format));
+  };
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    try {
+      downloadFile(await createBatchArchive(files), 'converted.zip');
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const successCount = files.filter((item) => item.status === 'success').length;
+  const failedCount = files.filter((item) => item.status === 'failed').length;
+  const totalSize = files.reduce((sum, item) => sum + item.file.size, 0);
+
+  return (
+    <div className="mt-8 grid gap-6 lg:grid-cols-3">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Files className="h-5 w-5" />
+            {t('title')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Hidden file input - placed outside interactive dropzone for accessibility */}
+          <input
+            id="batch-file-input"
+            type="file"
+            multiple
+            className="sr-only"
+            accept=".csv,.tsv,.json,.xlsx,.xls,.xml,.sql,.yaml,.yml,.jsonl,.ndjson,.parquet,.html,.htm"
+            onChange={handleFileSelect}
+            aria-label={t('fileInputLabel')}
+            tabIndex={-1}
+            data-testid="batch-file-input"
+          />
+
+          {/* Dropzone */}
+          <div
+            className={cn(
+              'dropzone cursor-pointer',
+              isDragging && 'active',
+              (isRunning || files.length >= MAX_BATCH_FILES) && 'opacity-50 pointer-events-none'
+            )}
+            onDrop={handleDrop}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onClick={() => document.getElementById('batch-file-input')?.click()}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                document.getElementById('batch-file-input')?.click();
+              }
+            }}
+            tabIndex={0}
+            role="button"
+            aria-label={t('dropzone')}
+            aria-describedby="batch-max-files"
+          >
+            <Files className="mx-auto h-12 w-12 text-muted-foreground" aria-hidden="true" />
+            <p className="mt-4">{t('dropzone')}</p>
+            <p id="batch-max-files" className="mt-2 text-sm text-muted-foreground">
+              {t('maxFiles', { max: MAX_BATCH_FILES })}
+            </p>
+          </div>
+
+          {limitReached && (
+            <div
+              className="flex items-center gap-2 rounded-lg border border-destructive bg-destructive/10 p-3 text-sm text-destructive"
+              role="alert"
+            >
+              <AlertCircle className="h-4 w-4 shrink-0" aria-hidden="true" />
+              {t('tooManyFiles', { max: MAX_BATCH_FILES })}
+            </div>
+          )}
+
+          {files.length > 0 && (
+            <>
+              <div className="flex flex-wrap justify-between gap-2 text-sm text-muted-foreground">
+                <span>{t('filesSelected', { count: files.length })}</span>
+                <span>
+                  {t('totalSize')}: {formatFileSize(totalSize)}
+                </span>
+              </div>
+
+              <ul className="divide-y rounded-lg border" data-testid="batch-file-list">
+                {files.map((item) => (
+                  <li key={item.id} className="space-y-2 p-3" data-testid="batch-file">
+                    <div className="flex items-center gap-3">
+                      {STATUS_ICONS[item.status]}
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">{item.file.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatFileSize(item.file.size)} · {t(`status.${item.status}`)}
+                        </p>
+                      </div>
+                      {item.status === 'success' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDownload(item)}
+                          aria-label={t('download', { name: item.file.name })}
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {item.status === 'failed' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => convertFiles([item])}
+                          disabled={isRunning}
+                          aria-label={t('retry', { name: item.file.name })}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemove(item.id)}
+                        disabled={isRunning}
+                        aria-label={t('remove', { name: item.file.name })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    {item.status === 'converting' && (
+                      <div
+                        className="h-1.5 overflow-hidden rounded-full bg-muted"
+                        role="progressbar"
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={item.progress ?? 0}
+                        aria-label={item.file.name}
+                      >
+                        <div
+                          className="h-full bg-primary transition-all"
+                          style={{ width: `${item.progress ?? 0}%` }}
+                        />
+                      </div>
+                    )}
+
+                    {item.error && (
+                      <p className="text-xs text-destructive" role="alert">
+                        {item.error}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {(successCount > 0 || failedCount > 0) && (
+                <div className="flex flex-wrap gap-4 text-sm" data-testid="batch-results" aria-live="polite">
+                  <span className="font-medium">{t('results.title')}:</span>
+                  <span className="text-green-700 dark:text-green-400">
+                    {t('results.success', { count: successCount })}
+                  </span>
+                  {failedCount > 0 && (
+                    <span className="text-destructive">{t('results.failed', { count: failedCount })}</span>
+                  )}
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={() => convertFiles(files)} disabled={isRunning}>
+                  {isRunning ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      {t('converting', { current: successCount + failedCount, total: files.length })}
+                    </>
+                  ) : (
+                    t('convertAll')
+                  )}
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={handleDownloadAll}
+                  disabled={isRunning || isZipping || successCount === 0}
+                >
+                  <FileArchive className="mr-2 h-4 w-4" />
+                  {t('downloadAll')}
+                </Button>
+                <Button variant="outline" onClick={handleClear} disabled={isRunning}>
+                  {t('clearAll')}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="space-y-2 pt-6">
+            <Label htmlFor="batch-output-format">{t('outputFormat')}</Label>
+            <Select
+              value={outputFormat}
+              onValueChange={(value) => setOutputFormat(value as OutputFormat)}
+              disabled={isRunning}
+            >
+              <SelectTrigger id="batch-output-format" data-testid="batch-output-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OUTPUT_FORMATS.map((format) => (
+                  <SelectItem key={format.value} value={format.value}>
+                    {format.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+        <ConvertOptions standalone />
+      </div>
+    </div>
+  );
+}
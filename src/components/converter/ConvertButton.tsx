@@ -4,6 +4,7 @@ import { useCallback } from 'react';
 import { useTranslations } from 'next-intl';
 import { useConverterStore } from '@/stores/converter-store';
 import { convertData } from '@/lib/converter';
+import { recordConversion } from '@/lib/history';
 import { Button } from '@/components/ui/button';
 import { Loader2, ArrowRightLeft } from 'lucide-react';
 
@@ -11,6 +12,10 @@ export function ConvertButton() {
   const t = useTranslations('convert');
   const {
     parsedData,
+    inputData,
+    fileName,
+    parseOptions,
+    transforms,
     isConverting,
     setIsConverting,
     setResult,
@@ -30,6 +35,12 @@ export function ConvertButton() {
 
       if (result.success) {
         setResult(result);
+        void recordConversion(result, options, {
+          fileName: fileName ?? undefined,
+          data: inputData ?? undefined,
+          parseOptions,
+          transforms,
+        });
       } else {
         setConvertError(result.error || t('convertFailed'));
       }
@@ -38,7 +49,18 @@ export function ConvertButton() {
     } finally {
       setIsConverting(false);
     }
-  }, [parsedData, getConvertOptions, setIsConverting, setResult, setConvertError, t]);
+  }, [
+    parsedData,
+    inputData,
+    fileName,
+    parseOptions,
+    transforms,
+    getConvertOptions,
+    setIsConverting,
+    setResult,
+    setConvertError,
+    t,
+  ]);
 
   return (
     <Button
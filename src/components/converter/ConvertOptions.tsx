@@ -13,17 +13,43 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Settings, ChevronDown, ChevronUp, AlertCircle } from 'lucide-react';
-import { useState, useCallback, useId } from 'react';
+import { useState, useCallback, useEffect, useId } from 'react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { sqlOptionsSchema, excelOptionsSchema } from '@/lib/validation/schemas';
+import type {
+  CsvQuoting,
+  FormulaSanitization,
+  LineTerminator,
+  OutputEncoding,
+  ParquetCompression,
+  SqlDialect,
+  SqlStatementMode,
+} from '@/types';
+
+/** Delimiters offered in the select; anything else is entered as custom text */
+const PRESET_DELIMITERS = [',', ';', '\t', '|'];
+const CUSTOM_DELIMITER = 'custom';
+
+/** Splits comma-separated key column names, ignoring blanks */
+function splitKeyColumns(value: string): string[] {
+  return value
+    .split(',')
+    .map((k) => k.trim())
+    .filter(Boolean);
+}
 
 interface ValidationState {
   tableName?: string;
   sheetName?: string;
 }
 
-export function ConvertOptions() {
+interface ConvertOptionsProps {
+  /** Show the options before any data is loaded, e.g. for batch conversion */
+  standalone?: boolean;
+}
+
+export function ConvertOptions({ standalone = false }: ConvertOptionsProps = {}) {
   const t = useTranslations('options');
   const tErrors = useTranslations('errors');
   const {
@@ -32,20 +58,46 @@ export function ConvertOptions() {
     jsonOptions,
     excelOptions,
     sqlOptions,
+    parquetOptions,
+    markdownOptions,
+    htmlOptions,
     setCsvOptions,
     setJsonOptions,
     setExcelOptions,
     setSqlOptions,
+    setParquetOptions,
+    setMarkdownOptions,
+    setHtmlOptions,
     parsedData,
   } = useConverterStore();
   const [isExpanded, setIsExpanded] = useState(false);
   const [errors, setErrors] = useState<ValidationState>({});
+  const [keyColumnsText, setKeyColumnsText] = useState(() => (sqlOptions.keyColumns ?? []).join(', '));
+  const [isCustomDelimiter, setIsCustomDelimiter] = useState(
+    () => !PRESET_DELIMITERS.includes(csvOptions.delimiter ?? ',')
+  );
 
   // Generate unique IDs for accessibility
   const tableNameId = useId();
   const tableNameErrorId = useId();
   const sheetNameId = useId();
   const sheetNameErrorId = useId();
+  const keyColumnsId = useId();
+  const splitById = useId();
+  const rowGroupSizeId = useId();
+  const maxWidthId = useId();
+  const customDelimiterId = useId();
+  const quoteCharId = useId();
+  const escapeCharId = useId();
+
+  // Resync the key columns text when they change elsewhere, such as options
+  // restored from history, but keep what is being typed when it matches
+  useEffect(() => {
+    const keyColumns = sqlOptions.keyColumns ?? [];
+    setKeyColumnsText((text) =>
+      splitKeyColumns(text).join(',') === keyColumns.join(',') ? text : keyColumns.join(', ')
+    );
+  }, [sqlOptions.keyColumns]);
 
   // Validate table name
   const validateTableName = useCallback((value: string): boolean => {
@@ -77,13 +129,27 @@ export function ConvertOptions() {
     setSqlOptions({ tableName: value });
   }, [validateTableName, setSqlOptions]);
 
+  // Handle key columns change, keeping the raw text so separators can be typed
+  const handleKeyColumnsChange = useCallback((value: string) => {
+    setKeyColumnsText(value);
+    setSqlOptions({ keyColumns: splitKeyColumns(value) });
+  }, [setSqlOptions]);
+
+  // Handle delimiter choice, keeping the current delimiter as the starting point of a custom one
+  const handleDelimiterChange = useCallback((value: string) => {
+    setIsCustomDelimiter(value === CUSTOM_DELIMITER);
+    if (value !== CUSTOM_DELIMITER) {
+      setCsvOptions({ delimiter: value });
+    }
+  }, [setCsvOptions]);
+
   // Handle sheet name change
   const handleSheetNameChange = useCallback((value: string) => {
     validateSheetName(value);
     setExcelOptions({ sheetName: value });
   }, [validateSheetName, setExcelOptions]);
 
-  if (!parsedData) {
+  if (!parsedData && !standalone) {
     return null;
   }
 
@@ -91,20 +157,138 @@ export function ConvertOptions() {
     <div className="space-y-4">
       <h4 className="font-medium">{t('csvOptions')}</h4>
       <div className="grid gap-4 sm:grid-cols-2">
+        {/* TSV output is always tab-separated */}
+        {outputFormat === 'csv' && (
+          <div>
+            <Label htmlFor="delimiter">{t('delimiter')}</Label>
+            <Select
+              value={isCustomDelimiter ? CUSTOM_DELIMITER : csvOptions.delimiter}
+              onValueChange={handleDelimiterChange}
+            >
+              <SelectTrigger id="delimiter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value=",">{t('delimiters.comma')}</SelectItem>
+                <SelectItem value=";">{t('delimiters.semicolon')}</SelectItem>
+                <SelectItem value="\t">{t('delimiters.tab')}</SelectItem>
+                <SelectItem value="|">{t('delimiters.pipe')}</SelectItem>
+                <SelectItem value={CUSTOM_DELIMITER}>{t('delimiters.custom')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {outputFormat === 'csv' && isCustomDelimiter && (
+          <div className="space-y-1">
+            <Label htmlFor={customDelimiterId}>{t('customDelimiter')}</Label>
+            <Input
+              id={customDelimiterId}
+              value={csvOptions.delimiter ?? ''}
+              onChange={(e) => setCsvOptions({ delimiter: e.target.value })}
+              maxLength={10}
+              placeholder="||"
+            />
+          </div>
+        )}
+        <div>
+          <Label htmlFor="quoting">{t('quoting')}</Label>
+          <Select
+            value={csvOptions.quoting ?? 'minimal'}
+            onValueChange={(value) => setCsvOptions({ quoting: value as CsvQuoting })}
+          >
+            <SelectTrigger id="quoting">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="minimal">{t('quotingModes.minimal')}</SelectItem>
+              <SelectItem value="all">{t('quotingModes.all')}</SelectItem>
+              <SelectItem value="nonNumeric">{t('quotingModes.nonNumeric')}</SelectItem>
+              <SelectItem value="none">{t('quotingModes.none')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={quoteCharId}>{t('quoteChar')}</Label>
+          <Input
+            id={quoteCharId}
+            value={csvOptions.quoteChar ?? '"'}
+            onChange={(e) => setCsvOptions({ quoteChar: e.target.value || undefined })}
+            maxLength={1}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={escapeCharId}>{t('escapeChar')}</Label>
+          <Input
+            id={escapeCharId}
+            value={csvOptions.escapeChar ?? ''}
+            onChange={(e) => setCsvOptions({ escapeChar: e.target.value || undefined })}
+            maxLength={1}
+            placeholder={csvOptions.quoteChar ?? '"'}
+          />
+          <p className="text-xs text-muted-foreground">{t('escapeCharHint')}</p>
+        </div>
+        <div>
+          <Label htmlFor="lineTerminator">{t('lineTerminator')}</Label>
+          <Select
+            value={csvOptions.lineTerminator ?? 'lf'}
+            onValueChange={(value) => setCsvOptions({ lineTerminator: value as LineTerminator })}
+          >
+            <SelectTrigger id="lineTerminator">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="lf">{t('lineTerminators.lf')}</SelectItem>
+              <SelectItem value="crlf">{t('lineTerminators.crlf')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
         <div>
-          <Label htmlFor="delimiter">{t('delimiter')}</Label>
+          <Label htmlFor="includeHeader">{t('includeHeader')}</Label>
           <Select
-            value={csvOptions.delimiter}
-            onValueChange={(value) => setCsvOptions({ delimiter: value })}
+            value={csvOptions.hasHeader === false ? 'false' : 'true'}
+            onValueChange={(value) => setCsvOptions({ hasHeader: value === 'true' })}
           >
-            <SelectTrigger id="delimiter">
+            <SelectTrigger id="includeHeader">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value=",">{t('delimiters.comma')}</SelectItem>
-              <SelectItem value=";">{t('delimiters.semicolon')}</SelectItem>
-              <SelectItem value="\t">{t('delimiters.tab')}</SelectItem>
-              <SelectItem value="|">{t('delimiters.pipe')}</SelectItem>
+              <SelectItem value="true">Yes</SelectItem>
+              <SelectItem value="false">No</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="csvFormulaSanitization">{t('formulaSanitization')}</Label>
+          <Select
+            value={csvOptions.formulaSanitization ?? 'off'}
+            onValueChange={(value) =>
+              setCsvOptions({ formulaSanitization: value as FormulaSanitization })
+            }
+          >
+            <SelectTrigger id="csvFormulaSanitization">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">{t('formulaSanitizationModes.off')}</SelectItem>
+              <SelectItem value="prefix">{t('formulaSanitizationModes.prefix')}</SelectItem>
+              <SelectItem value="strip">{t('formulaSanitizationModes.strip')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="outputEncoding">{t('outputEncoding')}</Label>
+          <Select
+            value={csvOptions.outputEncoding ?? 'utf-8'}
+            onValueChange={(value) => setCsvOptions({ outputEncoding: value as OutputEncoding })}
+          >
+            <SelectTrigger id="outputEncoding">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="utf-8">{t('encodings.utf8')}</SelectItem>
+              <SelectItem value="utf-8-bom">{t('encodings.utf8Bom')}</SelectItem>
+              <SelectItem value="utf-16le">{t('encodings.utf16')}</SelectItem>
+              <SelectItem value="windows-1252">{t('encodings.latin1')}</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -146,6 +330,39 @@ export function ConvertOptions() {
             </SelectContent>
           </Select>
         </div>
+        <div>
+          <Label htmlFor="arrayFormat">{t('arrayFormat')}</Label>
+          <Select
+            value={jsonOptions.arrayFormat ?? 'arrayOfObjects'}
+            onValueChange={(value) =>
+              setJsonOptions({ arrayFormat: value as 'arrayOfObjects' | 'objectOfArrays' })
+            }
+          >
+            <SelectTrigger id="arrayFormat">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="arrayOfObjects">{t('arrayFormats.arrayOfObjects')}</SelectItem>
+              <SelectItem value="objectOfArrays">{t('arrayFormats.objectOfArrays')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="unflatten">{t('unflatten')}</Label>
+          <Select
+            value={jsonOptions.unflatten ? 'true' : 'false'}
+            onValueChange={(value) => setJsonOptions({ unflatten: value === 'true' })}
+          >
+            <SelectTrigger id="unflatten">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="true">Yes</SelectItem>
+              <SelectItem value="false">No</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{t('unflattenHint')}</p>
+        </div>
       </div>
     </div>
   );
@@ -191,6 +408,51 @@ export function ConvertOptions() {
             </SelectContent>
           </Select>
         </div>
+        <div>
+          <Label htmlFor="excelFormulaSanitization">{t('formulaSanitization')}</Label>
+          <Select
+            value={excelOptions.formulaSanitization ?? 'off'}
+            onValueChange={(value) =>
+              setExcelOptions({ formulaSanitization: value as FormulaSanitization })
+            }
+          >
+            <SelectTrigger id="excelFormulaSanitization">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">{t('formulaSanitizationModes.off')}</SelectItem>
+              <SelectItem value="prefix">{t('formulaSanitizationModes.prefix')}</SelectItem>
+              <SelectItem value="strip">{t('formulaSanitizationModes.strip')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={splitById}>{t('splitBy')}</Label>
+          <Input
+            id={splitById}
+            value={excelOptions.splitBy ?? ''}
+            onChange={(e) => setExcelOptions({ splitBy: e.target.value || undefined })}
+            placeholder={parsedData?.headers[0] ?? t('splitByPlaceholder')}
+          />
+          <p className="text-xs text-muted-foreground">{t('splitByHint')}</p>
+        </div>
+        {excelOptions.splitBy && (
+          <div>
+            <Label htmlFor="summarySheet">{t('summarySheet')}</Label>
+            <Select
+              value={excelOptions.summarySheet ? 'true' : 'false'}
+              onValueChange={(value) => setExcelOptions({ summarySheet: value === 'true' })}
+            >
+              <SelectTrigger id="summarySheet">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="true">Yes</SelectItem>
+                <SelectItem value="false">No</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -236,6 +498,167 @@ export function ConvertOptions() {
             </SelectContent>
           </Select>
         </div>
+        <div>
+          <Label htmlFor="dialect">{t('dialect')}</Label>
+          <Select
+            value={sqlOptions.dialect ?? 'postgresql'}
+            onValueChange={(value) => setSqlOptions({ dialect: value as SqlDialect })}
+          >
+            <SelectTrigger id="dialect">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="postgresql">{t('dialects.postgresql')}</SelectItem>
+              <SelectItem value="mysql">{t('dialects.mysql')}</SelectItem>
+              <SelectItem value="sqlite">{t('dialects.sqlite')}</SelectItem>
+              <SelectItem value="mssql">{t('dialects.mssql')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="sqlMode">{t('sqlMode')}</Label>
+          <Select
+            value={sqlOptions.mode ?? 'insert'}
+            onValueChange={(value) => setSqlOptions({ mode: value as SqlStatementMode })}
+          >
+            <SelectTrigger id="sqlMode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="insert">{t('sqlModes.insert')}</SelectItem>
+              <SelectItem value="upsert">{t('sqlModes.upsert')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {sqlOptions.mode === 'upsert' && (
+          <div className="space-y-1">
+            <Label htmlFor={keyColumnsId}>{t('keyColumns')}</Label>
+            <Input
+              id={keyColumnsId}
+              value={keyColumnsText}
+              onChange={(e) => handleKeyColumnsChange(e.target.value)}
+              placeholder={parsedData?.headers[0] ?? ''}
+            />
+            <p className="text-xs text-muted-foreground">{t('keyColumnsHint')}</p>
+          </div>
+        )}
+        <div>
+          <Label htmlFor="inferTypes">{t('inferTypes')}</Label>
+          <Select
+            value={sqlOptions.inferTypes ? 'true' : 'false'}
+            onValueChange={(value) => setSqlOptions({ inferTypes: value === 'true' })}
+          >
+            <SelectTrigger id="inferTypes">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="true">Yes</SelectItem>
+              <SelectItem value="false">No</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderParquetOptions = () => (
+    <div className="space-y-4">
+      <h4 className="font-medium">{t('parquetOptions')}</h4>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="compression">{t('compression')}</Label>
+          <Select
+            value={parquetOptions.compression ?? 'snappy'}
+            onValueChange={(value) => setParquetOptions({ compression: value as ParquetCompression })}
+          >
+            <SelectTrigger id="compression">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="snappy">{t('compressions.snappy')}</SelectItem>
+              <SelectItem value="gzip">{t('compressions.gzip')}</SelectItem>
+              <SelectItem value="none">{t('compressions.none')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={rowGroupSizeId}>{t('rowGroupSize')}</Label>
+          <Input
+            id={rowGroupSizeId}
+            type="number"
+            min={1}
+            value={parquetOptions.rowGroupSize ?? ''}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (Number.isInteger(value) && value > 0) {
+                setParquetOptions({ rowGroupSize: value });
+              }
+            }}
+          />
+          <p className="text-xs text-muted-foreground">{t('rowGroupSizeHint')}</p>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderMarkdownOptions = () => (
+    <div className="space-y-4">
+      <h4 className="font-medium">{t('markdownOptions')}</h4>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="alignment">{t('alignment')}</Label>
+          <Select
+            value={markdownOptions.alignment ?? 'auto'}
+            onValueChange={(value) => setMarkdownOptions({ alignment: value as 'auto' | 'none' })}
+          >
+            <SelectTrigger id="alignment">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">{t('alignments.auto')}</SelectItem>
+              <SelectItem value="none">{t('alignments.none')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={maxWidthId}>{t('maxWidth')}</Label>
+          <Input
+            id={maxWidthId}
+            type="number"
+            min={1}
+            value={markdownOptions.maxWidth ?? ''}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              setMarkdownOptions({
+                maxWidth: Number.isInteger(value) && value > 0 ? value : undefined,
+              });
+            }}
+          />
+          <p className="text-xs text-muted-foreground">{t('maxWidthHint')}</p>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderHtmlOptions = () => (
+    <div className="space-y-4">
+      <h4 className="font-medium">{t('htmlOptions')}</h4>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="htmlOutput">{t('htmlOutput')}</Label>
+          <Select
+            value={htmlOptions.standalone === false ? 'fragment' : 'document'}
+            onValueChange={(value) => setHtmlOptions({ standalone: value === 'document' })}
+          >
+            <SelectTrigger id="htmlOutput">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="document">{t('htmlOutputs.document')}</SelectItem>
+              <SelectItem value="fragment">{t('htmlOutputs.fragment')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
       </div>
     </div>
   );
@@ -252,6 +675,12 @@ export function ConvertOptions() {
         return renderExcelOptions();
       case 'sql':
         return renderSqlOptions();
+      case 'parquet':
+        return renderParquetOptions();
+      case 'markdown':
+        return renderMarkdownOptions();
+      case 'html':
+        return renderHtmlOptions();
       default:
         return null;
     }
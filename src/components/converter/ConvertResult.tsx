@@ -70,6 +70,11 @@ export function ConvertResult() {
           <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
             <span>{result.metadata.rowCount} {tCommon('rows')}</span>
             <span>{result.metadata.columnCount} {tCommon('columns')}</span>
+            {!!result.metadata.sanitizedCells && (
+              <span data-testid="sanitized-cells">
+                {t('sanitizedCells', { count: result.metadata.sanitizedCells })}
+              </span>
+            )}
           </div>
         )}
 
@@ -3,13 +3,29 @@
 import { useCallback, useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { useConverterStore } from '@/stores/converter-store';
-import { parseData, detectFormat, detectFormatFromFilename } from '@/lib/converter';
+import {
+  parseData,
+  parseJsonlStream,
+  detectFormat,
+  detectFormatFromFilename,
+  needsStreaming,
+} from '@/lib/converter';
+import { applyTransforms } from '@/lib/history';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Upload, FileText, Link as LinkIcon, X, Loader2 } from 'lucide-react';
 import { cn, formatFileSize } from '@/lib/utils';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { NestedArrayMode, ParseOptions, ParsedData } from '@/types';
 
 const SAMPLE_CSV = `name,age,city,email
 John Doe,30,New York,john@example.com
@@ -18,9 +34,22 @@ Bob Johnson,35,Chicago,bob@example.com
 Alice Brown,28,Houston,alice@example.com
 Charlie Wilson,32,Phoenix,charlie@example.com`;
 
+/** Encodings offered when overriding the detected encoding of a text file */
+const INPUT_ENCODINGS = [
+  { value: 'utf-8', label: 'utf8' },
+  { value: 'utf-16le', label: 'utf16' },
+  { value: 'utf-16be', label: 'utf16be' },
+  { value: 'windows-1252', label: 'latin1' },
+  { value: 'shift_jis', label: 'shiftJis' },
+] as const;
+
+/** Sheet picker value that stacks every sheet of a workbook into one table */
+const ALL_SHEETS = '__all__';
+
 export function FileUpload() {
   const t = useTranslations('upload');
   const tCommon = useTranslations('common');
+  const tOptions = useTranslations('options');
   const [isDragging, setIsDragging] = useState(false);
   const [pasteData, setPasteData] = useState('');
   const [urlInput, setUrlInput] = useState('');
@@ -30,33 +59,131 @@ export function FileUpload() {
     setInputData,
     setInputFormat,
     setParsedData,
+    setPendingTransforms,
+    setParseOptions,
+    parseOptions,
+    pendingTransforms,
     setIsParsing,
     setParseError,
+    inputData,
+    inputFormat,
+    parsedData,
     fileName,
     fileSize,
     isParsing,
     parseError,
   } = useConverterStore();
 
+  // Start from the parse options in the store, e.g. when re-running a conversion from history
+  const [selectedSource, setSelectedSource] = useState<string | null>(() => {
+    if (parseOptions.excel?.allSheets === 'stack') return ALL_SHEETS;
+    const source =
+      parseOptions.sql?.selectedTable ??
+      parseOptions.html?.selectedTable ??
+      parseOptions.excel?.selectedSheet ??
+      parseOptions.json?.recordPath;
+    return typeof source === 'string' ? source : null;
+  });
+  const [selectedEncoding, setSelectedEncoding] = useState(parseOptions.csv?.encoding ?? 'auto');
+  const [nestedArrays, setNestedArrays] = useState<NestedArrayMode>(
+    parseOptions.json?.nestedArrays ?? parseOptions.xml?.nestedArrays ?? 'join'
+  );
+
+  // Tables of a SQL dump or HTML page, sheets of a workbook or arrays of records
+  // in a JSON document the user can choose from
+  const tables = parsedData?.metadata?.tables ?? [];
+  const sheets = parsedData?.metadata?.sheets ?? [];
+  const recordPaths = parsedData?.metadata?.recordPaths ?? [];
+  const sourceKind =
+    tables.length > 1 ? 'table' : sheets.length > 1 ? 'sheet' : recordPaths.length > 0 ? 'path' : null;
+  const sources = sourceKind === 'table' ? tables : sourceKind === 'sheet' ? sheets : recordPaths;
+  const isKnownSource =
+    !!selectedSource &&
+    (sources.includes(selectedSource) || (sourceKind === 'sheet' && selectedSource === ALL_SHEETS));
+  // Without a record path, a top-level JSON array is read as is
+  const defaultSource = sourceKind === 'path' ? (parsedData?.metadata?.recordPath ?? '$[*]') : sources[0];
+  const currentSource = isKnownSource ? selectedSource : defaultSource;
+  // Only files decoded from raw bytes report an encoding that can be overridden
+  const detectedEncoding = parsedData?.metadata?.encoding;
+  // Array fields of JSON and XML records can be expanded into rows or a related table
+  const hasNestedRecords = parsedData?.format === 'json' || parsedData?.format === 'xml';
+
+  // Transforms kept from a history entry ("Run with new file") apply to the next input
+  const showParsed = useCallback(
+    (parsed: ParsedData) => {
+      setParsedData(applyTransforms(parsed, pendingTransforms), pendingTransforms);
+      setPendingTransforms([]);
+    },
+    [pendingTransforms, setParsedData, setPendingTransforms]
+  );
+
   const handleFile = useCallback(
     async (file: File) => {
       setIsParsing(true);
       setParseError(null);
+      setSelectedSource(null);
+      setSelectedEncoding('auto');
+      setNestedArrays('join');
 
       try {
         const format = detectFormatFromFilename(file.name);
         setInputFormat(format);
 
-        let data: string | ArrayBuffer;
-        if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
-          data = await file.arrayBuffer();
-        } else {
-          data = await file.text();
+        // Large JSON Lines files are parsed slice by slice instead of being read
+        // whole; without the raw bytes there is nothing to re-parse later
+        if (format === 'jsonl' && needsStreaming(file)) {
+          setInputData(null, file.name, file.size);
+          showParsed(await parseJsonlStream(file));
+          return;
         }
 
+        // Text files are read as bytes so their encoding can be detected
+        const data = await file.arrayBuffer();
+
         setInputData(data, file.name, file.size);
 
         const parsed = await parseData(data, format ?? undefined);
+        showParsed(parsed);
+      } catch (error) {
+        setParseError(error instanceof Error ? error.message : t('parseError'));
+      } finally {
+        setIsParsing(false);
+      }
+    },
+    [setInputData, setInputFormat, showParsed, setIsParsing, setParseError, t]
+  );
+
+  const reparse = useCallback(
+    async (source: string | null, encoding: string, arrays: NestedArrayMode) => {
+      if (!inputData) return;
+
+      setIsParsing(true);
+      setParseError(null);
+
+      try {
+        const options: ParseOptions = { csv: { encoding } };
+        if (source && sourceKind === 'table' && parsedData?.format === 'html') {
+          options.html = { selectedTable: source };
+        } else if (source && sourceKind === 'table') {
+          options.sql = { selectedTable: source };
+        } else if (source === ALL_SHEETS && sourceKind === 'sheet') {
+          options.excel = { allSheets: 'stack' };
+        } else if (source && sourceKind === 'sheet') {
+          options.excel = { selectedSheet: source };
+        } else if (source && sourceKind === 'path') {
+          options.json = { recordPath: source };
+        }
+        if (arrays !== 'join' && parsedData?.format === 'xml') {
+          options.xml = { nestedArrays: arrays };
+        } else if (arrays !== 'join') {
+          options.json = { ...options.json, nestedArrays: arrays };
+        }
+
+        const parsed = await parseData(inputData, inputFormat ?? undefined, options);
+        setSelectedSource(source);
+        setSelectedEncoding(encoding);
+        setNestedArrays(arrays);
+        setParseOptions(options);
         setParsedData(parsed);
       } catch (error) {
         setParseError(error instanceof Error ? error.message : t('parseError'));
@@ -64,7 +191,22 @@ export function FileUpload() {
         setIsParsing(false);
       }
     },
-    [setInputData, setInputFormat, setParsedData, setIsParsing, setParseError, t]
+    [inputData, inputFormat, parsedData?.format, sourceKind, setParsedData, setParseOptions, setIsParsing, setParseError, t]
+  );
+
+  const handleSourceChange = useCallback(
+    (name: string) => reparse(name, selectedEncoding, nestedArrays),
+    [reparse, selectedEncoding, nestedArrays]
+  );
+
+  const handleEncodingChange = useCallback(
+    (encoding: string) => reparse(selectedSource, encoding, nestedArrays),
+    [reparse, selectedSource, nestedArrays]
+  );
+
+  const handleNestedArraysChange = useCallback(
+    (arrays: string) => reparse(selectedSource, selectedEncoding, arrays as NestedArrayMode),
+    [reparse, selectedSource, selectedEncoding]
   );
 
   const handleDrop = useCallback(
@@ -105,6 +247,9 @@ export function FileUpload() {
 
     setIsParsing(true);
     setParseError(null);
+    setSelectedSource(null);
+    setSelectedEncoding('auto');
+    setNestedArrays('join');
 
     try {
       const format = detectFormat(pasteData);
@@ -112,31 +257,34 @@ export function FileUpload() {
       setInputData(pasteData, 'pasted-data', pasteData.length);
 
       const parsed = await parseData(pasteData, format);
-      setParsedData(parsed);
+      showParsed(parsed);
       setPasteData('');
     } catch (error) {
       setParseError(error instanceof Error ? error.message : t('parseError'));
     } finally {
       setIsParsing(false);
     }
-  }, [pasteData, setInputData, setInputFormat, setParsedData, setIsParsing, setParseError, t]);
+  }, [pasteData, setInputData, setInputFormat, showParsed, setIsParsing, setParseError, t]);
 
   const handleLoadSample = useCallback(async () => {
     setIsParsing(true);
     setParseError(null);
+    setSelectedSource(null);
+    setSelectedEncoding('auto');
+    setNestedArrays('join');
 
     try {
       setInputFormat('csv');
       setInputData(SAMPLE_CSV, 'sample.csv', SAMPLE_CSV.length);
 
       const parsed = await parseData(SAMPLE_CSV, 'csv');
-      setParsedData(parsed);
+      showParsed(parsed);
     } catch (error) {
       setParseError(error instanceof Error ? error.message : t('parseError'));
     } finally {
       setIsParsing(false);
     }
-  }, [setInputData, setInputFormat, setParsedData, setIsParsing, setParseError, t]);
+  }, [setInputData, setInputFormat, showParsed, setIsParsing, setParseError, t]);
 
   const handleUrlImport = useCallback(async () => {
     if (!urlInput.trim()) return;
@@ -144,18 +292,19 @@ export function FileUpload() {
     setIsLoadingUrl(true);
     setIsParsing(true);
     setParseError(null);
+    setSelectedSource(null);
+    setSelectedEncoding('auto');
+    setNestedArrays('join');
 
     try {
       const response = await fetch(urlInput);
       if (!response.ok) throw new Error('Failed to fetch URL');
 
-      const text = await response.text();
-      const format = detectFormat(text);
-      setInputFormat(format);
-      setInputData(text, urlInput.split('/').pop() || 'imported', text.length);
-
-      const parsed = await parseData(text, format);
-      setParsedData(parsed);
+      const data = await response.arrayBuffer();
+      const parsed = await parseData(data);
+      setInputFormat(parsed.format ?? null);
+      setInputData(data, urlInput.split('/').pop() || 'imported', data.byteLength);
+      showParsed(parsed);
       setUrlInput('');
     } catch (error) {
       setParseError(error instanceof Error ? error.message : t('parseError'));
@@ -163,7 +312,7 @@ export function FileUpload() {
       setIsLoadingUrl(false);
       setIsParsing(false);
     }
-  }, [urlInput, setInputData, setInputFormat, setParsedData, setIsParsing, setParseError, t]);
+  }, [urlInput, setInputData, setInputFormat, showParsed, setIsParsing, setParseError, t]);
 
   const handleClear = useCallback(() => {
     setInputData(null);
@@ -172,6 +321,9 @@ export function FileUpload() {
     setParseError(null);
     setPasteData('');
     setUrlInput('');
+    setSelectedSource(null);
+    setSelectedEncoding('auto');
+    setNestedArrays('join');
   }, [setInputData, setInputFormat, setParsedData, setParseError]);
 
   return (
@@ -210,12 +362,85 @@ export function FileUpload() {
           </div>
         )}
 
+        {/* Table, sheet or record path picker for multi-table dumps, multi-sheet workbooks and nested JSON */}
+        {sourceKind && (
+          <div className="space-y-2">
+            <Label htmlFor="source-select">
+              {sourceKind === 'table'
+                ? t('selectedTable')
+                : sourceKind === 'sheet'
+                  ? t('selectedSheet')
+                  : t('recordPath')}
+            </Label>
+            <Select value={currentSource} onValueChange={handleSourceChange} disabled={isParsing}>
+              <SelectTrigger id="source-select" data-testid="source-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+                {sourceKind === 'sheet' && (
+                  <SelectItem value={ALL_SHEETS}>{t('allSheets')}</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {/* Expansion of array fields such as order line items */}
+        {hasNestedRecords && (
+          <div className="space-y-2">
+            <Label htmlFor="nested-arrays-select">{t('nestedArrays')}</Label>
+            <Select value={nestedArrays} onValueChange={handleNestedArraysChange} disabled={isParsing}>
+              <SelectTrigger id="nested-arrays-select" data-testid="nested-arrays-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="join">{t('nestedArrayModes.join')}</SelectItem>
+                <SelectItem value="explode">{t('nestedArrayModes.explode')}</SelectItem>
+                <SelectItem value="normalize">{t('nestedArrayModes.normalize')}</SelectItem>
+              </SelectContent>
+            </Select>
+            {parsedData?.metadata?.arrayField && (
+              <p className="text-xs text-muted-foreground">
+                {t('arrayField', { field: parsedData.metadata.arrayField })}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Encoding override for uploaded text files */}
+        {detectedEncoding && (
+          <div className="space-y-2">
+            <Label htmlFor="encoding-select">{t('encoding')}</Label>
+            <Select value={selectedEncoding} onValueChange={handleEncodingChange} disabled={isParsing}>
+              <SelectTrigger id="encoding-select" data-testid="encoding-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">{tOptions('encodings.auto')}</SelectItem>
+                {INPUT_ENCODINGS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {tOptions(`encodings.${label}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {t('detectedEncoding', { encoding: detectedEncoding })}
+            </p>
+          </div>
+        )}
+
         {/* Hidden file input - placed outside interactive dropzone for accessibility */}
         <input
           id="file-input"
           type="file"
           className="sr-only"
-          accept=".csv,.tsv,.json,.xlsx,.xls,.xml"
+          accept=".csv,.tsv,.json,.xlsx,.xls,.xml,.sql,.yaml,.yml,.jsonl,.ndjson,.parquet,.html,.htm"
           onChange={handleFileSelect}
           aria-label={t('fileInputLabel')}
           aria-invalid={!!parseError}
@@ -13,7 +13,7 @@ import {
 import { ArrowRight, FileOutput } from 'lucide-react';
 import type { OutputFormat } from '@/types';
 
-const OUTPUT_FORMATS: { value: OutputFormat; label: string }[] = [
+export const OUTPUT_FORMATS: { value: OutputFormat; label: string }[] = [
   { value: 'json', label: 'JSON' },
   { value: 'csv', label: 'CSV' },
   { value: 'tsv', label: 'TSV' },
@@ -21,6 +21,11 @@ const OUTPUT_FORMATS: { value: OutputFormat; label: string }[] = [
   { value: 'xls', label: 'Excel (XLS)' },
   { value: 'xml', label: 'XML' },
   { value: 'sql', label: 'SQL' },
+  { value: 'yaml', label: 'YAML' },
+  { value: 'jsonl', label: 'JSON Lines' },
+  { value: 'parquet', label: 'Parquet' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'html', label: 'HTML' },
 ];
 
 export function FormatSelector() {
@@ -43,6 +48,18 @@ export function FormatSelector() {
         return tFormats('xls');
       case 'xml':
         return tFormats('xml');
+      case 'sql':
+        return tFormats('sql');
+      case 'yaml':
+        return tFormats('yaml');
+      case 'jsonl':
+        return tFormats('jsonl');
+      case 'parquet':
+        return tFormats('parquet');
+      case 'markdown':
+        return tFormats('markdown');
+      case 'html':
+        return tFormats('html');
       default:
         return format.toUpperCase();
     }
@@ -0,0 +1,333 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useFormatter, useTranslations } from 'next-intl';
+import {
+  HISTORY_MAX_BYTES,
+  clearHistory,
+  deleteHistoryItem,
+  filterHistory,
+  getHistory,
+  recordConversion,
+  replayConversion,
+} from '@/lib/history';
+import { downloadFile, formatFileSize } from '@/lib/utils';
+import { useConverterStore } from '@/stores/converter-store';
+import { Link, useRouter } from '@/i18n/routing';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ArrowRight,
+  Download,
+  FileUp,
+  History,
+  Loader2,
+  RotateCcw,
+  Search,
+  Trash2,
+} from 'lucide-react';
+import type { ConversionHistoryItem, InputFormat, OutputFormat } from '@/types';
+
+const FORMATS: (InputFormat | OutputFormat)[] = [
+  'csv',
+  'tsv',
+  'json',
+  'xlsx',
+  'xls',
+  'xml',
+  'sql',
+  'yaml',
+  'jsonl',
+  'parquet',
+  'markdown',
+  'html',
+];
+
+/** Select value for "any format" */
+const ALL_FORMATS = 'all';
+
+export function HistoryList() {
+  const t = useTranslations('history');
+  const tCommon = useTranslations('common');
+  const tFormats = useTranslations('formats');
+  const format = useFormatter();
+  const router = useRouter();
+  const {
+    setInputData,
+    setParseOptions,
+    setParsedData,
+    setPendingTransforms,
+    setResult,
+    setConvertError,
+    restoreOptions,
+    reset,
+  } = useConverterStore();
+  const [items, setItems] = useState<ConversionHistoryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [query, setQuery] = useState('');
+  const [formatFilter, setFormatFilter] = useState<string>(ALL_FORMATS);
+  const [rerunningId, setRerunningId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getHistory()
+      .then(setItems)
+      .catch((error) => {
+        console.error('Failed to load conversion history:', error);
+        setLoadFailed(true);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const visibleItems = useMemo(
+    () =>
+      filterHistory(items, {
+        query,
+        format: formatFilter === ALL_FORMATS ? undefined : (formatFilter as InputFormat),
+      }),
+    [items, query, formatFilter]
+  );
+
+  const usedBytes = items.reduce((sum, item) => sum + item.size, 0);
+
+  const handleDelete = async (id: string) => {
+    setActionError(null);
+    try {
+      await deleteHistoryItem(id);
+      setItems((prev) => prev.filter((item) => item.id !== id));
+    } catch (error) {
+      console.error('Failed to delete conversion history entry:', error);
+      setActionError(t('deleteError'));
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t('clearConfirm'))) return;
+    setActionError(null);
+    try {
+      await clearHistory();
+      setItems([]);
+    } catch (error) {
+      console.error('Failed to clear conversion history:', error);
+      setActionError(t('clearError'));
+    }
+  };
+
+  const handleDownload = (item: ConversionHistoryItem) => {
+    if (!item.result) return;
+    downloadFile(item.result, item.outputFileName ?? `converted.${item.outputFormat}`);
+  };
+
+  const handleRunAgain = async (item: ConversionHistoryItem) => {
+    if (item.input === undefined) return;
+
+    setRerunningId(item.id);
+    setActionError(null);
+
+    try {
+      const { parsedData, result } = await replayConversion(item);
+      const inputSize = typeof item.input === 'string' ? item.input.length : item.input.byteLength;
+
+      setInputData(item.input, item.inputFileName, inputSize);
+      restoreOptions(item.options);
+      setParseOptions(item.parseOptions ?? {});
+      setParsedData(parsedData, item.transforms);
+
+      if (result.success) {
+        setResult(result);
+        void recordConversion(result, item.options, {
+          fileName: item.inputFileName,
+          data: item.input,
+          parseOptions: item.parseOptions,
+          transforms: item.transforms,
+        });
+      } else {
+        setConvertError(result.error || t('rerunFailed'));
+      }
+      router.push('/');
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : t('rerunFailed'));
+    } finally {
+      setRerunningId(null);
+    }
+  };
+
+  const handleRunWithNewFile = (item: ConversionHistoryItem) => {
+    reset();
+    restoreOptions({ ...item.options, inputFormat: undefined });
+    setPendingTransforms(item.transforms ?? []);
+    router.push('/');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="mt-8 flex items-center justify-center gap-2 text-muted-foreground" role="status">
+        <Loader2 className="h-5 w-5 animate-spin" aria-hidden="true" />
+        {tCommon('loading')}
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <Card className="mt-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {t('title')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="py-12 text-center">
+          <History className="mx-auto h-12 w-12 text-muted-foreground" />
+          <p className="mt-4 text-lg font-medium">{t('empty')}</p>
+          <p className="mt-2 text-sm text-muted-foreground">{loadFailed ? t('loadError') : t('emptyDesc')}</p>
+          <Button className="mt-6" asChild>
+            <Link href="/">
+              {t('startConverting')}
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          {t('title')}
+        </CardTitle>
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-muted-foreground" data-testid="history-usage">
+            {t('storageUsed', {
+              used: formatFileSize(usedBytes),
+              max: formatFileSize(HISTORY_MAX_BYTES),
+            })}
+          </span>
+          <Button variant="outline" size="sm" onClick={handleClear}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            {t('clearHistory')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {actionError && (
+          <p className="rounded-md bg-destructive/10 p-3 text-sm text-destructive" role="alert">
+            {actionError}
+          </p>
+        )}
+
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <div className="relative flex-1">
+            <Search
+              className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
+              aria-hidden="true"
+            />
+            <Input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('search')}
+              aria-label={t('search')}
+              className="pl-9"
+            />
+          </div>
+          <Select value={formatFilter} onValueChange={setFormatFilter}>
+            <SelectTrigger className="sm:w-48" aria-label={t('filterFormat')} data-testid="history-format-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_FORMATS}>{t('allFormats')}</SelectItem>
+              {FORMATS.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {tFormats(value)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {visibleItems.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">{t('noMatches')}</p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {visibleItems.map((item) => (
+              <li
+                key={item.id}
+                className="flex flex-wrap items-center gap-3 p-3"
+                data-testid="history-item"
+              >
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="truncate text-sm font-medium">
+                    {item.inputFileName ?? tFormats(item.inputFormat)}
+                    <ArrowRight className="mx-2 inline h-3 w-3" aria-hidden="true" />
+                    {item.outputFileName ?? tFormats(item.outputFormat)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {t('convertedAt')} {format.dateTime(item.timestamp, { dateStyle: 'medium', timeStyle: 'short' })}
+                    {' · '}
+                    {item.rowCount} {tCommon('rows')} · {item.columnCount} {tCommon('columns')}
+                  </p>
+                </div>
+                <span className="rounded bg-muted px-2 py-0.5 text-xs font-medium uppercase">
+                  {item.inputFormat} → {item.outputFormat}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRunAgain(item)}
+                  disabled={item.input === undefined || rerunningId !== null}
+                  title={item.input === undefined ? t('inputUnavailable') : undefined}
+                  aria-label={t('reconvert')}
+                >
+                  {rerunningId === item.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4" />
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRunWithNewFile(item)}
+                  aria-label={t('runWithNewFile')}
+                >
+                  <FileUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDownload(item)}
+                  disabled={!item.result}
+                  title={item.result ? undefined : t('resultUnavailable')}
+                  aria-label={t('downloadAgain')}
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(item.id)}
+                  aria-label={t('deleteItem')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
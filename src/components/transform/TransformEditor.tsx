@@ -0,0 +1,372 @@
+'use client';
+
+import { useMemo, useState, useCallback } from 'react';
+import { useTranslations } from 'next-intl';
+import { useConverterStore } from '@/stores/converter-store';
+import { applyTransform, type TransformResult } from '@/lib/transform';
+import { VirtualDataPreview } from '@/components/converter/VirtualDataPreview';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Link } from '@/i18n/routing';
+import { Wand2, Filter, Plus, Trash2, AlertCircle } from 'lucide-react';
+import type { ColumnMapping, FilterOperator, FilterRule, TransformOptions } from '@/types';
+
+const FILTER_OPERATORS: FilterOperator[] = [
+  'equals',
+  'notEquals',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'greaterThan',
+  'lessThan',
+  'isEmpty',
+  'isNotEmpty',
+];
+
+/** Operators that do not compare against a value */
+const VALUELESS_OPERATORS: FilterOperator[] = ['isEmpty', 'isNotEmpty'];
+
+const COLUMN_TYPES: NonNullable<ColumnMapping['type']>[] = ['auto', 'string', 'number', 'date', 'boolean'];
+
+const DATE_FORMATS = [
+  { value: 'YYYY-MM-DD', label: 'iso' },
+  { value: 'MM/DD/YYYY', label: 'us' },
+  { value: 'DD/MM/YYYY', label: 'eu' },
+] as const;
+
+/** Select value for columns without a type cast */
+const KEEP_TYPE = 'keep';
+
+/**
+ * Editor for column mappings, filters and cleanup operations with a live
+ * preview of the transformed data. Applying the transform replaces the
+ * parsed data in the store, so the next conversion uses the result, and
+ * records it with the transforms applied before it.
+ */
+export function TransformEditor() {
+  const t = useTranslations('transform');
+  const { parsedData, transforms, setParsedData, setResult } = useConverterStore();
+  const [options, setOptions] = useState<TransformOptions>({});
+
+  const headers = useMemo(() => parsedData?.headers ?? [], [parsedData]);
+
+  const preview = useMemo((): { result?: TransformResult; error?: string } => {
+    if (!parsedData) return {};
+    try {
+      return { result: applyTransform(parsedData, options) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [parsedData, options]);
+
+  const getMapping = useCallback(
+    (column: string): ColumnMapping =>
+      options.columnMappings?.find((mapping) => mapping.original === column) ?? {
+        original: column,
+        mapped: '',
+      },
+    [options.columnMappings]
+  );
+
+  const updateMapping = useCallback((column: string, changes: Partial<ColumnMapping>) => {
+    setOptions((prev) => {
+      const mappings = prev.columnMappings ?? [];
+      const existing = mappings.find((mapping) => mapping.original === column);
+      const updated = { original: column, mapped: '', ...existing, ...changes };
+      return {
+        ...prev,
+        columnMappings: existing
+          ? mappings.map((mapping) => (mapping.original === column ? updated : mapping))
+          : [...mappings, updated],
+      };
+    });
+  }, []);
+
+  const toggleColumn = useCallback(
+    (column: string, included: boolean) => {
+      setOptions((prev) => {
+        const selected = prev.selectedColumns?.length ? prev.selectedColumns : headers;
+        const next = included
+          ? headers.filter((header) => header === column || selected.includes(header))
+          : selected.filter((header) => header !== column);
+        // An empty selection means "all columns", so keep at least one column
+        return next.length > 0 ? { ...prev, selectedColumns: next } : prev;
+      });
+    },
+    [headers]
+  );
+
+  const addFilter = useCallback(() => {
+    setOptions((prev) => ({
+      ...prev,
+      filters: [
+        ...(prev.filters ?? []),
+        { id: crypto.randomUUID(), column: headers[0] ?? '', operator: 'equals', value: '' },
+      ],
+    }));
+  }, [headers]);
+
+  const updateFilter = useCallback((id: string, changes: Partial<FilterRule>) => {
+    setOptions((prev) => ({
+      ...prev,
+      filters: prev.filters?.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)),
+    }));
+  }, []);
+
+  const removeFilter = useCallback((id: string) => {
+    setOptions((prev) => ({
+      ...prev,
+      filters: prev.filters?.filter((rule) => rule.id !== id),
+    }));
+  }, []);
+
+  const handleApply = useCallback(() => {
+    if (!preview.result) return;
+    setParsedData(preview.result.data, [...transforms, options]);
+    setResult(null);
+    setOptions({});
+  }, [preview.result, transforms, options, setParsedData, setResult]);
+
+  const handleReset = useCallback(() => setOptions({}), []);
+
+  if (!parsedData) {
+    return (
+      <Card className="mt-8">
+        <CardContent className="flex flex-col items-center gap-4 pt-6 text-center">
+          <p className="text-muted-foreground">{t('noData')}</p>
+          <Button asChild>
+            <Link href="/">{t('goToConverter')}</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const selectedColumns = options.selectedColumns?.length ? options.selectedColumns : headers;
+
+  return (
+    <div className="mt-8 space-y-6">
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wand2 className="h-5 w-5" />
+              {t('columnMapping')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4" data-testid="column-mappings">
+            {headers.map((column, index) => {
+              const mapping = getMapping(column);
+              const included = selectedColumns.includes(column);
+              return (
+                <div key={column} className="space-y-2 rounded-lg border p-3">
+                  <div className="flex items-center gap-2">
+                    <input
+                      id={`include-${index}`}
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={included}
+                      onChange={(e) => toggleColumn(column, e.target.checked)}
+                    />
+                    <Label htmlFor={`include-${index}`} className="font-medium">
+                      {column}
+                    </Label>
+                  </div>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    <div>
+                      <Label htmlFor={`mapped-${index}`}>{t('newName')}</Label>
+                      <Input
+                        id={`mapped-${index}`}
+                        value={mapping.mapped}
+                        placeholder={column}
+                        disabled={!included}
+                        onChange={(e) => updateMapping(column, { mapped: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor={`type-${index}`}>{t('setType')}</Label>
+                      <Select
+                        value={mapping.type ?? KEEP_TYPE}
+                        disabled={!included}
+                        onValueChange={(value) =>
+                          updateMapping(column, {
+                            type: value === KEEP_TYPE ? undefined : (value as ColumnMapping['type']),
+                          })
+                        }
+                      >
+                        <SelectTrigger id={`type-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={KEEP_TYPE}>{t('keepType')}</SelectItem>
+                          {COLUMN_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {t(`types.${type}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  {mapping.type === 'date' && (
+                    <div>
+                      <Label htmlFor={`date-format-${index}`}>{t('dateFormat')}</Label>
+                      <Select
+                        value={mapping.dateFormat ?? DATE_FORMATS[0].value}
+                        onValueChange={(value) => updateMapping(column, { dateFormat: value })}
+                      >
+                        <SelectTrigger id={`date-format-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DATE_FORMATS.map(({ value, label }) => (
+                            <SelectItem key={value} value={value}>
+                              {t(`dateFormats.${label}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Filter className="h-5 w-5" />
+              {t('operations')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <input
+                id="remove-duplicates"
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={options.removeDuplicates ?? false}
+                onChange={(e) => setOptions((prev) => ({ ...prev, removeDuplicates: e.target.checked }))}
+              />
+              <Label htmlFor="remove-duplicates">{t('removeDuplicates')}</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                id="trim-whitespace"
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={options.trimWhitespace ?? false}
+                onChange={(e) => setOptions((prev) => ({ ...prev, trimWhitespace: e.target.checked }))}
+              />
+              <Label htmlFor="trim-whitespace">{t('trimWhitespace')}</Label>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="font-medium">{t('filterRows')}</h4>
+              {options.filters?.map((rule, index) => (
+                <div key={rule.id} className="grid gap-2 rounded-lg border p-3 sm:grid-cols-3" data-testid="filter-rule">
+                  <div>
+                    <Label htmlFor={`filter-column-${index}`}>{t('filterColumn')}</Label>
+                    <Select value={rule.column} onValueChange={(value) => updateFilter(rule.id, { column: value })}>
+                      <SelectTrigger id={`filter-column-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor={`filter-operator-${index}`}>{t('filterOperator')}</Label>
+                    <Select
+                      value={rule.operator}
+                      onValueChange={(value) => updateFilter(rule.id, { operator: value as FilterOperator })}
+                    >
+                      <SelectTrigger id={`filter-operator-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FILTER_OPERATORS.map((operator) => (
+                          <SelectItem key={operator} value={operator}>
+                            {t(`operators.${operator}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor={`filter-value-${index}`}>{t('filterValue')}</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id={`filter-value-${index}`}
+                        value={rule.value}
+                        disabled={VALUELESS_OPERATORS.includes(rule.operator)}
+                        onChange={(e) => updateFilter(rule.id, { value: e.target.value })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeFilter(rule.id)}
+                        aria-label={t('removeFilter')}
+                      >
+                        <Trash2 className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+              <Button variant="outline" onClick={addFilter} disabled={headers.length === 0}>
+                <Plus className="mr-2 h-4 w-4" aria-hidden="true" />
+                {t('addFilter')}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="flex flex-col gap-4 pt-6 sm:flex-row sm:items-center sm:justify-between">
+          {preview.error ? (
+            <div
+              className="flex items-center gap-2 rounded-lg border border-destructive bg-destructive/10 p-3 text-sm text-destructive"
+              role="alert"
+            >
+              <AlertCircle className="h-4 w-4" aria-hidden="true" />
+              {preview.error}
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground" data-testid="transform-stats">
+              <span>{t('rowsFiltered', { count: preview.result?.rowsFiltered ?? 0 })}</span>
+              <span>{t('duplicatesRemoved', { count: preview.result?.duplicatesRemoved ?? 0 })}</span>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleApply} disabled={!preview.result}>
+              {t('applyTransform')}
+            </Button>
+            <Button variant="outline" onClick={handleReset}>
+              {t('resetTransform')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {preview.result && <VirtualDataPreview data={preview.result.data} maxHeight={400} />}
+    </div>
+  );
+}
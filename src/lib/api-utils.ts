@@ -193,4 +193,5 @@ export function validateFileSize(
 // ============================================
 
 export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+export const MAX_BATCH_SIZE = 100 * 1024 * 1024; // 100MB across all files of a batch
 export const MAX_PREVIEW_ROWS = 100;
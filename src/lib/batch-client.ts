@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Browser-side batch conversion.
+ *
+ * Converts the files of a batch in a Web Worker, so that server code using
+ * `lib/batch` never pulls in the worker.
+ *
+ * @module lib/batch-client
+ */
+
+import { convertFile } from '@/lib/converter';
+import { convertWithWorker } from '@/lib/converter/batch-worker-wrapper';
+import type { ConversionResult, ConvertOptions } from '@/types';
+
+/**
+ * Converts one file of a batch.
+ *
+ * Runs in a Web Worker when available so large files do not block the UI,
+ * and on the main thread otherwise.
+ *
+ * @param file - File to convert
+ * @param options - Conversion options shared by the batch
+ * @param onProgress - Called with the progress percentage
+ * @returns The conversion result; failures are reported with `success: false`
+ */
+export async function convertBatchFile(
+  file: File,
+  options: ConvertOptions,
+  onProgress?: (progress: number) => void
+): Promise<ConversionResult> {
+  const data = await file.arrayBuffer();
+  onProgress?.(10);
+
+  if (typeof Worker !== 'undefined') {
+    return convertWithWorker(data, file.name, options, onProgress);
+  }
+  return convertFile(data, file.name, options, onProgress);
+}
@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Batch conversion helpers.
+ *
+ * Converts several files with the same options, limits how many conversions
+ * run at once and packages the results into a single ZIP archive. Used by
+ * both the batch API route and the browser; the Web Worker path lives in
+ * `lib/batch-client`.
+ *
+ * @module lib/batch
+ */
+
+import JSZip from 'jszip';
+import {
+  convertData,
+  detectFormatFromFilename,
+  getOutputFilename,
+  parseData,
+} from '@/lib/converter';
+import { ConversionError, ErrorCodes, FileError, ParseError, isAppError } from '@/lib/errors';
+import type {
+  BatchFile,
+  BatchManifest,
+  BatchManifestEntry,
+  ConvertOptions,
+} from '@/types';
+
+/** Maximum number of files in one batch */
+export const MAX_BATCH_FILES = 10;
+
+/** Number of files converted at the same time */
+export const BATCH_CONCURRENCY = 3;
+
+/**
+ * Runs a task for every item with at most `limit` tasks in flight.
+ *
+ * Tasks are started in item order. Each task should handle its own errors;
+ * a rejected task rejects the returned promise.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent tasks
+ * @param task - Async task to run for each item
+ *
+ * @example
+ * ```typescript
+ * await runWithConcurrency(files, 3, async (file) => {
+ *   results.push(await convertBatchFile(file, options));
+ * });
+ * ```
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runNext = async (): Promise<void> => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+
+  const runners = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, runNext);
+  await Promise.all(runners);
+}
+
+/**
+ * Returns a file name that is not in `used`, adding a counter before the
+ * extension when needed (`data.csv`, `data (1).csv`, ...), and records it.
+ *
+ * @param name - Preferred file name
+ * @param used - Names already taken (updated in place)
+ * @returns A unique file name
+ */
+export function getUniqueFilename(name: string, used: Set<string>): string {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+
+  let candidate = name;
+  for (let counter = 1; used.has(candidate); counter++) {
+    candidate = `${base} (${counter})${extension}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+/** Name of the manifest file inside batch archives */
+export const BATCH_MANIFEST_NAME = 'manifest.json';
+
+/**
+ * Chooses the archive file name of every successfully converted file.
+ *
+ * Output names are derived from the input names and made unique, so two
+ * inputs such as `data.csv` and `data.tsv` do not overwrite each other.
+ *
+ * @param files - Batch files
+ * @param reserved - Names that must not be used, e.g. the manifest
+ * @returns Output file names keyed by batch file id
+ */
+export function assignOutputFilenames(
+  files: BatchFile[],
+  reserved: string[] = []
+): Map<string, string> {
+  const used = new Set(reserved);
+  const names = new Map<string, string>();
+
+  for (const item of files) {
+    if (item.status !== 'success' || !item.result?.data) continue;
+    names.set(item.id, getUniqueFilename(getOutputFilename(item.file.name, item.result.format), used));
+  }
+
+  return names;
+}
+
+/**
+ * Packages the converted files of a batch into a ZIP archive.
+ *
+ * Files that have not been converted successfully are skipped. When a
+ * manifest is given it is added as {@link BATCH_MANIFEST_NAME}.
+ *
+ * @param files - Batch files
+ * @param manifest - Optional JSON manifest describing the batch
+ * @returns The ZIP archive
+ */
+export async function createBatchArchive(files: BatchFile[], manifest?: object): Promise<Blob> {
+  const zip = new JSZip();
+  const names = assignOutputFilenames(files, manifest ? [BATCH_MANIFEST_NAME] : []);
+
+  for (const item of files) {
+    const name = names.get(item.id);
+    const data = item.result?.data;
+    if (!name || data === undefined) continue;
+    zip.file(name, typeof data === 'string' ? data : await data.arrayBuffer());
+  }
+
+  if (manifest) {
+    zip.file(BATCH_MANIFEST_NAME, JSON.stringify(manifest, null, 2));
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+}
+
+/**
+ * Converts the files of a batch one after another and packages the outputs
+ * together with a manifest of per-file results.
+ *
+ * A file that is too large or fails to parse or convert does not stop the
+ * batch; it is listed as failed in the manifest with an error code.
+ *
+ * @param files - Files to convert
+ * @param getOptions - Returns the conversion options of the file at an index
+ * @param limits - Request id for the manifest and the maximum size of one file
+ * @returns The ZIP archive (outputs plus {@link BATCH_MANIFEST_NAME}) and the manifest
+ */
+export async function convertBatch(
+  files: File[],
+  getOptions: (index: number) => ConvertOptions,
+  { requestId, maxFileSize }: { requestId: string; maxFileSize: number }
+): Promise<{ archive: Blob; manifest: BatchManifest }> {
+  const items: BatchFile[] = [];
+  const errorCodes = new Map<string, string>();
+
+  // Files are converted sequentially to bound server memory use
+  for (const [index, file] of files.entries()) {
+    const options = getOptions(index);
+    const item: BatchFile = { id: String(index), file, status: 'pending' };
+    items.push(item);
+
+    try {
+      if (file.size > maxFileSize) {
+        const maxSizeMB = Math.round(maxFileSize / (1024 * 1024));
+        throw new FileError(
+          `File size exceeds maximum allowed size of ${maxSizeMB}MB`,
+          ErrorCodes.FILE_TOO_LARGE,
+          { fileName: file.name, fileSize: file.size, maxSize: maxFileSize }
+        );
+      }
+
+      const format = options.inputFormat ?? detectFormatFromFilename(file.name) ?? undefined;
+      const parsedData = await parseData(await file.arrayBuffer(), format, options);
+      if (parsedData.rows.length === 0 && parsedData.headers.length === 0) {
+        throw new ParseError('No data to convert', ErrorCodes.EMPTY_DATA);
+      }
+
+      const result = await convertData(parsedData, options);
+      if (!result.success) {
+        throw new ConversionError(result.error || 'Conversion failed');
+      }
+
+      item.status = 'success';
+      item.result = result;
+    } catch (error) {
+      item.status = 'failed';
+      item.error = error instanceof Error ? error.message : 'Conversion failed';
+      errorCodes.set(item.id, isAppError(error) ? error.code : ErrorCodes.CONVERSION_FAILED);
+    }
+  }
+
+  const outputNames = assignOutputFilenames(items, [BATCH_MANIFEST_NAME]);
+  const entries = items.map((item, index): BatchManifestEntry => {
+    if (item.status === 'success' && item.result) {
+      return {
+        fileName: item.file.name,
+        status: 'success',
+        outputFileName: outputNames.get(item.id),
+        inputFormat: item.result.metadata?.inputFormat,
+        outputFormat: item.result.format,
+        rowCount: item.result.metadata?.rowCount,
+        columnCount: item.result.metadata?.columnCount,
+      };
+    }
+    return {
+      fileName: item.file.name,
+      status: 'failed',
+      outputFormat: getOptions(index).outputFormat,
+      error: {
+        code: errorCodes.get(item.id) ?? ErrorCodes.CONVERSION_FAILED,
+        message: item.error ?? 'Conversion failed',
+      },
+    };
+  });
+
+  const succeeded = entries.filter((entry) => entry.status === 'success').length;
+  const manifest: BatchManifest = {
+    requestId,
+    summary: { total: entries.length, succeeded, failed: entries.length - succeeded },
+    files: entries,
+  };
+
+  return { archive: await createBatchArchive(items, manifest), manifest };
+}
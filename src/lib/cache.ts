@@ -2,6 +2,8 @@
  * LRU-like cache with size limits and TTL support
  */
 
+import { createHash } from 'crypto';
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
@@ -16,17 +18,16 @@ interface CacheOptions {
   maxAge?: number;
 }
 
+/** Raw request input: text or uploaded file bytes */
+type CacheInput = string | ArrayBuffer;
+
 /**
- * Simple hash function for generating cache keys
+ * SHA-256 hash of the full input, so inputs sharing a prefix never collide
  */
-function hash(str: string): string {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return Math.abs(hash).toString(36);
+function hash(input: CacheInput): string {
+  return createHash('sha256')
+    .update(typeof input === 'string' ? input : new Uint8Array(input))
+    .digest('hex');
 }
 
 /**
@@ -37,6 +38,8 @@ class ConversionCache {
   private maxSize: number;
   private maxAge: number;
   private currentSize = 0;
+  private hits = 0;
+  private misses = 0;
 
   constructor(options: CacheOptions = {}) {
     this.maxSize = options.maxSize ?? 50 * 1024 * 1024; // 50MB default
@@ -46,11 +49,9 @@ class ConversionCache {
   /**
    * Generate a unique cache key from input and options
    */
-  private generateKey(input: string, options: Record<string, unknown>): string {
-    const optionsStr = JSON.stringify(options);
-    // Use a hash of input + options for efficiency
-    const inputHash = hash(input.slice(0, 1000) + input.length.toString());
-    const optionsHash = hash(optionsStr);
+  private generateKey(input: CacheInput, options: Record<string, unknown>): string {
+    const inputHash = hash(input);
+    const optionsHash = hash(JSON.stringify(options));
     return `${inputHash}_${optionsHash}`;
   }
 
@@ -58,8 +59,20 @@ class ConversionCache {
    * Get estimated size of data in bytes
    */
   private getSize(data: unknown): number {
+    if (data instanceof ArrayBuffer) {
+      return data.byteLength;
+    }
     try {
-      return JSON.stringify(data).length * 2; // UTF-16 characters
+      // Binary buffers serialize as {}, so count their bytes separately
+      let binarySize = 0;
+      const json = JSON.stringify(data, (_key, value) => {
+        if (value instanceof ArrayBuffer) {
+          binarySize += value.byteLength;
+          return undefined;
+        }
+        return value;
+      });
+      return (json?.length ?? 0) * 2 + binarySize; // UTF-16 characters
     } catch {
       return 0;
     }
@@ -111,11 +124,12 @@ class ConversionCache {
   /**
    * Get cached data
    */
-  get<T>(input: string, options: Record<string, unknown> = {}): T | null {
+  get<T>(input: CacheInput, options: Record<string, unknown> = {}): T | null {
     const key = this.generateKey(input, options);
     const entry = this.cache.get(key);
 
     if (!entry) {
+      this.misses++;
       return null;
     }
 
@@ -123,11 +137,13 @@ class ConversionCache {
     if (Date.now() - entry.timestamp > this.maxAge) {
       this.cache.delete(key);
       this.currentSize -= entry.size;
+      this.misses++;
       return null;
     }
 
     // Update timestamp (LRU behavior)
     entry.timestamp = Date.now();
+    this.hits++;
 
     return entry.data as T;
   }
@@ -135,7 +151,7 @@ class ConversionCache {
   /**
    * Set cached data
    */
-  set<T>(input: string, options: Record<string, unknown>, data: T): void {
+  set<T>(input: CacheInput, options: Record<string, unknown>, data: T): void {
     const key = this.generateKey(input, options);
     const size = this.getSize(data);
 
@@ -172,7 +188,7 @@ class ConversionCache {
   /**
    * Check if key exists in cache
    */
-  has(input: string, options: Record<string, unknown> = {}): boolean {
+  has(input: CacheInput, options: Record<string, unknown> = {}): boolean {
     const key = this.generateKey(input, options);
     const entry = this.cache.get(key);
 
@@ -196,6 +212,8 @@ class ConversionCache {
   clear(): void {
     this.cache.clear();
     this.currentSize = 0;
+    this.hits = 0;
+    this.misses = 0;
   }
 
   /**
@@ -206,19 +224,26 @@ class ConversionCache {
     currentSize: number;
     maxSize: number;
     utilization: number;
+    hits: number;
+    misses: number;
+    hitRate: number;
   } {
+    const lookups = this.hits + this.misses;
     return {
       entries: this.cache.size,
       currentSize: this.currentSize,
       maxSize: this.maxSize,
       utilization: this.currentSize / this.maxSize,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
     };
   }
 
   /**
    * Remove a specific entry
    */
-  delete(input: string, options: Record<string, unknown> = {}): boolean {
+  delete(input: CacheInput, options: Record<string, unknown> = {}): boolean {
     const key = this.generateKey(input, options);
     const entry = this.cache.get(key);
 
@@ -236,4 +261,4 @@ export const conversionCache = new ConversionCache();
 
 // Export class for custom instances
 export { ConversionCache };
-export type { CacheOptions, CacheEntry };
+export type { CacheOptions, CacheEntry, CacheInput };
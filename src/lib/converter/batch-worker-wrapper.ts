@@ -0,0 +1,117 @@
+/**
+ * Wrapper for the batch conversion Web Worker
+ * Provides a Promise-based API for worker communication
+ */
+
+import type { ConversionResult, ConvertOptions } from '@/types';
+import type { WorkerResponse } from '@/workers/batch-worker';
+
+// Worker instance (lazy initialized)
+let worker: Worker | null = null;
+
+// Track pending operations
+const pendingOperations = new Map<
+  string,
+  {
+    resolve: (result: ConversionResult) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: number) => void;
+  }
+>();
+
+/**
+ * Generate unique operation ID
+ */
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Get or create worker instance
+ */
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../../workers/batch-worker.ts', import.meta.url));
+
+    // Set up message handler
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const { type, id, progress, result, error } = event.data;
+      const pending = pendingOperations.get(id);
+
+      if (!pending) {
+        return;
+      }
+
+      switch (type) {
+        case 'progress':
+          if (pending.onProgress && progress !== undefined) {
+            pending.onProgress(progress);
+          }
+          break;
+
+        case 'complete':
+          if (result) {
+            pendingOperations.delete(id);
+            pending.resolve(result);
+          }
+          break;
+
+        case 'error':
+          pendingOperations.delete(id);
+          pending.reject(new Error(error || 'Worker error'));
+          break;
+      }
+    };
+
+    // Handle worker errors
+    worker.onerror = (event) => {
+      // Reject all pending operations
+      for (const [id, pending] of pendingOperations.entries()) {
+        pending.reject(new Error(`Worker error: ${event.message}`));
+        pendingOperations.delete(id);
+      }
+
+      // Reset worker
+      worker?.terminate();
+      worker = null;
+    };
+  }
+
+  return worker;
+}
+
+/**
+ * Convert a file using the batch Web Worker
+ */
+export function convertWithWorker(
+  data: ArrayBuffer,
+  fileName: string,
+  options: ConvertOptions,
+  onProgress?: (progress: number) => void
+): Promise<ConversionResult> {
+  return new Promise((resolve, reject) => {
+    const id = generateId();
+    const w = getWorker();
+
+    pendingOperations.set(id, { resolve, reject, onProgress });
+
+    // Transfer the file bytes instead of copying them
+    w.postMessage({ type: 'convert', id, data, fileName, options }, [data]);
+  });
+}
+
+/**
+ * Terminate the worker and clean up
+ */
+export function terminateBatchWorker(): void {
+  if (worker) {
+    worker.terminate();
+    worker = null;
+  }
+
+  // Reject all pending operations
+  for (const [id, pending] of pendingOperations.entries()) {
+    pending.reject(new Error('Worker terminated'));
+    pendingOperations.delete(id);
+  }
+}
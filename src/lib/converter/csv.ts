@@ -1,12 +1,16 @@
 import Papa from 'papaparse';
 import type { ParsedData, CsvOptions } from '@/types';
 import { ParseError, ErrorCodes } from '@/lib/errors';
+import { createFormulaSanitizer, type FormulaStats } from './formula';
+
+/** Strings written unquoted under the 'nonNumeric' quoting policy */
+const NUMERIC_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
 
 /**
  * Parses CSV/TSV data into a structured format with headers and rows.
  *
  * Uses PapaParse library for robust CSV parsing with support for:
- * - Custom delimiters (comma, semicolon, tab, pipe)
+ * - Custom delimiters, including multi-character ones
  * - Header row detection
  * - Empty line handling
  * - Value trimming
@@ -18,6 +22,8 @@ import { ParseError, ErrorCodes } from '@/lib/errors';
  * @param options.hasHeader - Whether first row contains headers (default: true)
  * @param options.skipEmptyLines - Skip empty lines when parsing (default: false)
  * @param options.trimValues - Trim whitespace from cell values (default: false)
+ * @param options.quoteChar - Character enclosing quoted fields (default: '"')
+ * @param options.escapeChar - Character escaping the quote character inside quoted fields (default: the quote character)
  * @returns Parsed data with headers, rows, format, and metadata
  * @throws {ParseError} If the CSV is invalid or cannot be parsed
  *
@@ -56,6 +62,8 @@ export function parseCsv(
     hasHeader = true,
     skipEmptyLines = false,
     trimValues = false,
+    quoteChar = '"',
+    escapeChar = quoteChar,
   } = options;
 
   if (!data || data.trim() === '') {
@@ -74,6 +82,8 @@ export function parseCsv(
 
   const result = Papa.parse(data, {
     delimiter,
+    quoteChar,
+    escapeChar,
     header: hasHeader,
     skipEmptyLines,
     transformHeader: trimValues ? (header: string) => header.trim() : undefined,
@@ -132,15 +142,36 @@ export function parseCsv(
  * Writes data to CSV format.
  *
  * Converts structured data (headers and rows) back to CSV string format.
- * Handles special characters by quoting fields that contain:
- * - The delimiter character
- * - Double quotes (escaped by doubling)
- * - Newline characters
+ * With the default 'minimal' quoting policy, fields are quoted when they
+ * contain the delimiter, the quote character or a line break. Other policies:
+ * - 'all': every field is quoted, including empty ones
+ * - 'nonNumeric': every non-empty field except numbers is quoted
+ * - 'none': nothing is quoted; delimiters, quotes, line breaks and escape
+ *   characters inside fields are prefixed with `escapeChar`. Without an
+ *   `escapeChar` distinct from the quote character such fields cannot be
+ *   escaped, so they are quoted as with 'minimal' rather than shifting columns
+ *
+ * Quote characters inside quoted fields are escaped with `escapeChar`, which
+ * defaults to the quote character itself (doubling it). A distinct escape
+ * character is escaped as well, and makes a field containing it quoted.
+ *
+ * With `formulaSanitization`, cells a spreadsheet would evaluate as formulas
+ * are neutralized first; see `sanitizeFormula`. The cells changed are
+ * counted in `stats`.
  *
  * @param headers - Array of column header names
  * @param rows - Array of row objects with values keyed by header names
  * @param options - Writing options
- * @param options.delimiter - Column delimiter character (default: ',')
+ * @param options.delimiter - Column delimiter, one or more characters (default: ',')
+ * @param options.hasHeader - Write the header row (default: true)
+ * @param options.quoteChar - Character enclosing quoted fields (default: '"')
+ * @param options.escapeChar - Character escaping quote characters (default: the quote character)
+ * @param options.quoting - When fields are quoted: 'minimal', 'all', 'nonNumeric' or 'none' (default: 'minimal')
+ * @param options.lineTerminator - Line ending, 'lf' or 'crlf' (default: 'lf')
+ * @param options.formulaSanitization - Neutralize formula cells: 'off', 'prefix' or 'strip' (default: 'off')
+ * @param options.outputEncoding - Target encoding; 'utf-8-bom' prefixes a byte order
+ *   mark so Excel opens the file as UTF-8. Byte encodings are applied by `encodeText`.
+ * @param stats - Tally of the cells neutralized by `formulaSanitization`, if needed
  * @returns CSV formatted string
  *
  * @example
@@ -161,37 +192,106 @@ export function parseCsv(
  * );
  * // Returns: 'name,description\nProduct,"Contains, comma"'
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Quote text only, with Windows line endings and no header
+ * const csv = writeCsv(['name', 'age'], [{ name: 'John', age: 30 }], {
+ *   quoting: 'nonNumeric',
+ *   lineTerminator: 'crlf',
+ *   hasHeader: false,
+ * });
+ * // Returns: '"John",30'
+ * ```
  */
 export function writeCsv(
   headers: string[],
   rows: Record<string, unknown>[],
-  options: CsvOptions = {}
+  options: CsvOptions = {},
+  stats?: FormulaStats
 ): string {
-  const { delimiter = ',' } = options;
+  const {
+    hasHeader = true,
+    quoteChar = '"',
+    escapeChar = quoteChar,
+    quoting = 'minimal',
+    lineTerminator = 'lf',
+    formulaSanitization = 'off',
+    outputEncoding = 'utf-8',
+  } = options;
+  // An empty delimiter would merge the columns
+  const delimiter = options.delimiter || ',';
 
   if (headers.length === 0) {
     return '';
   }
 
-  const escapeField = (field: unknown): string => {
-    if (field === null || field === undefined) {
-      return '';
-    }
-    const str = String(field);
-    // Check if field needs quoting
-    if (str.includes(delimiter) || str.includes('"') || str.includes('\n')) {
-      // Escape quotes by doubling them
-      return `"${str.replace(/"/g, '""')}"`;
+  // A distinct escape character must itself be escaped, or it would swallow
+  // the closing quote of a field such as "C:\"
+  const hasEscapeChar = escapeChar !== quoteChar;
+
+  const quote = (str: string): string =>
+    `${quoteChar}${escapeSpecials(str, hasEscapeChar ? [escapeChar, quoteChar] : [quoteChar], escapeChar)}${quoteChar}`;
+
+  const needsQuotes = (str: string): boolean =>
+    str.includes(delimiter) ||
+    str.includes(quoteChar) ||
+    str.includes('\n') ||
+    str.includes('\r') ||
+    (hasEscapeChar && str.includes(escapeChar));
+
+  const sanitize = createFormulaSanitizer(formulaSanitization, stats);
+
+  const escapeField = (value: unknown): string => {
+    const field = sanitize(value);
+    const isEmpty = field === null || field === undefined;
+    const str = isEmpty ? '' : String(field);
+
+    switch (quoting) {
+      case 'all':
+        return quote(str);
+      case 'nonNumeric':
+        return isEmpty || typeof field === 'number' || typeof field === 'bigint' || NUMERIC_PATTERN.test(str)
+          ? str
+          : quote(str);
+      case 'none':
+        if (!hasEscapeChar) {
+          return needsQuotes(str) ? quote(str) : str;
+        }
+        return escapeSpecials(str, [escapeChar, delimiter, quoteChar, '\r', '\n'], escapeChar);
+      default:
+        return needsQuotes(str) ? quote(str) : str;
     }
-    return str;
   };
 
-  const headerLine = headers.map(escapeField).join(delimiter);
-  const dataLines = rows.map((row) =>
+  const lines = rows.map((row) =>
     headers.map((header) => escapeField(row[header])).join(delimiter)
   );
+  if (hasHeader) {
+    lines.unshift(headers.map(escapeField).join(delimiter));
+  }
 
-  return [headerLine, ...dataLines].join('\n');
+  const csv = lines.join(lineTerminator === 'crlf' ? '\r\n' : '\n');
+  return outputEncoding === 'utf-8-bom' ? `\uFEFF${csv}` : csv;
+}
+
+/**
+ * Prefixes every occurrence of the given sequences with an escape character.
+ * @internal
+ */
+function escapeSpecials(str: string, specials: string[], escapeChar: string): string {
+  let result = '';
+  for (let i = 0; i < str.length; ) {
+    const special = specials.find((s) => str.startsWith(s, i));
+    if (special) {
+      result += `${escapeChar}${special}`;
+      i += special.length;
+    } else {
+      result += str[i];
+      i++;
+    }
+  }
+  return result;
 }
 
 /**
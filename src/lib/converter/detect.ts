@@ -13,8 +13,12 @@ import type { InputFormat } from '@/types';
  * Detects the format of data by analyzing its content.
  *
  * Uses heuristics to identify the most likely format:
+ * - JSON Lines: Two or more lines that are each a complete `{ }` object
  * - JSON: Data starts and ends with { } or [ ]
+ * - HTML: Data starts with a doctype or `<html>`, or is markup containing a `<table>`
  * - XML: Data starts with `<?xml` or `<` and has closing tags
+ * - SQL: First statement (after comments) is CREATE TABLE, INSERT INTO or a dump preamble
+ * - YAML: Starts with a document marker, or every line is a `key: value` pair, list item or indented block
  * - TSV: Tab characters detected as delimiter
  * - CSV: Default fallback for other text data
  *
@@ -23,8 +27,12 @@ import type { InputFormat } from '@/types';
  *
  * @example
  * ```typescript
+ * detectFormat('{"id": 1}\n{"id": 2}'); // Returns 'jsonl'
  * detectFormat('[{"name": "John"}]');  // Returns 'json'
+ * detectFormat('<table><tr><td>1</td></tr></table>'); // Returns 'html'
  * detectFormat('<root><item/></root>'); // Returns 'xml'
+ * detectFormat("INSERT INTO t VALUES (1, 'a');"); // Returns 'sql'
+ * detectFormat('name: John\nage: 30');  // Returns 'yaml'
  * detectFormat('name\tage\nJohn\t30');  // Returns 'tsv'
  * detectFormat('name,age\nJohn,30');    // Returns 'csv'
  * ```
@@ -32,6 +40,11 @@ import type { InputFormat } from '@/types';
 export function detectFormat(data: string): InputFormat {
   const trimmed = data.trim();
 
+  // Check for JSON Lines before JSON, since both start and end with braces
+  if (isJsonLines(trimmed)) {
+    return 'jsonl';
+  }
+
   // Check for JSON
   if (
     (trimmed.startsWith('[') && trimmed.endsWith(']')) ||
@@ -45,6 +58,11 @@ export function detectFormat(data: string): InputFormat {
     }
   }
 
+  // Check for HTML before XML, since both are markup
+  if (isHtmlDocument(trimmed)) {
+    return 'html';
+  }
+
   // Check for XML
   if (trimmed.startsWith('<?xml') || trimmed.startsWith('<')) {
     const hasClosingTag = /<\/\w+>/.test(trimmed);
@@ -53,6 +71,16 @@ export function detectFormat(data: string): InputFormat {
     }
   }
 
+  // Check for SQL dumps
+  if (isSqlDump(trimmed)) {
+    return 'sql';
+  }
+
+  // Check for YAML
+  if (isYamlDocument(trimmed)) {
+    return 'yaml';
+  }
+
   // Check for TSV (tab-separated)
   const delimiter = detectDelimiter(trimmed);
   if (delimiter === '\t') {
@@ -63,6 +91,104 @@ export function detectFormat(data: string): InputFormat {
   return 'csv';
 }
 
+/**
+ * Checks if text looks like a SQL dump.
+ *
+ * Skips leading comments (and the semicolons after MySQL version comments), then requires the first statement to be a typical
+ * dump statement and the text to contain at least one CREATE TABLE or
+ * INSERT INTO statement.
+ *
+ * @param data - The trimmed text to analyze
+ * @returns True if the text is most likely SQL
+ * @internal
+ */
+function isSqlDump(data: string): boolean {
+  const withoutComments = data
+    .slice(0, 4096)
+    .replace(/^(\s*(--[^\n]*(\n|$)|#[^\n]*(\n|$)|\/\*[\s\S]*?\*\/|;))*/, '')
+    .trimStart();
+
+  const startsLikeSql =
+    /^(CREATE\s+(TEMPORARY\s+)?TABLE|INSERT\s+(IGNORE\s+)?INTO|REPLACE\s+INTO|DROP\s+TABLE|SET\s+\w+|LOCK\s+TABLES|START\s+TRANSACTION|BEGIN\s*;|USE\s+)/i.test(
+      withoutComments
+    );
+
+  return startsLikeSql && /\b(CREATE\s+(TEMPORARY\s+)?TABLE|INSERT\s+(IGNORE\s+)?INTO|REPLACE\s+INTO)\b/i.test(data);
+}
+
+/**
+ * Checks if text looks like an HTML page or fragment.
+ *
+ * The text must start with a doctype or `<html>` tag, or be markup that does
+ * not start with an XML declaration and contains a `<table>` element.
+ *
+ * @param data - The trimmed text to analyze
+ * @returns True if the text is most likely HTML
+ * @internal
+ */
+function isHtmlDocument(data: string): boolean {
+  if (/^<(!doctype\s+html|html)[\s>]/i.test(data)) return true;
+  return data.startsWith('<') && !data.startsWith('<?xml') && /<table[\s>]/i.test(data);
+}
+
+/**
+ * Checks if text looks like JSON Lines.
+ *
+ * Ignoring blank lines, there must be at least two lines, each starting with
+ * `{` and ending with `}`, and the first of them must parse as JSON. A
+ * pretty-printed JSON object fails this check since its first line is a lone
+ * `{`.
+ *
+ * @param data - The trimmed text to analyze
+ * @returns True if the text is most likely JSON Lines
+ * @internal
+ */
+function isJsonLines(data: string): boolean {
+  const lines = data
+    .split('\n')
+    .slice(0, 20)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  if (lines.length < 2 || !lines.every((line) => line.startsWith('{') && line.endsWith('}'))) {
+    return false;
+  }
+
+  try {
+    JSON.parse(lines[0]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks if text looks like a YAML document.
+ *
+ * Ignoring comments and blank lines, the text must start with a `---` or
+ * `%YAML` marker, or start with a `key:` pair (optionally as a list item)
+ * with every other line being a pair, a list item, a document marker or an
+ * indented line.
+ *
+ * @param data - The trimmed text to analyze
+ * @returns True if the text is most likely YAML
+ * @internal
+ */
+function isYamlDocument(data: string): boolean {
+  const lines = data
+    .split('\n')
+    .slice(0, 20)
+    .filter((line) => line.trim() && !line.trimStart().startsWith('#'));
+
+  if (lines.length === 0) return false;
+  if (/^(---|%YAML)(\s|$)/.test(lines[0])) return true;
+
+  return (
+    /^(- )?[\w.-]+:(\s|$)/.test(lines[0]) &&
+    lines.every((line) => /^(\s|-(\s|$)|---(\s|$)|[\w.-]+:(\s|$))/.test(line))
+  );
+}
+
 /**
  * Detects the most likely delimiter used in delimited text data.
  *
@@ -154,6 +280,14 @@ export function detectFormatFromFilename(filename: string): InputFormat | null {
     xlsx: 'xlsx',
     xls: 'xls',
     xml: 'xml',
+    sql: 'sql',
+    yaml: 'yaml',
+    yml: 'yaml',
+    jsonl: 'jsonl',
+    ndjson: 'jsonl',
+    parquet: 'parquet',
+    html: 'html',
+    htm: 'html',
   };
 
   return formatMap[ext || ''] || null;
@@ -185,7 +319,49 @@ export function detectFormatFromMimeType(mimeType: string): InputFormat | null {
     'application/vnd.ms-excel': 'xls',
     'application/xml': 'xml',
     'text/xml': 'xml',
+    'application/sql': 'sql',
+    'text/x-sql': 'sql',
+    'application/yaml': 'yaml',
+    'application/x-yaml': 'yaml',
+    'text/yaml': 'yaml',
+    'text/x-yaml': 'yaml',
+    'application/x-ndjson': 'jsonl',
+    'application/jsonl': 'jsonl',
+    'application/x-jsonlines': 'jsonl',
+    'application/vnd.apache.parquet': 'parquet',
+    'text/html': 'html',
   };
 
   return mimeMap[mimeType] || null;
 }
+
+/**
+ * Detects a binary format from its file signature.
+ *
+ * - XLSX: ZIP container (`PK\x03\x04`)
+ * - XLS: OLE2 compound document (`D0 CF 11 E0`)
+ * - Parquet: `PAR1` magic bytes
+ *
+ * @param data - The raw file bytes
+ * @returns 'xlsx', 'xls', 'parquet', or null if the bytes are not a known binary container
+ *
+ * @example
+ * ```typescript
+ * detectBinaryFormat(await file.arrayBuffer()); // Returns 'xlsx' for Excel 2007+ files
+ * ```
+ */
+export function detectBinaryFormat(data: ArrayBuffer): 'xlsx' | 'xls' | 'parquet' | null {
+  const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 4));
+  if (bytes.length < 4) return null;
+
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) {
+    return 'xlsx';
+  }
+  if (bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0) {
+    return 'xls';
+  }
+  if (bytes[0] === 0x50 && bytes[1] === 0x41 && bytes[2] === 0x52 && bytes[3] === 0x31) {
+    return 'parquet';
+  }
+  return null;
+}
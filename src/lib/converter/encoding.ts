@@ -0,0 +1,299 @@
+/**
+ * @fileoverview Character encoding detection and transcoding for text inputs.
+ *
+ * Text files produced by legacy systems are frequently not UTF-8. This module
+ * sniffs byte order marks, falls back to heuristics for UTF-16, Shift_JIS and
+ * Windows-1252 when no BOM is present, and decodes the bytes to a string.
+ * It also encodes writer output into the byte encodings offered for export.
+ *
+ * @module lib/converter/encoding
+ */
+
+import { ValidationError, ErrorCodes } from '@/lib/errors';
+import type { OutputEncoding } from '@/types';
+
+/**
+ * Result of detecting the encoding of a byte buffer.
+ */
+export interface DetectedEncoding {
+  /** Canonical WHATWG encoding name (e.g. 'utf-8', 'shift_jis') */
+  encoding: string;
+  /** True if the buffer starts with a byte order mark */
+  bom: boolean;
+}
+
+/**
+ * Result of decoding a byte buffer to text.
+ */
+export interface DecodedText extends DetectedEncoding {
+  /** Decoded text, without the byte order mark */
+  text: string;
+}
+
+/** Number of leading bytes inspected by the UTF-16 heuristic */
+const UTF16_SAMPLE_SIZE = 4096;
+
+/** Share of NUL bytes in one byte lane that marks a BOM-less UTF-16 file */
+const UTF16_NUL_RATIO = 0.3;
+
+/** Labels accepted by the UI that TextDecoder does not recognise */
+const ENCODING_ALIASES: Record<string, string> = {
+  utf16: 'utf-16le',
+  'utf-16': 'utf-16le',
+  sjis: 'shift_jis',
+  cp1252: 'windows-1252',
+};
+
+/** Full-width kana, CJK ideographs and full-width forms */
+const JAPANESE_CHAR_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uff01-\uff60]/g;
+
+/** Latin-1 accented letters */
+const LATIN_LETTER_PATTERN = /[\u00c0-\u00ff]/g;
+
+/**
+ * Windows-1252 code points for bytes 0x80-0x9F. Other bytes map to the
+ * code point with the same value. Undefined bytes are null.
+ */
+const WINDOWS_1252_HIGH: (number | null)[] = [
+  0x20ac, null, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021,
+  0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, null, 0x017d, null,
+  null, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014,
+  0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, null, 0x017e, 0x0178,
+];
+
+/**
+ * Detects the character encoding of a byte buffer.
+ *
+ * A byte order mark always wins. Without one, the buffer is checked in this
+ * order:
+ * - UTF-16 (LE/BE): a large share of NUL bytes in alternating positions
+ * - UTF-8: the whole buffer is valid UTF-8 (this includes plain ASCII)
+ * - Shift_JIS: the buffer is valid Shift_JIS and decodes to more Japanese
+ *   characters than the Windows-1252 reading has accented Latin letters
+ * - Windows-1252 otherwise
+ *
+ * @param data - Raw bytes to inspect
+ * @returns The detected encoding and whether a BOM is present
+ *
+ * @example
+ * ```typescript
+ * detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]));
+ * // { encoding: 'utf-8', bom: true }
+ *
+ * detectEncoding(new Uint8Array([0x63, 0x61, 0x66, 0xe9]));
+ * // { encoding: 'windows-1252', bom: false }
+ * ```
+ */
+export function detectEncoding(data: ArrayBuffer | Uint8Array): DetectedEncoding {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  const bomEncoding = sniffBom(bytes);
+  if (bomEncoding) {
+    return { encoding: bomEncoding, bom: true };
+  }
+
+  const utf16 = detectUtf16(bytes);
+  if (utf16) {
+    return { encoding: utf16, bom: false };
+  }
+
+  if (canDecode(bytes, 'utf-8')) {
+    return { encoding: 'utf-8', bom: false };
+  }
+
+  if (canDecode(bytes, 'shift_jis')) {
+    const japanese = countMatches(new TextDecoder('shift_jis').decode(bytes), JAPANESE_CHAR_PATTERN);
+    const latin = countMatches(new TextDecoder('windows-1252').decode(bytes), LATIN_LETTER_PATTERN);
+    if (japanese > latin) {
+      return { encoding: 'shift_jis', bom: false };
+    }
+  }
+
+  return { encoding: 'windows-1252', bom: false };
+}
+
+/**
+ * Decodes a byte buffer to text.
+ *
+ * When no encoding is given (or it is 'auto') the encoding is detected with
+ * {@link detectEncoding}. A leading byte order mark is removed from the text.
+ *
+ * @param data - Raw bytes to decode
+ * @param encoding - Encoding label to force (any WHATWG label, or 'auto')
+ * @returns The decoded text along with the encoding that was used
+ * @throws {ValidationError} If the encoding label is not supported
+ *
+ * @example
+ * ```typescript
+ * const { text, encoding } = decodeText(await file.arrayBuffer());
+ * const latin = decodeText(bytes, 'windows-1252').text;
+ * ```
+ */
+export function decodeText(data: ArrayBuffer | Uint8Array, encoding?: string): DecodedText {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  const detected =
+    !encoding || encoding.toLowerCase() === 'auto'
+      ? detectEncoding(bytes)
+      : { encoding: normalizeEncoding(encoding), bom: false };
+
+  const decoder = new TextDecoder(detected.encoding);
+  const text = decoder.decode(bytes);
+  const bom = detected.bom || sniffBom(bytes) === detected.encoding;
+
+  return {
+    text: bom && text.charCodeAt(0) === 0xfeff ? text.slice(1) : text,
+    encoding: detected.encoding,
+    bom,
+  };
+}
+
+/**
+ * Resolves an encoding label to its canonical WHATWG name.
+ *
+ * @param label - Encoding label such as 'utf8', 'latin1' or 'Shift_JIS'
+ * @returns Canonical encoding name
+ * @throws {ValidationError} If the label is not a supported encoding
+ *
+ * @example
+ * ```typescript
+ * normalizeEncoding('latin1'); // 'windows-1252'
+ * normalizeEncoding('UTF8');   // 'utf-8'
+ * ```
+ */
+export function normalizeEncoding(label: string): string {
+  const key = label.trim().toLowerCase();
+  try {
+    return new TextDecoder(ENCODING_ALIASES[key] ?? key).encoding;
+  } catch {
+    throw new ValidationError(`Unsupported encoding: ${label}`, ErrorCodes.VALIDATION_ERROR, {
+      field: 'encoding',
+      value: label,
+    });
+  }
+}
+
+/**
+ * Encodes text into the bytes of an output encoding.
+ *
+ * 'utf-8-bom' and 'utf-16le' prepend a byte order mark so spreadsheet
+ * applications recognise the encoding. Characters that cannot be represented
+ * in Windows-1252 are replaced with '?'.
+ *
+ * @param text - Text to encode
+ * @param encoding - Output encoding
+ * @returns Encoded bytes
+ *
+ * @example
+ * ```typescript
+ * encodeText('café', 'windows-1252'); // Uint8Array [0x63, 0x61, 0x66, 0xe9]
+ * ```
+ */
+export function encodeText(text: string, encoding: OutputEncoding): Uint8Array<ArrayBuffer> {
+  switch (encoding) {
+    case 'utf-8-bom':
+      return new TextEncoder().encode(withBom(text));
+
+    case 'utf-16le': {
+      const source = withBom(text);
+      const bytes = new Uint8Array(source.length * 2);
+      for (let i = 0; i < source.length; i++) {
+        const code = source.charCodeAt(i);
+        bytes[i * 2] = code & 0xff;
+        bytes[i * 2 + 1] = code >> 8;
+      }
+      return bytes;
+    }
+
+    case 'windows-1252': {
+      const bytes: number[] = [];
+      for (const char of text) {
+        bytes.push(toWindows1252(char.codePointAt(0) as number));
+      }
+      return new Uint8Array(bytes);
+    }
+
+    default:
+      return new TextEncoder().encode(text);
+  }
+}
+
+/**
+ * Returns the encoding announced by a byte order mark, if any.
+ * @internal
+ */
+function sniffBom(bytes: Uint8Array): string | null {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return 'utf-16be';
+  }
+  return null;
+}
+
+/**
+ * Detects BOM-less UTF-16 from the distribution of NUL bytes.
+ *
+ * ASCII-range text encoded as UTF-16 has a NUL in every high byte, while
+ * text in single- and multi-byte encodings practically never contains NULs.
+ * @internal
+ */
+function detectUtf16(bytes: Uint8Array): string | null {
+  const length = Math.min(bytes.length, UTF16_SAMPLE_SIZE) & ~1;
+  if (length < 2) return null;
+
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenNuls++;
+    if (bytes[i + 1] === 0) oddNuls++;
+  }
+
+  const pairs = length / 2;
+  if (oddNuls / pairs >= UTF16_NUL_RATIO && evenNuls < oddNuls / 4) return 'utf-16le';
+  if (evenNuls / pairs >= UTF16_NUL_RATIO && oddNuls < evenNuls / 4) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Checks whether bytes are valid in the given encoding.
+ * @internal
+ */
+function canDecode(bytes: Uint8Array, encoding: string): boolean {
+  try {
+    new TextDecoder(encoding, { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Counts the matches of a global pattern in a string.
+ * @internal
+ */
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Prepends a byte order mark unless the text already starts with one.
+ * @internal
+ */
+function withBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text : `\uFEFF${text}`;
+}
+
+/**
+ * Maps a code point to its Windows-1252 byte, or '?' if unmappable.
+ * @internal
+ */
+function toWindows1252(code: number): number {
+  if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) return code;
+  const index = WINDOWS_1252_HIGH.indexOf(code);
+  return index === -1 ? 0x3f : 0x80 + index;
+}
@@ -1,5 +1,6 @@
-import type { ParsedData, ExcelOptions } from '@/types';
+import type { ParsedData, ExcelOptions, SheetTable, SheetSummary } from '@/types';
 import type * as XLSXType from 'xlsx';
+import { createFormulaSanitizer, type FormulaStats } from './formula';
 
 /**
  * @fileoverview Excel file parsing and writing utilities using the xlsx library.
@@ -10,6 +11,9 @@ import type * as XLSXType from 'xlsx';
  * @module lib/converter/excel
  */
 
+/** Column added to stacked rows naming the sheet they came from */
+export const SHEET_COLUMN = '__sheet';
+
 // Lazy-loaded XLSX module
 let xlsxModule: typeof XLSXType | null = null;
 
@@ -73,9 +77,17 @@ function calculateColumnWidths(
  * Supports both .xlsx and .xls formats. Uses dynamic import for the xlsx library
  * to reduce initial bundle size. Handles multi-sheet workbooks with sheet selection.
  *
+ * With `allSheets`, every sheet is read at once: 'stack' appends all rows into
+ * one table with a `__sheet` source column and the union of all headers,
+ * while 'separate' returns each sheet in `sheetTables`. When a sheet already
+ * has a `__sheet` column, the source column is suffixed (`__sheet_1`, ...).
+ * Either way, `metadata.sheetSummaries` lists the headers and row count of
+ * each sheet.
+ *
  * @param buffer - The Excel file as an ArrayBuffer
  * @param options - Parsing options
  * @param options.selectedSheet - Sheet to parse (index number or name, default: 0)
+ * @param options.allSheets - Read every sheet, either stacked into one table or as separate tables
  * @returns Promise resolving to parsed data with headers, rows, and metadata
  *
  * @example
@@ -92,41 +104,22 @@ function calculateColumnWidths(
  * // Parse specific sheet by name
  * const data = await parseExcel(file, { selectedSheet: 'Sales Data' });
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Combine one sheet per store into a single table
+ * const data = await parseExcel(file, { allSheets: 'stack' });
+ * // headers: ['__sheet', 'Product', 'Sold']
+ * // rows: [{ __sheet: 'Store 1', Product: 'Pen', Sold: 4 }, ...]
+ * ```
  */
 export async function parseExcel(
   buffer: ArrayBuffer,
   options: ExcelOptions = {}
 ): Promise<ParsedData> {
   const XLSX = await getXlsx();
-  const { selectedSheet = 0 } = options;
-
   const workbook = XLSX.read(buffer, { type: 'array' });
-  const sheetName =
-    typeof selectedSheet === 'number'
-      ? workbook.SheetNames[selectedSheet]
-      : selectedSheet;
-
-  if (!sheetName || !workbook.Sheets[sheetName]) {
-    return {
-      headers: [],
-      rows: [],
-      format: 'xlsx',
-      metadata: {
-        rowCount: 0,
-        columnCount: 0,
-        sheets: workbook.SheetNames,
-      },
-    };
-  }
-
-  const sheet = workbook.Sheets[sheetName];
-  const rawData = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    raw: true,
-  });
-  const data = rawData as unknown as unknown[][];
-
-  return parseExcelData(data, workbook.SheetNames);
+  return parseWorkbook(XLSX, workbook, options);
 }
 
 /**
@@ -157,9 +150,31 @@ export function parseExcelSync(
   }
 
   const XLSX = xlsxModule;
-  const { selectedSheet = 0 } = options;
-
   const workbook = XLSX.read(buffer, { type: 'array' });
+  return parseWorkbook(XLSX, workbook, options);
+}
+
+/**
+ * Reads the selected sheet of a workbook, or all sheets when `allSheets` is set.
+ * @internal
+ */
+function parseWorkbook(
+  XLSX: typeof XLSXType,
+  workbook: XLSXType.WorkBook,
+  options: ExcelOptions
+): ParsedData {
+  const { selectedSheet = 0, allSheets } = options;
+
+  if (allSheets) {
+    const tables = workbook.SheetNames.map((name) => {
+      const { headers, rows } = parseExcelData(readSheet(XLSX, workbook.Sheets[name]));
+      return { name, headers, rows };
+    });
+    return allSheets === 'stack'
+      ? stackSheets(tables, workbook.SheetNames)
+      : separateSheets(tables, workbook.SheetNames);
+  }
+
   const sheetName =
     typeof selectedSheet === 'number'
       ? workbook.SheetNames[selectedSheet]
@@ -178,14 +193,87 @@ export function parseExcelSync(
     };
   }
 
-  const sheet = workbook.Sheets[sheetName];
+  return parseExcelData(readSheet(XLSX, workbook.Sheets[sheetName]), workbook.SheetNames);
+}
+
+/**
+ * Reads a worksheet as a 2D array of raw cell values.
+ * @internal
+ */
+function readSheet(XLSX: typeof XLSXType, sheet: XLSXType.WorkSheet): unknown[][] {
   const rawData = XLSX.utils.sheet_to_json(sheet, {
     header: 1,
     raw: true,
   });
-  const data = rawData as unknown as unknown[][];
+  return rawData as unknown as unknown[][];
+}
+
+/**
+ * Summarizes the size of each sheet for `metadata.sheetSummaries`.
+ * @internal
+ */
+function summarizeSheets(tables: SheetTable[]): SheetSummary[] {
+  return tables.map(({ name, headers, rows }) => ({
+    name,
+    headers,
+    rowCount: rows.length,
+    columnCount: headers.length,
+  }));
+}
 
-  return parseExcelData(data, workbook.SheetNames);
+/**
+ * Stacks the rows of every sheet into one table. Headers are the union of
+ * all sheets' headers, preceded by a `__sheet` column naming the source
+ * sheet, suffixed until it does not clash with a sheet's own column.
+ * @internal
+ */
+function stackSheets(tables: SheetTable[], sheets: string[]): ParsedData {
+  const sheetHeaders = new Set(tables.flatMap((table) => table.headers));
+  let sourceColumn = SHEET_COLUMN;
+  for (let n = 1; sheetHeaders.has(sourceColumn); n++) {
+    sourceColumn = `${SHEET_COLUMN}_${n}`;
+  }
+  const headers = [sourceColumn, ...sheetHeaders];
+
+  const rows = tables.flatMap((table) =>
+    table.rows.map((row) => ({ [sourceColumn]: table.name, ...row }))
+  );
+
+  return {
+    headers,
+    rows,
+    format: 'xlsx',
+    metadata: {
+      rowCount: rows.length,
+      columnCount: headers.length,
+      sheets,
+      sheetSummaries: summarizeSheets(tables),
+    },
+  };
+}
+
+/**
+ * Returns every sheet as a separate table in `sheetTables`, with the first
+ * sheet as the main headers and rows.
+ * @internal
+ */
+function separateSheets(tables: SheetTable[], sheets: string[]): ParsedData {
+  const [first] = tables;
+  const headers = first?.headers ?? [];
+  const rows = first?.rows ?? [];
+
+  return {
+    headers,
+    rows,
+    format: 'xlsx',
+    sheetTables: tables,
+    metadata: {
+      rowCount: rows.length,
+      columnCount: headers.length,
+      sheets,
+      sheetSummaries: summarizeSheets(tables),
+    },
+  };
 }
 
 /**
@@ -237,51 +325,81 @@ export function parseExcelData(
   };
 }
 
+/** Longest sheet name Excel accepts */
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/** Sheet name used for rows whose split column is empty */
+const BLANK_GROUP_NAME = '(blank)';
+
+/** Sheet name Excel reserves for its change-tracking sheet */
+const RESERVED_SHEET_NAME = 'history';
+
 /**
- * Creates an Excel workbook from structured data.
+ * Makes a string usable as an Excel sheet name.
  *
- * Generates a workbook with a single sheet containing the provided data.
- * Supports various formatting options including auto-fit columns, frozen headers,
- * and header styling.
+ * Excel rejects names longer than 31 characters, names containing any of
+ * `[ ] : * ? / \`, names starting or ending with an apostrophe, empty names
+ * and the reserved name "History". Invalid characters are replaced with
+ * underscores, the result is truncated before leading and trailing
+ * apostrophes are removed, and "History" becomes "History_1".
  *
- * @param headers - Array of column header names
- * @param rows - Array of row data objects keyed by header names
- * @param options - Excel writing options
- * @param options.sheetName - Name for the worksheet (default: 'Sheet1')
- * @param options.autoFitColumns - Auto-adjust column widths to fit content (default: true)
- * @param options.freezeHeader - Freeze the header row for scrolling (default: false)
- * @param options.headerStyle - Apply bold styling to header row (default: false)
- * @returns Promise resolving to the XLSX WorkBook object
+ * @param name - The desired sheet name
+ * @returns A valid sheet name
  *
  * @example
  * ```typescript
- * const workbook = await writeExcel(
- *   ['Name', 'Age'],
- *   [{ Name: 'John', Age: 30 }, { Name: 'Jane', Age: 25 }],
- *   { sheetName: 'Users', autoFitColumns: true, freezeHeader: true }
- * );
- * const buffer = await workbookToBuffer(workbook);
+ * sanitizeSheetName('Q1/Q2 [draft]'); // Returns 'Q1_Q2 _draft_'
+ * sanitizeSheetName('');              // Returns '(blank)'
+ * sanitizeSheetName('history');       // Returns 'history_1'
  * ```
  */
-export async function writeExcel(
+export function sanitizeSheetName(name: string): string {
+  const sanitized = name
+    .replace(/[[\]:*?/\\]/g, '_')
+    .trim()
+    .slice(0, MAX_SHEET_NAME_LENGTH)
+    .replace(/^['\s]+|['\s]+$/g, '');
+  if (sanitized.toLowerCase() === RESERVED_SHEET_NAME) return `${sanitized}_1`;
+  return sanitized || BLANK_GROUP_NAME;
+}
+
+/**
+ * Returns a sheet name that is not yet in `used`, appending " (2)", " (3)"
+ * and so on while staying within 31 characters. Excel compares sheet names
+ * case-insensitively, so `used` holds lower-cased names.
+ * @internal
+ */
+function uniqueSheetName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = `${name.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length)}${suffix}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Builds a formatted worksheet for one block of rows.
+ * @internal
+ */
+function buildWorksheet(
+  XLSX: typeof XLSXType,
   headers: string[],
   rows: Record<string, unknown>[],
-  options: ExcelOptions = {}
-): Promise<XLSXType.WorkBook> {
-  const XLSX = await getXlsx();
-
+  options: Pick<ExcelOptions, 'autoFitColumns' | 'freezeHeader' | 'headerStyle' | 'formulaSanitization'>,
+  stats?: FormulaStats
+): XLSXType.WorkSheet {
   const {
-    sheetName = 'Sheet1',
     autoFitColumns = true,
     freezeHeader = false,
     headerStyle = false,
+    formulaSanitization = 'off',
   } = options;
 
-  // Create worksheet data
-  const wsData = [
-    headers,
-    ...rows.map((row) => headers.map((h) => row[h])),
-  ];
+  // Create worksheet data, neutralizing cells that would be evaluated as formulas
+  const sanitize = createFormulaSanitizer(formulaSanitization, stats);
+  const wsData = [headers.map(sanitize), ...rows.map((row) => headers.map((h) => sanitize(row[h])))];
 
   const worksheet = XLSX.utils.aoa_to_sheet(wsData);
 
@@ -307,9 +425,163 @@ export async function writeExcel(
     });
   }
 
+  return worksheet;
+}
+
+/**
+ * Groups rows by the value of a column, keeping the order in which values
+ * first appear. Empty values form their own group.
+ * @internal
+ */
+function groupRows(
+  rows: Record<string, unknown>[],
+  column: string
+): Map<string, Record<string, unknown>[]> {
+  const groups = new Map<string, Record<string, unknown>[]>();
+  for (const row of rows) {
+    const value = row[column];
+    const key = value === null || value === undefined ? '' : String(value);
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Creates an Excel workbook from structured data.
+ *
+ * Generates a workbook with a single sheet containing the provided data.
+ * Supports various formatting options including auto-fit columns, frozen headers,
+ * and header styling.
+ *
+ * With `splitBy`, rows are instead written to one sheet per distinct value
+ * of that column, in order of first appearance. Values are turned into valid,
+ * unique sheet names; `summarySheet` adds a leading sheet listing the row
+ * count of each group.
+ *
+ * @param headers - Array of column header names
+ * @param rows - Array of row data objects keyed by header names
+ * @param options - Excel writing options
+ * @param options.sheetName - Name for the worksheet (default: 'Sheet1')
+ * @param options.autoFitColumns - Auto-adjust column widths to fit content (default: true)
+ * @param options.freezeHeader - Freeze the header row for scrolling (default: false)
+ * @param options.headerStyle - Apply bold styling to header row (default: false)
+ * @param options.splitBy - Column whose values split rows into separate sheets
+ * @param options.summarySheet - Add a "Summary" sheet with row counts per group when splitting (default: false)
+ * @param options.formulaSanitization - Neutralize cells a spreadsheet would evaluate as formulas: 'off', 'prefix' or 'strip' (default: 'off')
+ * @param stats - Tally of the cells neutralized on every sheet, if needed
+ * @returns Promise resolving to the XLSX WorkBook object
+ *
+ * @example
+ * ```typescript
+ * const workbook = await writeExcel(
+ *   ['Name', 'Age'],
+ *   [{ Name: 'John', Age: 30 }, { Name: 'Jane', Age: 25 }],
+ *   { sheetName: 'Users', autoFitColumns: true, freezeHeader: true }
+ * );
+ * const buffer = await workbookToBuffer(workbook);
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // One sheet per region: "North", "South", ...
+ * const workbook = await writeExcel(headers, rows, { splitBy: 'Region', summarySheet: true });
+ * ```
+ */
+export async function writeExcel(
+  headers: string[],
+  rows: Record<string, unknown>[],
+  options: ExcelOptions = {},
+  stats?: FormulaStats
+): Promise<XLSXType.WorkBook> {
+  const XLSX = await getXlsx();
+  const { sheetName = 'Sheet1', splitBy, summarySheet = false } = options;
+
   // Create workbook
   const workbook = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+
+  if (!splitBy || !headers.includes(splitBy)) {
+    XLSX.utils.book_append_sheet(workbook, buildWorksheet(XLSX, headers, rows, options, stats), sheetName);
+    return workbook;
+  }
+
+  const groups = groupRows(rows, splitBy);
+  const used = new Set<string>();
+  const summaryName = summarySheet ? uniqueSheetName('Summary', used) : null;
+  const sheets = Array.from(groups, ([value, members]) => ({
+    value,
+    name: uniqueSheetName(sanitizeSheetName(value), used),
+    rows: members,
+  }));
+
+  if (summaryName) {
+    const summaryHeaders = [splitBy, 'Sheet', 'Rows'];
+    const summaryRows: Record<string, unknown>[] = sheets.map((sheet) => ({
+      [splitBy]: sheet.value,
+      Sheet: sheet.name,
+      Rows: sheet.rows.length,
+    }));
+    summaryRows.push({ [splitBy]: 'Total', Sheet: '', Rows: rows.length });
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildWorksheet(XLSX, summaryHeaders, summaryRows, options, stats),
+      summaryName
+    );
+  }
+
+  for (const sheet of sheets) {
+    XLSX.utils.book_append_sheet(workbook, buildWorksheet(XLSX, headers, sheet.rows, options, stats), sheet.name);
+  }
+
+  // An empty data set still needs one sheet for a valid workbook
+  if (workbook.SheetNames.length === 0) {
+    XLSX.utils.book_append_sheet(workbook, buildWorksheet(XLSX, headers, rows, options, stats), sheetName);
+  }
+
+  return workbook;
+}
+
+/**
+ * Creates an Excel workbook with one sheet per table.
+ *
+ * Used for related tables, such as the sheets of a workbook read separately
+ * or nested arrays normalized into child tables. Table names are turned into
+ * valid, unique sheet names; `splitBy` and `sheetName` do not apply.
+ *
+ * @param tables - Tables to write, in sheet order
+ * @param options - Excel writing options (formatting options apply to every sheet)
+ * @param stats - Tally of the cells neutralized on every sheet, if needed
+ * @returns Promise resolving to the XLSX WorkBook object
+ *
+ * @example
+ * ```typescript
+ * const workbook = await writeExcelTables([
+ *   { name: 'orders', headers: ['_id', 'id'], rows: [{ _id: 1, id: 'A' }] },
+ *   { name: 'orders_lines', headers: ['_parent_id', 'sku'], rows: [{ _parent_id: 1, sku: 'x' }] },
+ * ]);
+ * // Sheets: 'orders', 'orders_lines'
+ * ```
+ */
+export async function writeExcelTables(
+  tables: SheetTable[],
+  options: ExcelOptions = {},
+  stats?: FormulaStats
+): Promise<XLSXType.WorkBook> {
+  const XLSX = await getXlsx();
+  const workbook = XLSX.utils.book_new();
+  const used = new Set<string>();
+
+  for (const table of tables) {
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildWorksheet(XLSX, table.headers, table.rows, options, stats),
+      uniqueSheetName(sanitizeSheetName(table.name), used)
+    );
+  }
 
   return workbook;
 }
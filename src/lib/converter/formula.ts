@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Formula injection protection for spreadsheet output.
+ *
+ * Spreadsheet applications treat cells starting with `=`, `+`, `-` or `@`
+ * as formulas, and tab or carriage return characters can hide such a prefix.
+ * A crafted value in exported data can therefore run commands or leak data
+ * when the file is opened ("CSV injection"). The CSV, TSV and Excel writers
+ * neutralize these cells by prefixing an apostrophe or stripping the
+ * triggering characters.
+ *
+ * @module lib/converter/formula
+ */
+
+import type { FormulaSanitization } from '@/types';
+
+/** Leading characters that make a spreadsheet evaluate a cell */
+const FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+/** Run of triggering characters removed in 'strip' mode */
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]+/;
+
+/** Signed numbers such as -5 or +1.5e3 are data, not formulas */
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Checks whether a cell value would be evaluated as a formula.
+ *
+ * Only strings can be formulas. Plain signed numbers such as `-42` are not
+ * treated as formulas, so negative amounts survive sanitization.
+ *
+ * @param value - The cell value
+ * @returns True if the value starts with a formula trigger character
+ *
+ * @example
+ * ```typescript
+ * isFormulaLike('=HYPERLINK("http://evil")'); // true
+ * isFormulaLike('-42');                        // false
+ * isFormulaLike(-42);                          // false
+ * ```
+ */
+export function isFormulaLike(value: unknown): value is string {
+  return typeof value === 'string' && FORMULA_PATTERN.test(value) && !NUMBER_PATTERN.test(value);
+}
+
+/**
+ * Neutralizes a cell value that would be evaluated as a formula.
+ *
+ * - 'prefix': prepends an apostrophe, so the value is shown as text
+ * - 'strip': removes the leading trigger characters
+ * - 'off': returns the value unchanged
+ *
+ * @param value - The cell value
+ * @param mode - Sanitization mode (default: 'off')
+ * @returns The neutralized value, or the original value if it is safe
+ *
+ * @example
+ * ```typescript
+ * sanitizeFormula('=1+1', 'prefix'); // "'=1+1"
+ * sanitizeFormula('=1+1', 'strip');  // '1+1'
+ * ```
+ */
+export function sanitizeFormula(value: unknown, mode: FormulaSanitization = 'off'): unknown {
+  if (mode === 'off' || !isFormulaLike(value)) {
+    return value;
+  }
+  return mode === 'prefix' ? `'${value}` : value.replace(FORMULA_PREFIX_PATTERN, '');
+}
+
+/**
+ * Tally of the cells a writer has neutralized.
+ */
+export interface FormulaStats {
+  /** Number of header and data cells changed */
+  sanitizedCells: number;
+}
+
+/**
+ * Creates the cell sanitizer used by a writer, counting every cell it
+ * actually changes in `stats`.
+ *
+ * @param mode - Sanitization mode (default: 'off')
+ * @param stats - Tally to update, if the caller reports it
+ * @returns Function neutralizing one cell value
+ *
+ * @example
+ * ```typescript
+ * const stats = { sanitizedCells: 0 };
+ * const sanitize = createFormulaSanitizer('prefix', stats);
+ * ['=1+1', 'ok', '@x'].map(sanitize); // ["'=1+1", 'ok', "'@x"]
+ * stats.sanitizedCells;                // 2
+ * ```
+ */
+export function createFormulaSanitizer(
+  mode: FormulaSanitization = 'off',
+  stats?: FormulaStats
+): (value: unknown) => unknown {
+  return (value) => {
+    const result = sanitizeFormula(value, mode);
+    if (stats && result !== value) stats.sanitizedCells++;
+    return result;
+  };
+}
@@ -0,0 +1,334 @@
+/**
+ * @fileoverview HTML table parsing and writing utilities using node-html-parser.
+ *
+ * Tables are extracted from pasted or uploaded HTML pages, honouring
+ * `<thead>`/`<th>` header rows and `colspan`/`rowspan`. Every table on the
+ * page is listed in `metadata.tables` so one can be chosen, like sheets of a
+ * workbook.
+ *
+ * @module lib/converter/html
+ */
+
+import { parse, type HTMLElement } from 'node-html-parser';
+import type { ParsedData, HtmlOptions } from '@/types';
+import { ParseError, ErrorCodes } from '@/lib/errors';
+
+/** Largest colspan/rowspan honoured, guarding against malformed markup */
+const MAX_SPAN = 1000;
+
+/** Private-use character standing in for `<br>` while whitespace is collapsed */
+const LINE_BREAK = '\uE000';
+
+/** Styles embedded in standalone documents */
+const DOCUMENT_STYLES = `body { font-family: system-ui, -apple-system, sans-serif; margin: 2rem; color: #111827; }
+table { border-collapse: collapse; font-size: 0.875rem; }
+th, td { border: 1px solid #d1d5db; padding: 0.5rem 0.75rem; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; font-weight: 600; }
+tbody tr:nth-child(even) { background: #f9fafb; }`;
+
+/**
+ * A table found in an HTML document
+ * @internal
+ */
+interface HtmlTable {
+  name: string;
+  element: HTMLElement;
+}
+
+/**
+ * Parses the tables of an HTML document into a structured tabular format.
+ *
+ * Header rows are the rows of `<thead>`, or else the first row of the
+ * table. Cells spanning several columns or
+ * rows are repeated in every position they cover, and the parts of multi-row
+ * headers are joined with dots. Tables are named after their `<caption>` or
+ * `id`, falling back to "Table N".
+ *
+ * @param data - The HTML string to parse
+ * @param options - Parsing options
+ * @param options.selectedTable - Table to load (index number or name, default: 0)
+ * @returns Parsed data with headers, rows, format, and metadata listing every table
+ * @throws {ParseError} If the HTML contains no tables or the selected table does not exist
+ *
+ * @example
+ * ```typescript
+ * const data = parseHtml(`
+ *   <table>
+ *     <thead><tr><th>Name</th><th>Age</th></tr></thead>
+ *     <tbody><tr><td>John</td><td>30</td></tr></tbody>
+ *   </table>
+ * `);
+ * // headers: ['Name', 'Age']
+ * // rows: [{ Name: 'John', Age: '30' }]
+ * ```
+ */
+export function parseHtml(data: string, options: Pick<HtmlOptions, 'selectedTable'> = {}): ParsedData {
+  const { selectedTable = 0 } = options;
+
+  const tables = findTables(parse(data, { comment: false }));
+  if (tables.length === 0) {
+    throw new ParseError('No <table> elements found in HTML', ErrorCodes.INVALID_HTML, undefined, 'html');
+  }
+
+  const table =
+    typeof selectedTable === 'number'
+      ? tables[selectedTable]
+      : tables.find((t) => t.name === selectedTable);
+  if (!table) {
+    throw new ParseError(
+      `Table "${selectedTable}" not found in HTML`,
+      ErrorCodes.INVALID_HTML,
+      undefined,
+      'html'
+    );
+  }
+
+  const { headers, rows } = readTable(table.element);
+
+  return {
+    headers,
+    rows,
+    format: 'html',
+    metadata: {
+      rowCount: rows.length,
+      columnCount: headers.length,
+      tables: tables.map((t) => t.name),
+    },
+  };
+}
+
+/**
+ * Writes data as an HTML table.
+ *
+ * By default a standalone document with embedded styles is produced; set
+ * `standalone` to false for a bare `<table>` fragment. All text is escaped
+ * and line breaks in cells become `<br>`.
+ *
+ * @param headers - Array of column header names
+ * @param rows - Array of row objects with values keyed by header names
+ * @param options - HTML writing options
+ * @param options.standalone - Wrap the table in a styled HTML document (default: true)
+ * @returns HTML string
+ *
+ * @example
+ * ```typescript
+ * const html = writeHtml(['name'], [{ name: 'Tom & Jerry' }], { standalone: false });
+ * // <table>
+ * //   <thead>
+ * //     <tr><th>name</th></tr>
+ * //   </thead>
+ * //   <tbody>
+ * //     <tr><td>Tom &amp; Jerry</td></tr>
+ * //   </tbody>
+ * // </table>
+ * ```
+ */
+export function writeHtml(
+  headers: string[],
+  rows: Record<string, unknown>[],
+  options: Pick<HtmlOptions, 'standalone'> = {}
+): string {
+  const { standalone = true } = options;
+
+  const headerRow = `    <tr>${headers.map((h) => `<th>${escapeHtml(h)}</th>`).join('')}</tr>`;
+  const bodyRows = rows.map(
+    (row) => `    <tr>${headers.map((h) => `<td>${formatCell(row[h])}</td>`).join('')}</tr>`
+  );
+
+  const table = [
+    '<table>',
+    '  <thead>',
+    headerRow,
+    '  </thead>',
+    '  <tbody>',
+    ...bodyRows,
+    '  </tbody>',
+    '</table>',
+  ].join('\n');
+
+  if (!standalone) {
+    return table;
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<title>Converted data</title>',
+    '<style>',
+    DOCUMENT_STYLES,
+    '</style>',
+    '</head>',
+    '<body>',
+    table,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Finds every table in a document and gives each a unique name.
+ * @internal
+ */
+function findTables(root: HTMLElement): HtmlTable[] {
+  const used = new Set<string>();
+
+  return root.querySelectorAll('table').map((element, index) => {
+    const caption = getChildElements(element, 'caption')[0];
+    let name = normalizeText(caption?.text ?? '') || element.getAttribute('id') || `Table ${index + 1}`;
+    if (used.has(name)) {
+      name = `${name} (${index + 1})`;
+    }
+    used.add(name);
+    return { name, element };
+  });
+}
+
+/**
+ * Reads the header and body rows of a table into a grid, expanding spans.
+ * @internal
+ */
+function readTable(table: HTMLElement): { headers: string[]; rows: Record<string, unknown>[] } {
+  // Only the table's own rows, so tables nested inside cells are skipped
+  const theadRows: HTMLElement[] = [];
+  const bodyRows: HTMLElement[] = [];
+  for (const child of getChildElements(table, 'thead', 'tbody', 'tfoot', 'tr')) {
+    if (child.tagName === 'TR') {
+      bodyRows.push(child);
+    } else {
+      (child.tagName === 'THEAD' ? theadRows : bodyRows).push(...getChildElements(child, 'tr'));
+    }
+  }
+
+  const grid = buildGrid([...theadRows, ...bodyRows]);
+
+  // Without a <thead>, the first row is the header whether it uses <th> or
+  // <td> cells, as with the first line of a CSV file
+  const headerCount = theadRows.length > 0 ? theadRows.length : Math.min(1, grid.length);
+
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  const headers = dedupeHeaders(
+    Array.from({ length: width }, (_, col) => {
+      const parts: string[] = [];
+      for (let r = 0; r < headerCount; r++) {
+        const part = grid[r]?.[col] ?? '';
+        if (part && parts[parts.length - 1] !== part) parts.push(part);
+      }
+      return parts.join('.') || `Column ${col + 1}`;
+    })
+  );
+
+  const rows = grid.slice(headerCount).map((cells) => {
+    const row: Record<string, unknown> = {};
+    headers.forEach((header, col) => {
+      row[header] = cells[col] ?? '';
+    });
+    return row;
+  });
+
+  return { headers, rows };
+}
+
+/**
+ * Lays out table rows on a grid, repeating spanned cells.
+ * @internal
+ */
+function buildGrid(rows: HTMLElement[]): string[][] {
+  const grid: string[][] = [];
+
+  rows.forEach((tr, r) => {
+    grid[r] ??= [];
+    let col = 0;
+    for (const cell of getChildElements(tr, 'th', 'td')) {
+      while (grid[r][col] !== undefined) col++;
+
+      const colspan = readSpan(cell, 'colspan');
+      const rowspan = Math.min(readSpan(cell, 'rowspan'), rows.length - r);
+      const text = getCellText(cell);
+
+      for (let dr = 0; dr < rowspan; dr++) {
+        grid[r + dr] ??= [];
+        for (let dc = 0; dc < colspan; dc++) {
+          grid[r + dr][col + dc] = text;
+        }
+      }
+      col += colspan;
+    }
+  });
+
+  // Fill holes left by short rows
+  return grid.map((row) => Array.from(row, (cell) => cell ?? ''));
+}
+
+/**
+ * Returns the child elements with one of the given tag names.
+ * @internal
+ */
+function getChildElements(element: HTMLElement, ...tags: string[]): HTMLElement[] {
+  const wanted = tags.map((tag) => tag.toUpperCase());
+  return element.children.filter((child) => wanted.includes(child.tagName));
+}
+
+/**
+ * Reads a colspan or rowspan attribute.
+ * @internal
+ */
+function readSpan(cell: HTMLElement, attribute: string): number {
+  const value = parseInt(cell.getAttribute(attribute) ?? '1', 10);
+  return Number.isFinite(value) && value > 0 ? Math.min(value, MAX_SPAN) : 1;
+}
+
+/**
+ * Extracts the text of a cell, keeping `<br>` line breaks.
+ * @internal
+ */
+function getCellText(cell: HTMLElement): string {
+  cell.querySelectorAll('br').forEach((br) => br.replaceWith(LINE_BREAK));
+  return cell.text.split(LINE_BREAK).map(normalizeText).join('\n').trim();
+}
+
+/**
+ * Collapses runs of whitespace.
+ * @internal
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Suffixes repeated header names so every column keeps its values.
+ * @internal
+ */
+function dedupeHeaders(headers: string[]): string[] {
+  const counts = new Map<string, number>();
+  return headers.map((header) => {
+    const count = (counts.get(header) ?? 0) + 1;
+    counts.set(header, count);
+    return count === 1 ? header : `${header}_${count}`;
+  });
+}
+
+/**
+ * Escapes text for use in HTML content.
+ * @internal
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Converts a value to escaped cell content.
+ * @internal
+ */
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return escapeHtml(text).replace(/\r\n?|\n/g, '<br>');
+}
@@ -1,15 +1,41 @@
 import { parseCsv, writeCsv, detectDelimiter as detectCsvDelimiter } from './csv';
 import { parseJson, writeJson } from './json';
-import { parseExcel, parseExcelData, writeExcel, workbookToBuffer, workbookToBase64 } from './excel';
+import {
+  parseExcel,
+  parseExcelData,
+  writeExcel,
+  writeExcelTables,
+  workbookToBuffer,
+  workbookToBase64,
+} from './excel';
 import { parseXml, writeXml } from './xml';
-import { writeSql } from './sql';
-import { detectFormat, detectDelimiter, detectFormatFromFilename, detectFormatFromMimeType } from './detect';
+import { parseSql, writeSql, writeSqlTables } from './sql';
+import { parseYaml, writeYaml } from './yaml';
+import { parseJsonl, parseJsonlStream, writeJsonl } from './jsonl';
+import { needsStreaming } from './csv-stream';
+import { parseParquet, writeParquet } from './parquet';
+import { writeMarkdown } from './markdown';
+import { parseHtml, writeHtml } from './html';
+import { expandArrayField } from './nested';
+import { isFormulaLike, sanitizeFormula, createFormulaSanitizer } from './formula';
+import { inferColumnTypes } from './infer';
+import { detectEncoding, decodeText, encodeText, normalizeEncoding } from './encoding';
+import {
+  detectFormat,
+  detectDelimiter,
+  detectFormatFromFilename,
+  detectFormatFromMimeType,
+  detectBinaryFormat,
+} from './detect';
+import { createParseError } from '@/lib/errors';
 import type {
   InputFormat,
   OutputFormat,
   ParsedData,
   ConversionResult,
   ConvertOptions,
+  FormulaSanitization,
+  ParseOptions,
 } from '@/types';
 
 export {
@@ -24,27 +50,84 @@ export {
   parseExcel,
   parseExcelData,
   writeExcel,
+  writeExcelTables,
   workbookToBuffer,
   workbookToBase64,
   // XML
   parseXml,
   writeXml,
   // SQL
+  parseSql,
   writeSql,
+  writeSqlTables,
+  // YAML
+  parseYaml,
+  writeYaml,
+  // JSON Lines
+  parseJsonl,
+  parseJsonlStream,
+  writeJsonl,
+  // Streaming
+  needsStreaming,
+  // Parquet
+  parseParquet,
+  writeParquet,
+  // Markdown
+  writeMarkdown,
+  // HTML
+  parseHtml,
+  writeHtml,
+  // Nested arrays
+  expandArrayField,
+  // Formula injection
+  isFormulaLike,
+  sanitizeFormula,
+  createFormulaSanitizer,
+  // Type inference
+  inferColumnTypes,
+  // Encoding
+  detectEncoding,
+  decodeText,
+  encodeText,
+  normalizeEncoding,
   // Detection
   detectFormat,
   detectDelimiter,
   detectFormatFromFilename,
   detectFormatFromMimeType,
+  detectBinaryFormat,
 };
 
 export async function parseData(
   data: string | ArrayBuffer,
-  format?: InputFormat
+  format?: InputFormat,
+  options: ParseOptions = {}
 ): Promise<ParsedData> {
-  // Handle binary data (Excel)
-  if (data instanceof ArrayBuffer) {
-    return parseExcel(data);
+  if (typeof data !== 'string') {
+    // Handle binary data (Excel, Parquet)
+    const binaryFormat = format ?? detectBinaryFormat(data);
+    if (binaryFormat === 'parquet') {
+      return parseParquet(data);
+    }
+    if (binaryFormat === 'xlsx' || binaryFormat === 'xls') {
+      return parseExcel(data, options.excel);
+    }
+
+    // Decode text files, honouring an explicit encoding override
+    const { text, encoding } = decodeText(data, options.csv?.encoding);
+    const result = await parseData(text, format, options);
+    result.metadata = {
+      rowCount: result.rows.length,
+      columnCount: result.headers.length,
+      ...result.metadata,
+      encoding,
+    };
+    return result;
+  }
+
+  // Drop a byte order mark left over from decoding elsewhere
+  if (data.charCodeAt(0) === 0xfeff) {
+    data = data.slice(1);
   }
 
   // Detect format if not provided
@@ -52,9 +135,19 @@ export async function parseData(
 
   switch (detectedFormat) {
     case 'json':
-      return parseJson(data);
+      return parseJson(data, options.json);
     case 'xml':
-      return parseXml(data);
+      return parseXml(data, options.xml);
+    case 'sql':
+      return parseSql(data, options.sql);
+    case 'yaml':
+      return parseYaml(data);
+    case 'jsonl':
+      return parseJsonl(data);
+    case 'html':
+      return parseHtml(data, options.html);
+    case 'parquet':
+      throw createParseError('parquet', 'Parquet files must be provided as binary data');
     case 'csv':
     case 'tsv':
       const delimiter = detectedFormat === 'tsv' ? '\t' : detectDelimiter(data);
@@ -73,9 +166,20 @@ export async function convertData(
   const { headers, rows } = parsedData;
   const { outputFormat } = options;
 
+  // Related tables, such as separately read sheets or normalized arrays, are
+  // written as sheets or tables of their own. The first table is the one being
+  // converted, so it takes any edits made to the data since parsing
+  const tables =
+    parsedData.sheetTables && parsedData.sheetTables.length > 1
+      ? [{ ...parsedData.sheetTables[0], headers, rows }, ...parsedData.sheetTables.slice(1)]
+      : undefined;
+
   try {
     let data: string | Blob;
     let format = outputFormat;
+    // Cells neutralized by a sanitizing spreadsheet writer, counted as written
+    const formulaStats = { sanitizedCells: 0 };
+    let sanitization: FormulaSanitization | undefined;
 
     switch (outputFormat) {
       case 'json':
@@ -83,17 +187,31 @@ export async function convertData(
         break;
 
       case 'csv':
-        data = writeCsv(headers, rows, { ...options.csv, delimiter: ',' });
-        break;
-
       case 'tsv':
-        data = writeCsv(headers, rows, { ...options.csv, delimiter: '\t' });
-        format = 'tsv';
+        // TSV is always tab-separated; CSV honours the chosen delimiter
+        const csv = writeCsv(
+          headers,
+          rows,
+          { ...options.csv, ...(outputFormat === 'tsv' && { delimiter: '\t' }) },
+          formulaStats
+        );
+        sanitization = options.csv?.formulaSanitization;
+        const outputEncoding = options.csv?.outputEncoding;
+        // Byte encodings other than UTF-8 can only be represented as binary data
+        data =
+          outputEncoding === 'utf-16le' || outputEncoding === 'windows-1252'
+            ? new Blob([encodeText(csv, outputEncoding)], {
+                type: `${outputFormat === 'tsv' ? 'text/tab-separated-values' : 'text/csv'};charset=${outputEncoding}`,
+              })
+            : csv;
         break;
 
       case 'xlsx':
       case 'xls':
-        const workbook = await writeExcel(headers, rows, options.excel);
+        const workbook = tables
+          ? await writeExcelTables(tables, options.excel, formulaStats)
+          : await writeExcel(headers, rows, options.excel, formulaStats);
+        sanitization = options.excel?.formulaSanitization;
         const buffer = await workbookToBuffer(workbook, outputFormat);
         data = new Blob([buffer], {
           type:
@@ -108,7 +226,29 @@ export async function convertData(
         break;
 
       case 'sql':
-        data = writeSql(headers, rows, options.sql);
+        data = tables ? writeSqlTables(tables, options.sql) : writeSql(headers, rows, options.sql);
+        break;
+
+      case 'yaml':
+        data = writeYaml(headers, rows);
+        break;
+
+      case 'jsonl':
+        data = writeJsonl(headers, rows);
+        break;
+
+      case 'parquet':
+        data = new Blob([await writeParquet(headers, rows, options.parquet)], {
+          type: 'application/vnd.apache.parquet',
+        });
+        break;
+
+      case 'markdown':
+        data = writeMarkdown(headers, rows, options.markdown);
+        break;
+
+      case 'html':
+        data = writeHtml(headers, rows, options.html);
         break;
 
       default:
@@ -124,6 +264,7 @@ export async function convertData(
         outputFormat: format,
         rowCount: rows.length,
         columnCount: headers.length,
+        ...(sanitization && sanitization !== 'off' && { sanitizedCells: formulaStats.sanitizedCells }),
       },
     };
   } catch (error) {
@@ -135,6 +276,33 @@ export async function convertData(
   }
 }
 
+/**
+ * Parses a file and converts it in one step, detecting the input format
+ * from the file name. Parse errors are reported as a failed result.
+ */
+export async function convertFile(
+  data: string | ArrayBuffer,
+  fileName: string,
+  options: ConvertOptions,
+  onProgress?: (progress: number) => void
+): Promise<ConversionResult> {
+  try {
+    const format = detectFormatFromFilename(fileName) ?? undefined;
+    const parsedData = await parseData(data, format, options);
+    onProgress?.(50);
+
+    const result = await convertData(parsedData, options);
+    onProgress?.(100);
+    return result;
+  } catch (error) {
+    return {
+      success: false,
+      format: options.outputFormat,
+      error: error instanceof Error ? error.message : 'Conversion failed',
+    };
+  }
+}
+
 export function getOutputFilename(
   inputFilename: string | undefined,
   outputFormat: OutputFormat
@@ -151,6 +319,11 @@ export function getOutputFilename(
     xls: 'xls',
     xml: 'xml',
     sql: 'sql',
+    yaml: 'yaml',
+    jsonl: 'jsonl',
+    parquet: 'parquet',
+    markdown: 'md',
+    html: 'html',
   };
 
   return `${baseName}.${extensions[outputFormat]}`;
@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Column type inference for tabular data.
+ *
+ * This module scans row values to infer a generic column type (integer,
+ * decimal, boolean, date, ...) along with size and nullability information.
+ * Writers that emit typed schemas map these generic types to their own
+ * type names.
+ *
+ * @module lib/converter/infer
+ */
+
+import type { ColumnType } from '@/types';
+
+/**
+ * Result of inferring the type of a single column.
+ */
+export interface InferredColumn {
+  /** Column header name */
+  name: string;
+  /** Generic column type */
+  type: ColumnType;
+  /** True if at least one value is null, undefined or an empty string */
+  nullable: boolean;
+  /** Maximum string length (varchar columns) */
+  length?: number;
+  /** Total number of digits (decimal columns) */
+  precision?: number;
+  /** Number of digits after the decimal point (decimal columns) */
+  scale?: number;
+}
+
+/** Largest value that fits in a signed 32-bit INTEGER column */
+const MAX_INT32 = 2147483647;
+
+/** Strings longer than this are typed as TEXT instead of VARCHAR */
+const MAX_VARCHAR_LENGTH = 4000;
+
+/** Maximum precision supported by DECIMAL in every target engine */
+const MAX_DECIMAL_PRECISION = 38;
+
+// Numbers with a leading zero, such as zip codes, are text so the zeros survive
+const INTEGER_PATTERN = /^[-+]?(0|[1-9]\d*)$/;
+const DECIMAL_PATTERN = /^[-+]?((0|[1-9]\d*)(\.\d*)?|\.\d+)$/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Infers the generic type of every column in a table.
+ *
+ * Each column is assigned the narrowest type that all of its non-empty
+ * values satisfy, checked in this order: boolean, integer/bigint,
+ * decimal, date, timestamp, varchar, text. Columns with no non-empty
+ * values fall back to text.
+ *
+ * @param headers - Array of column header names
+ * @param rows - Array of row data objects keyed by header names
+ * @returns One inferred column descriptor per header, in header order
+ *
+ * @example
+ * ```typescript
+ * inferColumnTypes(['id', 'price', 'name'], [
+ *   { id: 1, price: '9.99', name: 'Pen' },
+ *   { id: 2, price: '19.5', name: '' },
+ * ]);
+ * // [
+ * //   { name: 'id', type: 'integer', nullable: false },
+ * //   { name: 'price', type: 'decimal', nullable: false, precision: 4, scale: 2 },
+ * //   { name: 'name', type: 'varchar', nullable: true, length: 3 },
+ * // ]
+ * ```
+ */
+export function inferColumnTypes(
+  headers: string[],
+  rows: Record<string, unknown>[]
+): InferredColumn[] {
+  return headers.map((header) => inferColumnType(header, rows.map((row) => row[header])));
+}
+
+/**
+ * Infers the generic type of a single column from its values.
+ *
+ * @param name - Column header name
+ * @param values - All values of the column
+ * @returns Inferred column descriptor
+ */
+export function inferColumnType(name: string, values: unknown[]): InferredColumn {
+  const present = values.filter((v) => v !== null && v !== undefined && v !== '');
+  const nullable = present.length < values.length || values.length === 0;
+
+  if (present.length === 0) {
+    return { name, type: 'text', nullable: true };
+  }
+
+  if (present.every(isBooleanValue)) {
+    return { name, type: 'boolean', nullable };
+  }
+
+  if (present.every(isIntegerValue)) {
+    const fitsInt32 = present.every((v) => Math.abs(Number(v)) <= MAX_INT32);
+    return { name, type: fitsInt32 ? 'integer' : 'bigint', nullable };
+  }
+
+  if (present.every(isDecimalValue)) {
+    let integerDigits = 1;
+    let scale = 0;
+    for (const value of present) {
+      const digits = countDecimalDigits(value);
+      integerDigits = Math.max(integerDigits, digits.integerDigits);
+      scale = Math.max(scale, digits.scale);
+    }
+    // Values too large for any DECIMAL column are kept as text
+    if (integerDigits <= MAX_DECIMAL_PRECISION) {
+      const precision = Math.min(integerDigits + scale, MAX_DECIMAL_PRECISION);
+      return { name, type: 'decimal', nullable, precision, scale: Math.min(scale, precision - integerDigits) };
+    }
+  }
+
+  if (present.every((v) => typeof v === 'string' && DATE_PATTERN.test(v) && isValidDate(v))) {
+    return { name, type: 'date', nullable };
+  }
+
+  if (present.every(isTimestampValue)) {
+    return { name, type: 'timestamp', nullable };
+  }
+
+  const length = present.reduce<number>((max, v) => Math.max(max, String(v).length), 1);
+  if (length > MAX_VARCHAR_LENGTH) {
+    return { name, type: 'text', nullable };
+  }
+  return { name, type: 'varchar', nullable, length };
+}
+
+/**
+ * Checks if a value is a boolean or a 'true'/'false' string.
+ * @internal
+ */
+function isBooleanValue(value: unknown): boolean {
+  return typeof value === 'boolean' || (typeof value === 'string' && BOOLEAN_PATTERN.test(value));
+}
+
+/**
+ * Checks if a value is a safe integer or an integer string.
+ * @internal
+ */
+function isIntegerValue(value: unknown): boolean {
+  if (typeof value === 'number') return Number.isSafeInteger(value);
+  return typeof value === 'string' && INTEGER_PATTERN.test(value) && Number.isSafeInteger(Number(value));
+}
+
+/**
+ * Checks if a value is a finite number or a plain decimal string.
+ * @internal
+ */
+function isDecimalValue(value: unknown): boolean {
+  if (typeof value === 'number') return Number.isFinite(value);
+  return typeof value === 'string' && DECIMAL_PATTERN.test(value);
+}
+
+/**
+ * Counts the digits before and after the decimal point of a decimal value,
+ * expanding exponent notation such as 1e21 or 1.5e-7.
+ * @internal
+ */
+function countDecimalDigits(value: unknown): { integerDigits: number; scale: number } {
+  const [mantissa, exponent = '0'] = String(value).replace(/^[-+]/, '').toLowerCase().split('e');
+  const [intPart, fracPart = ''] = mantissa.split('.');
+  const digits = `${intPart}${fracPart}`;
+  // Position of the decimal point within the digits once the exponent is applied
+  const point = intPart.length + Number(exponent);
+  const leadingZeros = digits.length - digits.replace(/^0+/, '').length;
+  return {
+    integerDigits: Math.max(point - leadingZeros, 1),
+    scale: Math.max(digits.length - point, 0),
+  };
+}
+
+/**
+ * Checks if a value is a Date, a YYYY-MM-DD string or an ISO-8601 date-time string.
+ * @internal
+ */
+function isTimestampValue(value: unknown): boolean {
+  if (value instanceof Date) return !isNaN(value.getTime());
+  if (typeof value !== 'string') return false;
+  return (DATE_PATTERN.test(value) || TIMESTAMP_PATTERN.test(value)) && isValidDate(value);
+}
+
+/**
+ * Checks that a date string is a real calendar date. Date parsing rolls over
+ * invalid days, such as 2023-02-30 to March 2, so the components are compared.
+ * @internal
+ */
+function isValidDate(value: string): boolean {
+  if (isNaN(Date.parse(value.length === 10 ? `${value}T00:00:00Z` : value.replace(' ', 'T')))) {
+    return false;
+  }
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
@@ -1,5 +1,15 @@
 import type { ParsedData, JsonOptions } from '@/types';
 import { ParseError, ErrorCodes } from '@/lib/errors';
+import { expandArrayField } from './nested';
+
+/** A step of a record path: an object key, an array index or `[*]` */
+type PathToken = { key: string } | { index: number } | { wildcard: true };
+
+/** Nesting depth searched when discovering arrays of records */
+const MAX_DISCOVERY_DEPTH = 10;
+
+/** Key segments that would reach into object prototypes */
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
 
 /**
  * Parses JSON data into a structured tabular format with headers and rows.
@@ -7,14 +17,30 @@ import { ParseError, ErrorCodes } from '@/lib/errors';
  * Converts JSON arrays or objects into a normalized table structure.
  * Supports:
  * - Arrays of objects (each object becomes a row)
- * - Single objects (converted to single-row table)
+ * - Records nested in an object, selected with `recordPath` or discovered
+ *   automatically as the largest array of objects
+ * - Single objects without nested records (converted to single-row table)
  * - Nested object flattening (with dot notation keys)
  *
+ * Record paths use JSONPath-style syntax such as `$.data.items[*]`, or a plain
+ * dot path such as `data.items`. Every array of objects found in the document
+ * is listed in `metadata.recordPaths`, largest first. With
+ * `includeParentFields`, the other fields of each enclosing object are copied
+ * into every row under their full dot path (e.g. `meta.page`).
+ *
+ * An array field of each record, such as the line items of an order, can be
+ * exploded into one row per element or normalized into a child table; see
+ * `expandArrayField`. Normalized data returns both tables in `sheetTables`.
+ *
  * @param data - The JSON string to parse
  * @param options - Parsing options
  * @param options.flattenNested - Whether to flatten nested objects using dot notation (default: false)
+ * @param options.recordPath - Path of the records to read (default: the top-level array or the largest nested array of objects, outermost first when expanding arrays)
+ * @param options.includeParentFields - Copy fields of enclosing objects into each record (default: false)
+ * @param options.nestedArrays - Keep arrays in one cell ('join'), or expand an array field into one row per element ('explode') or a related table ('normalize') (default: 'join')
+ * @param options.arrayField - Dot path of the array field to expand (default: the first array of objects)
  * @returns Parsed data with headers, rows, rawData, format, and metadata
- * @throws {ParseError} If the JSON is invalid or cannot be parsed
+ * @throws {ParseError} If the JSON is invalid, or the record path is malformed or matches nothing
  *
  * @example
  * ```typescript
@@ -35,12 +61,37 @@ import { ParseError, ErrorCodes } from '@/lib/errors';
  * const data = parseJson('[{"user":{"name":"John"}}]', { flattenNested: true });
  * // headers: ['user.name'], rows: [{ 'user.name': 'John' }]
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Records nested in an API response
+ * const data = parseJson('{"data":{"items":[{"id":1},{"id":2}]},"meta":{"page":1}}', {
+ *   recordPath: '$.data.items[*]',
+ *   includeParentFields: true,
+ * });
+ * // rows: [{ 'meta.page': 1, id: 1 }, { 'meta.page': 1, id: 2 }]
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // One row per line item
+ * const data = parseJson('[{"id":"A","lines":[{"sku":"x"},{"sku":"y"}]}]', {
+ *   nestedArrays: 'explode',
+ * });
+ * // rows: [{ id: 'A', 'lines.sku': 'x' }, { id: 'A', 'lines.sku': 'y' }]
+ * ```
  */
 export function parseJson(
   data: string,
   options: JsonOptions = {}
 ): ParsedData {
-  const { flattenNested = false } = options;
+  const {
+    flattenNested = false,
+    recordPath,
+    includeParentFields = false,
+    nestedArrays = 'join',
+    arrayField,
+  } = options;
 
   let parsed: unknown;
 
@@ -78,44 +129,249 @@ export function parseJson(
     };
   }
 
-  // Normalize to array
-  const dataArray = Array.isArray(parsed) ? parsed : [parsed];
+  // Arrays of objects the user can choose records from, largest first. A
+  // plain top-level array is the only choice, so it is not listed on its own
+  const recordPaths = findRecordPaths(parsed);
+  const hasChoices = recordPaths.length > (Array.isArray(parsed) ? 1 : 0);
+
+  // Use the requested records, else the top-level array, else the largest
+  // nested array. Arrays are expanded from the outermost records, so line
+  // items are read through their orders rather than on their own
+  const candidates = nestedArrays === 'join' ? recordPaths : outermostPaths(recordPaths);
+  const selectedPath =
+    recordPath ?? (Array.isArray(parsed) || candidates.length === 0 ? undefined : candidates[0]);
 
-  // Process rows
-  const processedRows = flattenNested
-    ? dataArray.map((row) => flattenObject(row))
-    : dataArray;
+  // Normalize to array
+  const dataArray: Record<string, unknown>[] = selectedPath
+    ? selectRecords(parsed, selectedPath, includeParentFields)
+    : Array.isArray(parsed)
+      ? parsed
+      : [parsed as Record<string, unknown>];
 
-  // Extract headers from all rows
-  const headerSet = new Set<string>();
-  processedRows.forEach((row) => {
-    Object.keys(row).forEach((key) => headerSet.add(key));
+  // Expand an array field into rows or a related table, then flatten
+  const expanded = expandArrayField(dataArray, {
+    mode: nestedArrays,
+    field: arrayField,
+    tableName: recordTableName(selectedPath),
+    flatten: flattenNested ? (row) => flattenObject(row) : undefined,
   });
-  const headers = Array.from(headerSet);
+  const { rows: processedRows, headers } = expanded;
 
   return {
     headers,
     rows: processedRows,
     rawData: parsed,
     format: 'json',
+    ...(expanded.tables && { sheetTables: expanded.tables }),
     metadata: {
       rowCount: processedRows.length,
       columnCount: headers.length,
+      ...(hasChoices && { recordPaths }),
+      ...(selectedPath && { recordPath: selectedPath }),
+      ...(expanded.field && { arrayField: expanded.field }),
     },
   };
 }
 
+/**
+ * Keeps the record paths nested in the fewest arrays.
+ * @internal
+ */
+function outermostPaths(paths: string[]): string[] {
+  const depth = (path: string) => path.split('[*]').length - 1;
+  const min = Math.min(...paths.map(depth));
+  return paths.filter((path) => depth(path) === min);
+}
+
+/**
+ * Names the table of the selected records after the last key of their path.
+ * @internal
+ */
+function recordTableName(path: string | undefined): string {
+  const key = path
+    ? parseRecordPath(path).reverse().find((token): token is { key: string } => 'key' in token)
+    : undefined;
+  return key?.key ?? 'records';
+}
+
+/**
+ * Splits a record path such as `$.data.items[*]` or `data['the items']`
+ * into steps.
+ * @internal
+ */
+function parseRecordPath(path: string): PathToken[] {
+  const tokens: PathToken[] = [];
+  const pattern = /\.([A-Za-z_$][\w$-]*)|\[\*\]|\.\*|\[(\d+)\]|\[(['"])((?:\\.|(?!\3).)*)\3\]/y;
+  let rest = path.trim().replace(/^\$/, '');
+  // A plain dot path may omit the leading dot
+  if (rest && !rest.startsWith('.') && !rest.startsWith('[')) {
+    rest = `.${rest}`;
+  }
+
+  while (pattern.lastIndex < rest.length) {
+    const match = pattern.exec(rest);
+    if (!match) {
+      throw new ParseError(
+        `Invalid record path "${path}"`,
+        ErrorCodes.INVALID_JSON,
+        undefined,
+        'json'
+      );
+    }
+    if (match[1] !== undefined) {
+      tokens.push({ key: match[1] });
+    } else if (match[2] !== undefined) {
+      tokens.push({ index: Number(match[2]) });
+    } else if (match[4] !== undefined) {
+      tokens.push({ key: match[4].replace(/\\(.)/g, '$1') });
+    } else {
+      tokens.push({ wildcard: true });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Formats steps as a JSONPath string, quoting keys that are not identifiers.
+ * @internal
+ */
+function formatRecordPath(tokens: PathToken[]): string {
+  return tokens.reduce((path, token) => {
+    if ('wildcard' in token) return `${path}[*]`;
+    if ('index' in token) return `${path}[${token.index}]`;
+    return /^[A-Za-z_$][\w$-]*$/.test(token.key)
+      ? `${path}.${token.key}`
+      : `${path}['${token.key.replace(/['\\]/g, '\\$&')}']`;
+  }, '$');
+}
+
+/**
+ * Lists the paths of all arrays of objects in a document, ordered by the
+ * total number of records they hold.
+ * @internal
+ */
+function findRecordPaths(root: unknown): string[] {
+  const counts = new Map<string, number>();
+
+  const visit = (value: unknown, tokens: PathToken[]) => {
+    if (tokens.length > MAX_DISCOVERY_DEPTH) return;
+
+    if (Array.isArray(value)) {
+      if (value.length === 0 || !value.every(isRecord)) return;
+      const path = [...tokens, { wildcard: true } as const];
+      const key = formatRecordPath(path);
+      counts.set(key, (counts.get(key) ?? 0) + value.length);
+      value.forEach((item) => visit(item, path));
+    } else if (isRecord(value)) {
+      for (const [key, nested] of Object.entries(value)) {
+        if (nested !== null && typeof nested === 'object') {
+          visit(nested, [...tokens, { key }]);
+        }
+      }
+    }
+  };
+  visit(root, []);
+
+  // Stable sort keeps shallower paths first among arrays of the same size
+  return Array.from(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([path]) => path);
+}
+
+/**
+ * Reads the records a path points at. A path ending at an array selects its
+ * elements, as if it ended with `[*]`.
+ * @internal
+ */
+function selectRecords(
+  root: unknown,
+  path: string,
+  includeParentFields: boolean
+): Record<string, unknown>[] {
+  const tokens = parseRecordPath(path);
+
+  // Each match carries the fields of the objects it was reached through
+  let matches: { value: unknown; parents: Record<string, unknown> }[] = [{ value: root, parents: {} }];
+  let prefix: string[] = [];
+
+  for (const token of tokens) {
+    const next: typeof matches = [];
+    for (const { value, parents } of matches) {
+      if ('key' in token) {
+        if (!isRecord(value) || !(token.key in value)) continue;
+        next.push({
+          value: value[token.key],
+          parents: includeParentFields ? { ...parents, ...siblingFields(value, token.key, prefix) } : parents,
+        });
+      } else if (Array.isArray(value)) {
+        const items = 'index' in token ? value.slice(token.index, token.index + 1) : value;
+        items.forEach((item) => next.push({ value: item, parents }));
+      }
+    }
+    matches = next;
+    if ('key' in token) prefix = [...prefix, token.key];
+  }
+
+  if (matches.length === 0) {
+    throw new ParseError(
+      `Record path "${path}" does not match any data`,
+      ErrorCodes.INVALID_JSON,
+      undefined,
+      'json'
+    );
+  }
+
+  return matches.flatMap(({ value, parents }) => {
+    const items = Array.isArray(value) ? value : [value];
+    return items.map((item) => ({ ...parents, ...(isRecord(item) ? item : { value: item }) }));
+  });
+}
+
+/**
+ * Returns the fields of an enclosing object other than the one leading to
+ * the records, flattened under their path. Arrays are left out.
+ * @internal
+ */
+function siblingFields(
+  parent: Record<string, unknown>,
+  exclude: string,
+  prefix: string[]
+): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(parent)) {
+    if (key === exclude || Array.isArray(value)) continue;
+    fields[key] = value;
+  }
+  return flattenObject(fields, prefix.join('.'));
+}
+
+/**
+ * Checks if a value is a JSON object (not an array or null).
+ * @internal
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
 /**
  * Writes data to JSON format.
  *
  * Converts structured data (headers and rows) to a JSON string.
  * Supports pretty printing with configurable indentation.
  *
+ * Rows are written as an array of objects by default; `objectOfArrays`
+ * produces columnar output with one array of values per header instead.
+ * With `unflatten`, dot-notation headers such as `address.city` are expanded
+ * back into nested objects.
+ *
  * @param headers - Array of column header names to include in output
  * @param rows - Array of row objects with values keyed by header names
  * @param options - Writing options
  * @param options.prettyPrint - Whether to format with indentation (default: true)
  * @param options.indentation - Number of spaces for indentation (default: 2)
+ * @param options.arrayFormat - 'arrayOfObjects' or columnar 'objectOfArrays' (default: 'arrayOfObjects')
+ * @param options.unflatten - Expand dot-notation keys into nested objects (default: false)
  * @returns JSON formatted string
  *
  * @example
@@ -133,13 +389,28 @@ export function parseJson(
  * //   }
  * // ]
  * ```
+ *
+ * @example
+ * ```typescript
+ * const json = writeJson(
+ *   ['name', 'address.city'],
+ *   [{ name: 'John', 'address.city': 'NYC' }, { name: 'Jane', 'address.city': 'LA' }],
+ *   { prettyPrint: false, arrayFormat: 'objectOfArrays', unflatten: true }
+ * );
+ * // Returns: {"name":["John","Jane"],"address":{"city":["NYC","LA"]}}
+ * ```
  */
 export function writeJson(
   headers: string[],
   rows: Record<string, unknown>[],
   options: JsonOptions = {}
 ): string {
-  const { prettyPrint = true, indentation = 2 } = options;
+  const {
+    prettyPrint = true,
+    indentation = 2,
+    arrayFormat = 'arrayOfObjects',
+    unflatten = false,
+  } = options;
 
   // Filter rows to only include specified headers
   const filteredRows = rows.map((row) => {
@@ -153,10 +424,32 @@ export function writeJson(
     return filtered;
   });
 
+  let output: unknown;
+  if (arrayFormat === 'objectOfArrays') {
+    const columns = headers.length > 0 ? headers : collectKeys(filteredRows);
+    const columnar: Record<string, unknown> = {};
+    columns.forEach((column) => {
+      columnar[column] = filteredRows.map((row) => row[column] ?? null);
+    });
+    output = unflatten ? unflattenObject(columnar) : columnar;
+  } else {
+    output = unflatten ? filteredRows.map((row) => unflattenObject(row)) : filteredRows;
+  }
+
   if (prettyPrint) {
-    return JSON.stringify(filteredRows, null, indentation);
+    return JSON.stringify(output, null, indentation);
   }
-  return JSON.stringify(filteredRows);
+  return JSON.stringify(output);
+}
+
+/**
+ * Collects the keys of all rows in order of first appearance.
+ * @internal
+ */
+function collectKeys(rows: Record<string, unknown>[]): string[] {
+  const keys = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => keys.add(key)));
+  return Array.from(keys);
 }
 
 /**
@@ -214,6 +507,9 @@ export function flattenObject(
  * Reverses the operation performed by `flattenObject`, reconstructing the original
  * nested hierarchy from dot-notation keys.
  *
+ * Keys come from input headers, so a key with a `__proto__`, `constructor` or
+ * `prototype` segment stays flat rather than reaching into object prototypes.
+ *
  * @param obj - The flattened object with dot-notation keys
  * @returns Nested object structure
  *
@@ -229,11 +525,23 @@ export function unflattenObject(obj: Record<string, unknown>): Record<string, un
   for (const key in obj) {
     if (Object.prototype.hasOwnProperty.call(obj, key)) {
       const keys = key.split('.');
+
+      // A key nested under another key's value, such as 'a.b' next to 'a', stays flat
+      if (
+        keys.some((k) => UNSAFE_KEYS.has(k)) ||
+        keys.some(
+          (_, i) => i > 0 && Object.prototype.hasOwnProperty.call(obj, keys.slice(0, i).join('.'))
+        )
+      ) {
+        setOwnProperty(result, key, obj[key]);
+        continue;
+      }
+
       let current = result;
 
       for (let i = 0; i < keys.length - 1; i++) {
         const k = keys[i];
-        if (!(k in current)) {
+        if (!Object.prototype.hasOwnProperty.call(current, k)) {
           current[k] = {};
         }
         current = current[k] as Record<string, unknown>;
@@ -245,3 +553,11 @@ export function unflattenObject(obj: Record<string, unknown>): Record<string, un
 
   return result;
 }
+
+/**
+ * Sets an own property, so that even a `__proto__` key is stored as data.
+ * @internal
+ */
+function setOwnProperty(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
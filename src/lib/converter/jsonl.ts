@@ -0,0 +1,248 @@
+/**
+ * @fileoverview JSON Lines (NDJSON) parsing and writing utilities.
+ *
+ * Each non-empty line holds one JSON object which becomes one row. Input is
+ * read line by line, so large log exports never have to be held as a single
+ * parsed document, and malformed lines are reported with their line number.
+ *
+ * @module lib/converter/jsonl
+ */
+
+import type { ParsedData, JsonOptions } from '@/types';
+import { ParseError, ErrorCodes } from '@/lib/errors';
+import { flattenObject } from './json';
+import type { StreamParseOptions } from './csv-stream';
+
+/**
+ * Bytes read from a file per streaming step (1MB)
+ */
+const STREAM_READ_SIZE = 1024 * 1024;
+
+/**
+ * Parses JSON Lines data into a structured tabular format.
+ *
+ * Every non-empty line must be a JSON object and becomes one row. Blank
+ * lines are skipped, and headers are the union of keys across all rows.
+ *
+ * @param data - The JSON Lines string to parse
+ * @param options - Parsing options
+ * @param options.flattenNested - Whether to flatten nested objects using dot notation (default: false)
+ * @returns Parsed data with headers, rows, format, and metadata
+ * @throws {ParseError} If a line is not valid JSON or not an object, with its line number
+ *
+ * @example
+ * ```typescript
+ * const data = parseJsonl('{"level":"info","msg":"started"}\n{"level":"error","msg":"failed"}');
+ * // headers: ['level', 'msg']
+ * // rows: [{ level: 'info', msg: 'started' }, { level: 'error', msg: 'failed' }]
+ * ```
+ */
+export function parseJsonl(data: string, options: JsonOptions = {}): ParsedData {
+  const collector = createRowCollector(options);
+
+  let start = 0;
+  let lineNumber = 1;
+  while (start <= data.length) {
+    const end = data.indexOf('\n', start);
+    const lineEnd = end === -1 ? data.length : end;
+    collector.addLine(data.slice(start, lineEnd), lineNumber);
+
+    if (end === -1) break;
+    start = end + 1;
+    lineNumber++;
+  }
+
+  return collector.result();
+}
+
+/**
+ * Parses a JSON Lines file incrementally, reading it in slices and decoding
+ * each complete line as it arrives.
+ *
+ * @param file - The file to parse
+ * @param options - Streaming options; `chunkSize` is the number of rows per `onChunk` call
+ * @returns Parsed data with headers, rows, format, and metadata
+ * @throws {ParseError} If a line is malformed or parsing is cancelled
+ *
+ * @example
+ * ```typescript
+ * const data = await parseJsonlStream(file, {
+ *   maxRows: 50000,
+ *   onProgress: (progress) => setProgress(progress),
+ * });
+ * ```
+ */
+export async function parseJsonlStream(
+  file: File,
+  options: StreamParseOptions & JsonOptions = {}
+): Promise<ParsedData> {
+  const { onProgress, onChunk, chunkSize = 1000, maxRows = 100000, signal } = options;
+
+  const collector = createRowCollector(options);
+  const decoder = new TextDecoder('utf-8');
+  let pending = '';
+  let lineNumber = 1;
+  let chunkStart = 0;
+  let truncated = false;
+
+  const flushChunk = () => {
+    if (onChunk && collector.rows.length > chunkStart) {
+      onChunk(collector.rows.slice(chunkStart));
+    }
+    chunkStart = collector.rows.length;
+  };
+
+  const consumeLines = (text: string) => {
+    const lines = text.split('\n');
+    for (const line of lines) {
+      if (collector.rows.length >= maxRows) {
+        truncated = truncated || line.trim() !== '';
+        continue;
+      }
+      collector.addLine(line, lineNumber);
+      lineNumber++;
+      if (collector.rows.length - chunkStart >= chunkSize) {
+        flushChunk();
+      }
+    }
+  };
+
+  for (let offset = 0; offset < file.size && !truncated; offset += STREAM_READ_SIZE) {
+    if (signal?.aborted) {
+      throw new ParseError('Parsing cancelled', ErrorCodes.TIMEOUT);
+    }
+
+    const bytes = await readSlice(file, offset, offset + STREAM_READ_SIZE);
+    const text = pending + decoder.decode(bytes, { stream: true });
+    const lastBreak = text.lastIndexOf('\n');
+
+    // Keep the trailing partial line for the next slice
+    pending = text.slice(lastBreak + 1);
+    if (lastBreak !== -1) {
+      consumeLines(text.slice(0, lastBreak));
+    }
+
+    onProgress?.(Math.min(100, ((offset + bytes.byteLength) / file.size) * 100));
+  }
+
+  if (!truncated) {
+    consumeLines(pending + decoder.decode());
+  }
+  flushChunk();
+  onProgress?.(100);
+
+  const result = collector.result();
+  result.metadata = {
+    rowCount: result.rows.length,
+    columnCount: result.headers.length,
+    fileName: file.name,
+    fileSize: file.size,
+    truncated,
+  };
+  return result;
+}
+
+/**
+ * Writes data to JSON Lines format.
+ *
+ * Emits one compact JSON object per row, each terminated by a newline.
+ *
+ * @param headers - Array of column header names to include in output
+ * @param rows - Array of row objects with values keyed by header names
+ * @returns JSON Lines formatted string
+ *
+ * @example
+ * ```typescript
+ * const output = writeJsonl(['name', 'age'], [{ name: 'John', age: 30 }, { name: 'Jane', age: 25 }]);
+ * // Returns: '{"name":"John","age":30}\n{"name":"Jane","age":25}\n'
+ * ```
+ */
+export function writeJsonl(headers: string[], rows: Record<string, unknown>[]): string {
+  return rows
+    .map((row) => {
+      if (headers.length === 0) return `${JSON.stringify(row)}\n`;
+      const filtered: Record<string, unknown> = {};
+      headers.forEach((header) => {
+        if (header in row) {
+          filtered[header] = row[header];
+        }
+      });
+      return `${JSON.stringify(filtered)}\n`;
+    })
+    .join('');
+}
+
+/**
+ * Accumulates rows and headers from individual JSON Lines.
+ * @internal
+ */
+function createRowCollector(options: JsonOptions) {
+  const { flattenNested = false } = options;
+  const rows: Record<string, unknown>[] = [];
+  const headerSet = new Set<string>();
+
+  return {
+    rows,
+    addLine(line: string, lineNumber: number) {
+      const trimmed = line.trim();
+      if (!trimmed) return;
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(trimmed);
+      } catch (error) {
+        throw new ParseError(
+          error instanceof Error
+            ? `Invalid JSON on line ${lineNumber}: ${error.message}`
+            : `Invalid JSON on line ${lineNumber}`,
+          ErrorCodes.INVALID_JSON,
+          { line: lineNumber },
+          'jsonl'
+        );
+      }
+
+      if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new ParseError(
+          `Line ${lineNumber} must be a JSON object`,
+          ErrorCodes.INVALID_JSON,
+          { line: lineNumber },
+          'jsonl'
+        );
+      }
+
+      const row = flattenNested
+        ? flattenObject(parsed as Record<string, unknown>)
+        : (parsed as Record<string, unknown>);
+      Object.keys(row).forEach((key) => headerSet.add(key));
+      rows.push(row);
+    },
+    result(): ParsedData {
+      const headers = Array.from(headerSet);
+      return {
+        headers,
+        rows,
+        format: 'jsonl',
+        metadata: {
+          rowCount: rows.length,
+          columnCount: headers.length,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Reads a byte range of a file.
+ * @internal
+ */
+function readSlice(file: File, start: number, end: number): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () =>
+      reject(
+        new ParseError('Failed to read JSON Lines file', ErrorCodes.INVALID_JSON, undefined, 'jsonl')
+      );
+    reader.readAsArrayBuffer(file.slice(start, end));
+  });
+}
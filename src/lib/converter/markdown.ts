@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Markdown table writing utilities.
+ *
+ * Renders tabular data as a GitHub-flavored Markdown table for pasting into
+ * pull requests, wikis and issue trackers.
+ *
+ * @module lib/converter/markdown
+ */
+
+import type { MarkdownOptions } from '@/types';
+import { inferColumnTypes } from './infer';
+
+/** Column types rendered right-aligned when alignment is 'auto' */
+const NUMERIC_TYPES = new Set(['integer', 'bigint', 'decimal']);
+
+/**
+ * Writes data as a GitHub-flavored Markdown table.
+ *
+ * Pipes in cells are escaped and line breaks become `<br>`, so every row
+ * stays on one line. Columns are padded to a common width for readability
+ * in the raw text.
+ *
+ * @param headers - Array of column header names
+ * @param rows - Array of row objects with values keyed by header names
+ * @param options - Markdown writing options
+ * @param options.alignment - 'auto' right-aligns numeric columns, 'none' leaves alignment to the renderer (default: 'auto')
+ * @param options.maxWidth - Truncate cells longer than this many characters with an ellipsis (default: no limit)
+ * @returns Markdown table string
+ *
+ * @example
+ * ```typescript
+ * const table = writeMarkdown(['name', 'age'], [{ name: 'John', age: 30 }]);
+ * // Returns:
+ * // | name | age |
+ * // | ---- | --: |
+ * // | John |  30 |
+ * ```
+ */
+export function writeMarkdown(
+  headers: string[],
+  rows: Record<string, unknown>[],
+  options: MarkdownOptions = {}
+): string {
+  const { alignment = 'auto', maxWidth } = options;
+
+  if (headers.length === 0) {
+    return '';
+  }
+
+  const rightAligned =
+    alignment === 'auto'
+      ? inferColumnTypes(headers, rows).map((column) => NUMERIC_TYPES.has(column.type))
+      : headers.map(() => false);
+
+  const headerCells = headers.map((header) => formatCell(header, maxWidth));
+  const bodyCells = rows.map((row) => headers.map((header) => formatCell(row[header], maxWidth)));
+
+  // Separator rows need at least three characters per column
+  const widths = headerCells.map((cell, i) =>
+    Math.max(3, cell.length, ...bodyCells.map((cells) => cells[i].length))
+  );
+
+  const renderRow = (cells: string[]) =>
+    `| ${cells
+      .map((cell, i) => (rightAligned[i] ? cell.padStart(widths[i]) : cell.padEnd(widths[i])))
+      .join(' | ')} |`;
+
+  const separator = `| ${widths
+    .map((width, i) => (rightAligned[i] ? `${'-'.repeat(width - 1)}:` : '-'.repeat(width)))
+    .join(' | ')} |`;
+
+  return [renderRow(headerCells), separator, ...bodyCells.map(renderRow)].join('\n');
+}
+
+/**
+ * Converts a value to the text of one table cell, truncating it to
+ * `maxWidth` characters before escaping.
+ * @internal
+ */
+function formatCell(value: unknown, maxWidth?: number): string {
+  let text: string;
+  if (value === null || value === undefined) {
+    text = '';
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  text = text.replace(/\r\n?/g, '\n');
+  if (maxWidth && maxWidth > 0 && text.length > maxWidth) {
+    text = `${text.slice(0, Math.max(0, maxWidth - 1))}…`;
+  }
+
+  return text.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+}
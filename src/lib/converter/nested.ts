@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Expansion of array fields in nested records.
+ *
+ * Document formats such as JSON and XML often hold one-to-many data, like
+ * orders with their line items. Rather than squeezing an array into a single
+ * cell, its elements can become rows of their own: either exploded into one
+ * row per element that repeats the parent's columns, or normalized into a
+ * related child table linked to the parent by a generated key.
+ *
+ * @module lib/converter/nested
+ */
+
+import type { NestedArrayMode, SheetTable } from '@/types';
+
+/** Generated key column added to parent rows of normalized data */
+export const ROW_ID_COLUMN = '_id';
+
+/** Column of child rows referencing the generated key of their parent */
+export const PARENT_ID_COLUMN = '_parent_id';
+
+/**
+ * Options for expanding an array field.
+ */
+export interface ExpandArrayOptions {
+  /** How arrays are handled (default: 'join', leaving records as they are) */
+  mode?: NestedArrayMode;
+  /** Dot path of the array field, detected when omitted */
+  field?: string;
+  /** Name of the parent table when normalizing (default: 'records') */
+  tableName?: string;
+  /** Flattens every output row, e.g. into dot notation keys */
+  flatten?: (record: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Result of expanding an array field.
+ */
+export interface ExpandedRecords {
+  /** Exploded rows, or the parent rows when normalizing */
+  rows: Record<string, unknown>[];
+  /** Headers of all rows */
+  headers: string[];
+  /** Dot path of the expanded field, if any */
+  field?: string;
+  /** Parent and child tables when normalizing */
+  tables?: SheetTable[];
+}
+
+/**
+ * Expands the elements of an array field into rows.
+ *
+ * In 'explode' mode each element becomes a row holding the parent's fields
+ * plus the element's fields prefixed with the field path, such as
+ * `lines.sku`. Records with an empty or missing array keep a single row.
+ *
+ * In 'normalize' mode parent rows get a generated `_id` and the elements
+ * move to a child table named `<tableName>_<field>`, whose rows reference
+ * their parent through `_parent_id`. Both tables are returned in `tables`.
+ * When the data already has a column of that name, the generated one is
+ * suffixed (`_id_1`, `_id_2`, ...) so that no value is overwritten.
+ *
+ * A single non-array value at the field path counts as a one-element array,
+ * as XML repeats an element only when it occurs more than once. Without a
+ * field, the first array of objects found in the records is used.
+ *
+ * @param records - Records to expand
+ * @param options - Expansion options
+ * @returns Expanded rows with their headers, and the related tables when normalizing
+ *
+ * @example
+ * ```typescript
+ * const orders = [{ id: 'A', lines: [{ sku: 'x' }, { sku: 'y' }] }];
+ *
+ * expandArrayField(orders, { mode: 'explode' }).rows;
+ * // [{ id: 'A', 'lines.sku': 'x' }, { id: 'A', 'lines.sku': 'y' }]
+ *
+ * expandArrayField(orders, { mode: 'normalize', tableName: 'orders' }).tables;
+ * // [
+ * //   { name: 'orders', headers: ['_id', 'id'], rows: [{ _id: 1, id: 'A' }] },
+ * //   { name: 'orders_lines', headers: ['_parent_id', 'sku'], rows: [
+ * //     { _parent_id: 1, sku: 'x' }, { _parent_id: 1, sku: 'y' },
+ * //   ] },
+ * // ]
+ * ```
+ */
+export function expandArrayField(
+  records: Record<string, unknown>[],
+  options: ExpandArrayOptions = {}
+): ExpandedRecords {
+  const { mode = 'join', tableName = 'records', flatten = (record) => record } = options;
+  const field = mode === 'join' ? undefined : options.field || findArrayField(records);
+
+  if (!field) {
+    const rows = records.map((record) => flatten(record));
+    return { rows, headers: collectKeys(rows) };
+  }
+
+  const path = field.split('.');
+
+  if (mode === 'explode') {
+    const rows = records.flatMap((record) => {
+      const parent = omitPath(record, path);
+      const items = getItems(record, path);
+      if (items.length === 0) return [flatten(parent)];
+      return items.map((item) => flatten({ ...parent, ...prefixItem(item, field) }));
+    });
+    return { rows, headers: collectKeys(rows), field };
+  }
+
+  const parentRows = records.map((record) => flatten(omitPath(record, path)));
+  const childRows = records.map((record) => getItems(record, path).map((item) => flatten(toRecord(item))));
+
+  const idColumn = uniqueColumn(ROW_ID_COLUMN, parentRows, flatten);
+  const parentIdColumn = uniqueColumn(PARENT_ID_COLUMN, childRows.flat(), flatten);
+  const parents = parentRows.map((row, index) => ({ ...flatten({ [idColumn]: index + 1 }), ...row }));
+  const children = childRows.flatMap((rows, index) =>
+    rows.map((row) => ({ ...flatten({ [parentIdColumn]: index + 1 }), ...row }))
+  );
+
+  const headers = collectKeys(parents);
+  return {
+    rows: parents,
+    headers,
+    field,
+    tables: [
+      { name: tableName, headers, rows: parents },
+      {
+        name: `${tableName}_${path.join('_')}`,
+        headers: children.length > 0 ? collectKeys(children) : Object.keys(flatten({ [parentIdColumn]: null })),
+        rows: children,
+      },
+    ],
+  };
+}
+
+/**
+ * Finds the dot path of the first array field, preferring arrays of objects.
+ * @internal
+ */
+function findArrayField(records: Record<string, unknown>[]): string | undefined {
+  let firstArray: string | undefined;
+
+  const visit = (value: Record<string, unknown>, prefix: string): string | undefined => {
+    for (const [key, child] of Object.entries(value)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (Array.isArray(child)) {
+        if (child.some(isRecord)) return path;
+        firstArray ??= path;
+      } else if (isRecord(child)) {
+        const found = visit(child, path);
+        if (found) return found;
+      }
+    }
+    return undefined;
+  };
+
+  for (const record of records) {
+    const found = visit(record, '');
+    if (found) return found;
+  }
+  return firstArray;
+}
+
+/**
+ * Returns the elements of the array at a path.
+ * @internal
+ */
+function getItems(record: Record<string, unknown>, path: string[]): unknown[] {
+  let value: unknown = record;
+  for (const key of path) {
+    value = isRecord(value) ? value[key] : undefined;
+  }
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Copies a record without the field at a path.
+ * @internal
+ */
+function omitPath(record: Record<string, unknown>, path: string[]): Record<string, unknown> {
+  const [key, ...rest] = path;
+  const { [key]: value, ...others } = record;
+  if (rest.length === 0) return others;
+  return isRecord(value) ? { ...record, [key]: omitPath(value, rest) } : record;
+}
+
+/**
+ * Prefixes the fields of an array element with the field path.
+ * @internal
+ */
+function prefixItem(item: unknown, field: string): Record<string, unknown> {
+  if (!isRecord(item)) return { [field]: item };
+  return Object.fromEntries(Object.entries(item).map(([key, value]) => [`${field}.${key}`, value]));
+}
+
+/**
+ * Wraps primitive array elements as `{ value }` rows.
+ * @internal
+ */
+function toRecord(item: unknown): Record<string, unknown> {
+  return isRecord(item) ? item : { value: item };
+}
+
+/**
+ * Checks for a plain object.
+ * @internal
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Returns a column name that, once flattened, is not used by any row,
+ * suffixing the base name until unique.
+ * @internal
+ */
+function uniqueColumn(
+  base: string,
+  rows: Record<string, unknown>[],
+  flatten: (record: Record<string, unknown>) => Record<string, unknown>
+): string {
+  const keys = new Set(collectKeys(rows));
+  const isTaken = (name: string) => Object.keys(flatten({ [name]: null })).some((key) => keys.has(key));
+  let name = base;
+  for (let n = 1; isTaken(name); n++) {
+    name = `${base}_${n}`;
+  }
+  return name;
+}
+
+/**
+ * Collects the keys of all rows in first-seen order.
+ * @internal
+ */
+function collectKeys(rows: Record<string, unknown>[]): string[] {
+  const keys = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => keys.add(key)));
+  return Array.from(keys);
+}
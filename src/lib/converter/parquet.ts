@@ -0,0 +1,264 @@
+import type { ParsedData, ParquetOptions, ParquetCompression, ColumnType } from '@/types';
+import type { SchemaElement, CompressionCodec } from 'hyparquet';
+import { ParseError, ErrorCodes } from '@/lib/errors';
+import { flattenObject } from './json';
+import { inferColumnTypes } from './infer';
+
+/**
+ * @fileoverview Apache Parquet reading and writing utilities using hyparquet.
+ *
+ * Column types are inferred from the data with `inferColumnTypes`, so numbers,
+ * booleans and dates keep their types in the written file. The parquet
+ * libraries are pure JavaScript and are dynamically imported on first use.
+ *
+ * @module lib/converter/parquet
+ */
+
+/** Default number of rows per row group */
+export const DEFAULT_ROW_GROUP_SIZE = 100000;
+
+/** Integers with up to this many digits always fit in INT64 */
+const MAX_INT64_DIGITS = 18;
+
+/** Integer literals written to INT64 columns */
+const INTEGER_LITERAL_PATTERN = /^[-+]?\d+$/;
+
+/** Parquet physical and converted types for each generic column type */
+const PARQUET_TYPES: Record<ColumnType, Pick<SchemaElement, 'type' | 'converted_type'>> = {
+  integer: { type: 'INT32' },
+  bigint: { type: 'INT64' },
+  decimal: { type: 'DOUBLE' },
+  boolean: { type: 'BOOLEAN' },
+  date: { type: 'INT32', converted_type: 'DATE' },
+  timestamp: { type: 'INT64', converted_type: 'TIMESTAMP_MILLIS' },
+  varchar: { type: 'BYTE_ARRAY', converted_type: 'UTF8' },
+  text: { type: 'BYTE_ARRAY', converted_type: 'UTF8' },
+};
+
+/** Parquet codec names for each compression option */
+const CODECS: Record<ParquetCompression, CompressionCodec> = {
+  snappy: 'SNAPPY',
+  gzip: 'GZIP',
+  none: 'UNCOMPRESSED',
+};
+
+/**
+ * Dynamically loads the parquet reader and writer along with the gzip codec.
+ * @internal
+ */
+async function getParquetModules() {
+  const [reader, writer, fflate] = await Promise.all([
+    import('hyparquet'),
+    import('hyparquet-writer'),
+    import('fflate'),
+  ]);
+  return { reader, writer, fflate };
+}
+
+/**
+ * Parses a Parquet file into a structured tabular format.
+ *
+ * SNAPPY, GZIP and uncompressed files are supported. 64-bit integers become
+ * numbers when they fit (strings otherwise), dates and timestamps become ISO
+ * 8601 strings and nested groups are flattened with dot notation. The Parquet
+ * type of each column is reported in `metadata.columnTypes`.
+ *
+ * @param data - The Parquet file contents
+ * @returns Promise resolving to parsed data with headers, rows, format, and metadata
+ * @throws {ParseError} If the file is not valid Parquet or uses an unsupported codec
+ *
+ * @example
+ * ```typescript
+ * const file = await fetch('/events.parquet').then((r) => r.arrayBuffer());
+ * const data = await parseParquet(file);
+ * // metadata.columnTypes: { id: 'INT32', name: 'UTF8', created: 'DATE' }
+ * ```
+ */
+export async function parseParquet(data: ArrayBuffer): Promise<ParsedData> {
+  const { reader, fflate } = await getParquetModules();
+
+  let metadata: ReturnType<typeof reader.parquetMetadata>;
+  let records: Record<string, unknown>[];
+  try {
+    metadata = reader.parquetMetadata(data);
+    records = await reader.parquetReadObjects({
+      file: data,
+      metadata,
+      compressors: { GZIP: (input) => fflate.gunzipSync(input) },
+    });
+  } catch (error) {
+    throw new ParseError(
+      error instanceof Error ? `Invalid Parquet file: ${error.message}` : 'Invalid Parquet file',
+      ErrorCodes.INVALID_PARQUET,
+      undefined,
+      'parquet'
+    );
+  }
+
+  // Top-level columns are the direct children of the root schema element
+  const columns: SchemaElement[] = [];
+  for (let i = 1; i < metadata.schema.length; i += 1 + (metadata.schema[i].num_children ?? 0)) {
+    columns.push(metadata.schema[i]);
+  }
+  const dateColumns = new Set(
+    columns.filter((column) => column.converted_type === 'DATE').map((column) => column.name)
+  );
+
+  const rows = records.map((record) => {
+    const row: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      row[key] = toPlainValue(value, dateColumns.has(key));
+    }
+    return flattenObject(row);
+  });
+
+  const headerSet = new Set<string>(rows.length === 0 ? columns.map((column) => column.name) : []);
+  rows.forEach((row) => {
+    Object.keys(row).forEach((key) => headerSet.add(key));
+  });
+  const headers = Array.from(headerSet);
+
+  return {
+    headers,
+    rows,
+    format: 'parquet',
+    metadata: {
+      rowCount: rows.length,
+      columnCount: headers.length,
+      columnTypes: Object.fromEntries(
+        columns.map((column) => [
+          column.name,
+          column.converted_type ?? column.logical_type?.type ?? column.type ?? 'GROUP',
+        ])
+      ),
+    },
+  };
+}
+
+/**
+ * Writes data to Parquet format.
+ *
+ * Each column's type is inferred from its values and mapped to a Parquet
+ * type (INT32, INT64, DOUBLE, BOOLEAN, DATE, TIMESTAMP_MILLIS or UTF8
+ * strings). All columns are optional so empty cells are stored as nulls.
+ *
+ * @param headers - Array of column header names
+ * @param rows - Array of row objects with values keyed by header names
+ * @param options - Parquet writing options
+ * @param options.compression - Page compression: 'snappy', 'gzip' or 'none' (default: 'snappy')
+ * @param options.rowGroupSize - Number of rows per row group (default: 100000)
+ * @returns Promise resolving to the Parquet file contents
+ *
+ * @example
+ * ```typescript
+ * const buffer = await writeParquet(
+ *   ['id', 'price', 'sold'],
+ *   [{ id: '1', price: '9.99', sold: '2024-01-15' }],
+ *   { compression: 'gzip' }
+ * );
+ * // Columns are written as INT32, DOUBLE and DATE
+ * ```
+ */
+export async function writeParquet(
+  headers: string[],
+  rows: Record<string, unknown>[],
+  options: ParquetOptions = {}
+): Promise<ArrayBuffer> {
+  const { compression = 'snappy', rowGroupSize = DEFAULT_ROW_GROUP_SIZE } = options;
+  const { writer, fflate } = await getParquetModules();
+
+  // Whole numbers beyond the safe integer range are inferred as decimals;
+  // store them as INT64 rather than losing precision in a DOUBLE. Values
+  // such as '5.' or 1e21 also have no scale but are not integer literals
+  const columns = inferColumnTypes(headers, rows).map((column) =>
+    column.type === 'decimal' &&
+    column.scale === 0 &&
+    (column.precision ?? 0) <= MAX_INT64_DIGITS &&
+    rows.every((row) => isIntegerLiteral(row[column.name]))
+      ? { ...column, type: 'bigint' as const }
+      : column
+  );
+
+  const schema: SchemaElement[] = [
+    { name: 'root', num_children: columns.length },
+    ...columns.map((column) => ({
+      name: column.name,
+      ...PARQUET_TYPES[column.type],
+      repetition_type: 'OPTIONAL' as const,
+    })),
+  ];
+
+  return writer.parquetWriteBuffer({
+    columnData: columns.map((column) => ({
+      name: column.name,
+      data: rows.map((row) => toParquetValue(row[column.name], column.type)),
+    })),
+    schema,
+    codec: CODECS[compression],
+    compressors: { GZIP: (input) => fflate.gzipSync(input) },
+    rowGroupSize,
+  });
+}
+
+/**
+ * Checks that a cell is empty or an integer that `BigInt` accepts as written.
+ * @internal
+ */
+function isIntegerLiteral(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return true;
+  return (typeof value === 'number' || typeof value === 'string') && INTEGER_LITERAL_PATTERN.test(String(value));
+}
+
+/**
+ * Converts a cell value to the representation expected for a Parquet column.
+ * @internal
+ */
+function toParquetValue(value: unknown, type: ColumnType): unknown {
+  if (value === null || value === undefined || (value === '' && type !== 'varchar' && type !== 'text')) {
+    return null;
+  }
+
+  switch (type) {
+    case 'integer':
+    case 'decimal':
+      return Number(value);
+    case 'bigint':
+      return BigInt(String(value).replace(/^\+/, ''));
+    case 'boolean':
+      return typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true';
+    case 'date':
+    case 'timestamp':
+      return value instanceof Date ? value : new Date(String(value));
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Replaces values that do not survive tabular output: 64-bit integers become
+ * numbers (or strings when too large) and dates become ISO 8601 strings.
+ * @internal
+ */
+function toPlainValue(value: unknown, isDate = false): unknown {
+  if (typeof value === 'bigint') {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+      ? Number(value)
+      : value.toString();
+  }
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return isDate ? iso.slice(0, 10) : iso;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => toPlainValue(item));
+  }
+  if (value instanceof Uint8Array) {
+    return Array.from(value, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, toPlainValue(nested)])
+    );
+  }
+  return value;
+}
@@ -2,19 +2,214 @@
  * @fileoverview SQL generation utilities for exporting tabular data as SQL statements.
  *
  * This module generates SQL INSERT statements from tabular data with proper
- * identifier escaping and value quoting to prevent SQL injection.
+ * identifier escaping and value quoting to prevent SQL injection. Quoting,
+ * literals and limits follow the selected SQL dialect. It also parses SQL
+ * dumps (CREATE TABLE and INSERT ... VALUES statements) back into tables.
  *
  * @module lib/converter/sql
  */
 
-import type { SqlOptions } from '@/types';
+import type { ColumnType, ParsedData, SheetTable, SqlDialect, SqlOptions } from '@/types';
+import { ParseError, ValidationError, ErrorCodes } from '@/lib/errors';
+import { inferColumnTypes, type InferredColumn } from './infer';
+
+/**
+ * Dialect-specific rules used when generating SQL.
+ * @internal
+ */
+interface DialectConfig {
+  /** Wraps an already-sanitized identifier in the dialect's quote characters */
+  quoteIdentifier: (identifier: string) => string;
+  /** Literal used for boolean true */
+  trueLiteral: string;
+  /** Literal used for boolean false */
+  falseLiteral: string;
+  /** Escapes and quotes a string literal */
+  quoteString: (value: string) => string;
+  /** Reserved words in addition to the common SQL keywords */
+  reservedWords: string[];
+  /** Maximum number of rows allowed in a single VALUES list */
+  maxBatchSize?: number;
+  /** Maps an inferred column to the dialect's column type */
+  columnType: (column: InferredColumn) => string;
+  /** Statement form used in upsert mode */
+  upsertStyle: 'onConflict' | 'onDuplicateKey' | 'merge';
+  /** Type of text primary key columns, which must be indexable */
+  keyTextType: string;
+}
+
+/**
+ * Keywords reserved in every supported dialect.
+ * @internal
+ */
+const COMMON_RESERVED_WORDS = [
+  'SELECT', 'FROM', 'WHERE', 'INSERT', 'UPDATE', 'DELETE', 'CREATE', 'DROP',
+  'TABLE', 'INDEX', 'VIEW', 'AND', 'OR', 'NOT', 'NULL', 'TRUE', 'FALSE',
+  'ORDER', 'BY', 'GROUP', 'HAVING', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER',
+  'ON', 'AS', 'INTO', 'VALUES', 'SET', 'LIKE', 'IN', 'BETWEEN', 'IS',
+];
+
+/**
+ * Raw column types accepted as overrides: a type name with an optional
+ * (length) or (precision, scale) suffix. Anything else is ignored so
+ * overrides cannot inject SQL into CREATE TABLE. Also enforced by the
+ * request schema.
+ */
+export const RAW_COLUMN_TYPE_PATTERN = /^[a-zA-Z][a-zA-Z0-9_ ]*(\(\s*(\d+|MAX)\s*(,\s*\d+\s*)?\))?$/;
+
+/** Numeric strings written unquoted into numeric columns */
+const NUMERIC_LITERAL_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Escapes a string literal by doubling single quotes (ANSI SQL).
+ * @internal
+ */
+function quoteAnsiString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Formats the DECIMAL(p,s) suffix of an inferred decimal column.
+ * @internal
+ */
+function decimalArgs(column: InferredColumn): string {
+  return `(${column.precision ?? 18}, ${column.scale ?? 0})`;
+}
+
+const DIALECTS: Record<SqlDialect, DialectConfig> = {
+  postgresql: {
+    quoteIdentifier: (identifier) => `"${identifier}"`,
+    trueLiteral: 'TRUE',
+    falseLiteral: 'FALSE',
+    quoteString: quoteAnsiString,
+    reservedWords: [
+      'ALL', 'ANALYSE', 'ANALYZE', 'ANY', 'ARRAY', 'ASC', 'CASE', 'CAST', 'CHECK',
+      'COLUMN', 'CONSTRAINT', 'DEFAULT', 'DESC', 'DISTINCT', 'DO', 'ELSE', 'END',
+      'EXCEPT', 'FOR', 'FOREIGN', 'GRANT', 'LIMIT', 'OFFSET', 'PRIMARY',
+      'REFERENCES', 'RETURNING', 'THEN', 'TO', 'UNION', 'UNIQUE', 'USER', 'USING',
+      'WHEN', 'WITH',
+    ],
+    columnType: (column) => {
+      const types: Record<ColumnType, string> = {
+        integer: 'INTEGER',
+        bigint: 'BIGINT',
+        decimal: `DECIMAL${decimalArgs(column)}`,
+        boolean: 'BOOLEAN',
+        date: 'DATE',
+        timestamp: 'TIMESTAMP',
+        varchar: `VARCHAR(${column.length ?? 255})`,
+        text: 'TEXT',
+      };
+      return types[column.type];
+    },
+    upsertStyle: 'onConflict',
+    keyTextType: 'TEXT',
+  },
+  mysql: {
+    quoteIdentifier: (identifier) => `\`${identifier}\``,
+    trueLiteral: 'TRUE',
+    falseLiteral: 'FALSE',
+    // MySQL treats backslash as an escape character inside string literals
+    quoteString: (value) =>
+      `'${value
+        .replace(/\\/g, '\\\\')
+        .replace(/'/g, "''")
+        .replace(/\0/g, '\\0')}'`,
+    reservedWords: [
+      'ALL', 'ALTER', 'ASC', 'CASE', 'CHECK', 'COLUMN', 'CONSTRAINT', 'DATABASE',
+      'DEFAULT', 'DESC', 'DISTINCT', 'DIV', 'DUAL', 'ELSE', 'EXISTS', 'FOR',
+      'FOREIGN', 'INTERVAL', 'KEY', 'KEYS', 'LIMIT', 'LOCK', 'MOD', 'PRIMARY',
+      'RANGE', 'READ', 'REFERENCES', 'REPLACE', 'SCHEMA', 'SHOW', 'TO', 'UNION',
+      'UNIQUE', 'UNSIGNED', 'USAGE', 'USE', 'USING', 'WHEN', 'WITH', 'WRITE',
+    ],
+    columnType: (column) => {
+      const types: Record<ColumnType, string> = {
+        integer: 'INT',
+        bigint: 'BIGINT',
+        decimal: `DECIMAL${decimalArgs(column)}`,
+        boolean: 'BOOLEAN',
+        date: 'DATE',
+        timestamp: 'DATETIME',
+        varchar: `VARCHAR(${column.length ?? 255})`,
+        text: 'TEXT',
+      };
+      return types[column.type];
+    },
+    upsertStyle: 'onDuplicateKey',
+    // TEXT cannot be indexed without a prefix length
+    keyTextType: 'VARCHAR(255)',
+  },
+  sqlite: {
+    quoteIdentifier: (identifier) => `"${identifier}"`,
+    trueLiteral: '1',
+    falseLiteral: '0',
+    quoteString: quoteAnsiString,
+    reservedWords: [
+      'ABORT', 'ALL', 'ALTER', 'ASC', 'ATTACH', 'AUTOINCREMENT', 'CASE', 'CHECK',
+      'COLUMN', 'CONSTRAINT', 'DEFAULT', 'DESC', 'DETACH', 'DISTINCT', 'ELSE',
+      'ESCAPE', 'EXCEPT', 'EXISTS', 'FOREIGN', 'GLOB', 'INDEXED', 'ISNULL',
+      'LIMIT', 'NOTNULL', 'OFFSET', 'PRAGMA', 'PRIMARY', 'REFERENCES', 'REINDEX',
+      'RENAME', 'REPLACE', 'ROWID', 'THEN', 'TO', 'UNION', 'UNIQUE', 'VACUUM',
+      'WHEN', 'WITH',
+    ],
+    // SQLite uses type affinity: lengths are ignored and dates are stored as ISO text
+    columnType: (column) => {
+      const types: Record<ColumnType, string> = {
+        integer: 'INTEGER',
+        bigint: 'INTEGER',
+        decimal: `NUMERIC${decimalArgs(column)}`,
+        boolean: 'INTEGER',
+        date: 'TEXT',
+        timestamp: 'TEXT',
+        varchar: 'TEXT',
+        text: 'TEXT',
+      };
+      return types[column.type];
+    },
+    upsertStyle: 'onConflict',
+    keyTextType: 'TEXT',
+  },
+  mssql: {
+    quoteIdentifier: (identifier) => `[${identifier}]`,
+    trueLiteral: '1',
+    falseLiteral: '0',
+    // N'' prefix keeps Unicode text intact in NVARCHAR columns
+    quoteString: (value) => `N${quoteAnsiString(value)}`,
+    reservedWords: [
+      'ADD', 'ALL', 'ALTER', 'ASC', 'BACKUP', 'BEGIN', 'BREAK', 'CASE', 'CHECK',
+      'COLUMN', 'COMMIT', 'CONSTRAINT', 'DATABASE', 'DEFAULT', 'DESC', 'DISTINCT',
+      'ELSE', 'END', 'EXEC', 'EXECUTE', 'EXISTS', 'FOREIGN', 'FUNCTION', 'GO',
+      'IDENTITY', 'KEY', 'MERGE', 'PRIMARY', 'PROCEDURE', 'PUBLIC', 'REFERENCES',
+      'RETURN', 'ROLLBACK', 'SCHEMA', 'TOP', 'TRAN', 'TRANSACTION', 'TRIGGER',
+      'UNION', 'UNIQUE', 'USER', 'WHEN', 'WITH',
+    ],
+    maxBatchSize: 1000,
+    columnType: (column) => {
+      const types: Record<ColumnType, string> = {
+        integer: 'INT',
+        bigint: 'BIGINT',
+        decimal: `DECIMAL${decimalArgs(column)}`,
+        boolean: 'BIT',
+        date: 'DATE',
+        timestamp: 'DATETIME2',
+        varchar: `NVARCHAR(${column.length ?? 255})`,
+        text: 'NVARCHAR(MAX)',
+      };
+      return types[column.type];
+    },
+    upsertStyle: 'merge',
+    // Index keys are limited to 900 bytes
+    keyTextType: 'NVARCHAR(450)',
+  },
+};
 
 /**
  * Generates SQL statements from tabular data.
  *
  * Creates INSERT statements with proper escaping for identifiers and values.
  * Optionally includes CREATE TABLE statement. Supports batch inserts for
- * improved performance with large datasets.
+ * improved performance with large datasets. Identifier quoting, boolean
+ * literals, string escaping and batch limits follow the selected dialect.
  *
  * @param headers - Array of column header names (used as column identifiers)
  * @param rows - Array of row data objects keyed by header names
@@ -22,7 +217,14 @@ import type { SqlOptions } from '@/types';
  * @param options.tableName - Name of the target table (default: 'my_table')
  * @param options.includeCreate - Include CREATE TABLE statement (default: false)
  * @param options.batchSize - Number of rows per INSERT statement (default: 100)
- * @returns SQL string with CREATE TABLE (if requested) and INSERT statements
+ * @param options.dialect - Target SQL dialect (default: 'postgresql')
+ * @param options.inferTypes - Infer column types for CREATE TABLE instead of TEXT, and write values
+ *   as those types: empty cells as NULL, 'true'/'false' as boolean literals, numbers unquoted (default: false)
+ * @param options.columnTypes - Per-column type overrides: a generic type such as 'integer' or a raw SQL type
+ * @param options.mode - 'insert' for plain INSERTs or 'upsert' to update rows whose keys exist (default: 'insert')
+ * @param options.keyColumns - Columns identifying a row in upsert mode
+ * @returns SQL string with CREATE TABLE (if requested) and INSERT, upsert or MERGE statements
+ * @throws {ValidationError} If upsert mode is used without valid key columns
  *
  * @example
  * ```typescript
@@ -49,6 +251,39 @@ import type { SqlOptions } from '@/types';
  * const sql = writeSql(headers, largeDataset, { batchSize: 500 });
  * // Generates multiple INSERT statements, each with up to 500 rows
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Inferred column types
+ * const sql = writeSql(['id', 'price'], [{ id: 1, price: '9.99' }], {
+ *   includeCreate: true,
+ *   inferTypes: true,
+ *   dialect: 'mysql',
+ * });
+ * // CREATE TABLE my_table (
+ * //   id INT NOT NULL,
+ * //   price DECIMAL(3, 2) NOT NULL
+ * // );
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Upsert keyed on id (PostgreSQL / SQLite)
+ * const sql = writeSql(['id', 'name'], rows, { mode: 'upsert', keyColumns: ['id'] });
+ * // INSERT INTO my_table (id, name)
+ * // VALUES
+ * // (1, 'John')
+ * // ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name;
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // MSSQL output: bracket-quoted identifiers, N'' strings, 1/0 booleans
+ * const sql = writeSql(['order', 'active'], [{ order: 'A', active: true }], { dialect: 'mssql' });
+ * // INSERT INTO my_table ([order], active)
+ * // VALUES
+ * // (N'A', 1);
+ * ```
  */
 export function writeSql(
   headers: string[],
@@ -59,54 +294,281 @@ export function writeSql(
     tableName = 'my_table',
     includeCreate = false,
     batchSize = 100,
+    dialect = 'postgresql',
+    inferTypes = false,
+    columnTypes = {},
+    mode = 'insert',
+    keyColumns = [],
   } = options;
 
+  if (mode === 'upsert') {
+    validateKeyColumns(headers, keyColumns);
+  }
+
+  const config = DIALECTS[dialect] ?? DIALECTS.postgresql;
+  const effectiveBatchSize = config.maxBatchSize
+    ? Math.min(batchSize, config.maxBatchSize)
+    : batchSize;
+  const quotedTable = escapeIdentifier(tableName, config);
+
   const statements: string[] = [];
 
+  const inferred = inferTypes ? inferColumnTypes(headers, rows) : null;
+  // Values are written to match the column type declared for them, so that
+  // CSV text such as '' or 'true' is not inserted into numeric or boolean columns
+  const valueTypes = headers.map((h, i) => {
+    const override = columnTypes[h];
+    return override && isColumnType(override) ? override : inferred?.[i].type;
+  });
+
   // Generate CREATE TABLE statement if requested
   if (includeCreate) {
-    const columns = headers.map((h) => `  ${escapeIdentifier(h)} TEXT`).join(',\n');
-    statements.push(`CREATE TABLE ${escapeIdentifier(tableName)} (\n${columns}\n);`);
+    const columns = headers
+      .map((h, i) => {
+        const isKey = mode === 'upsert' && keyColumns.includes(h);
+        const definition = getColumnDefinition(h, inferred?.[i], columnTypes[h], config, isKey);
+        return `  ${escapeIdentifier(h, config)} ${definition}`;
+      })
+      .join(',\n');
+    // Upserts need a unique constraint on the key columns to detect conflicts
+    const primaryKey = mode === 'upsert'
+      ? `,\n  PRIMARY KEY (${keyColumns.map((k) => escapeIdentifier(k, config)).join(', ')})`
+      : '';
+    statements.push(`CREATE TABLE ${quotedTable} (\n${columns}${primaryKey}\n);`);
     statements.push('');
   }
 
   // Generate INSERT statements
-  const escapedHeaders = headers.map(escapeIdentifier);
+  const escapedHeaders = headers.map((h) => escapeIdentifier(h, config));
   const headerList = escapedHeaders.join(', ');
+  const escapedKeys = keyColumns.map((k) => escapeIdentifier(k, config));
 
-  for (let i = 0; i < rows.length; i += batchSize) {
-    const batch = rows.slice(i, i + batchSize);
+  for (let i = 0; i < rows.length; i += effectiveBatchSize) {
+    const batch = rows.slice(i, i + effectiveBatchSize);
     const values = batch
       .map((row) => {
-        const vals = headers.map((h) => escapeValue(row[h]));
+        const vals = headers.map((h, j) => escapeTypedValue(row[h], valueTypes[j], config));
         return `(${vals.join(', ')})`;
       })
       .join(',\n');
 
-    statements.push(
-      `INSERT INTO ${escapeIdentifier(tableName)} (${headerList})\nVALUES\n${values};`
-    );
+    if (mode === 'upsert') {
+      statements.push(buildUpsert(quotedTable, escapedHeaders, escapedKeys, values, config));
+    } else {
+      statements.push(
+        `INSERT INTO ${quotedTable} (${headerList})\nVALUES\n${values};`
+      );
+    }
   }
 
   return statements.join('\n\n');
 }
 
+/**
+ * Converts several related tables to SQL, one block of statements per table.
+ *
+ * Used for related tables, such as the sheets of a workbook read separately
+ * or nested arrays normalized into child tables. Each table is written under
+ * its own name, so `tableName` does not apply. Tables lacking any of the
+ * upsert key columns are written as plain inserts.
+ *
+ * @param tables - Tables to write, parents before children
+ * @param options - SQL generation options shared by every table
+ * @returns SQL statements for all tables
+ *
+ * @example
+ * ```typescript
+ * const sql = writeSqlTables([
+ *   { name: 'orders', headers: ['_id', 'id'], rows: [{ _id: 1, id: 'A' }] },
+ *   { name: 'orders_lines', headers: ['_parent_id', 'sku'], rows: [{ _parent_id: 1, sku: 'x' }] },
+ * ]);
+ * // INSERT INTO orders (_id, id)
+ * // VALUES
+ * // (1, 'A');
+ * //
+ * // INSERT INTO orders_lines (_parent_id, sku)
+ * // VALUES
+ * // (1, 'x');
+ * ```
+ */
+export function writeSqlTables(tables: SheetTable[], options: SqlOptions = {}): string {
+  const { keyColumns = [] } = options;
+
+  return tables
+    .map((table) => {
+      const lacksKeys = keyColumns.some((k) => !table.headers.includes(k));
+      return writeSql(table.headers, table.rows, {
+        ...options,
+        tableName: table.name,
+        mode: lacksKeys ? 'insert' : options.mode,
+      });
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Ensures upsert key columns are present and refer to existing headers.
+ *
+ * @param headers - Array of column header names
+ * @param keyColumns - Columns identifying a row
+ * @throws {ValidationError} If no key columns are given or one is not a header
+ * @internal
+ */
+function validateKeyColumns(headers: string[], keyColumns: string[]): void {
+  if (keyColumns.length === 0) {
+    throw new ValidationError(
+      'Upsert mode requires at least one key column',
+      ErrorCodes.MISSING_REQUIRED,
+      { field: 'keyColumns' }
+    );
+  }
+
+  const unknown = keyColumns.filter((k) => !headers.includes(k));
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Key columns not found in data: ${unknown.join(', ')}`,
+      ErrorCodes.INVALID_INPUT,
+      { field: 'keyColumns', value: unknown }
+    );
+  }
+}
+
+/**
+ * Builds one upsert statement for a batch of rows.
+ *
+ * - PostgreSQL/SQLite: `INSERT ... ON CONFLICT (keys) DO UPDATE SET col = EXCLUDED.col`
+ * - MySQL: `INSERT ... ON DUPLICATE KEY UPDATE col = VALUES(col)`
+ * - MSSQL: `MERGE INTO ... USING (VALUES ...) AS source ... WHEN MATCHED / WHEN NOT MATCHED`
+ *
+ * When every column is a key there is nothing to update, so conflicting rows
+ * are left unchanged.
+ *
+ * @param table - Escaped table name
+ * @param columns - Escaped column names
+ * @param keys - Escaped key column names
+ * @param values - Formatted VALUES rows for the batch
+ * @param config - Dialect rules selecting the statement form
+ * @returns Upsert statement terminated with a semicolon
+ * @internal
+ */
+function buildUpsert(
+  table: string,
+  columns: string[],
+  keys: string[],
+  values: string,
+  config: DialectConfig
+): string {
+  const columnList = columns.join(', ');
+  const updateColumns = columns.filter((c) => !keys.includes(c));
+
+  switch (config.upsertStyle) {
+    case 'onDuplicateKey': {
+      // Assigning a key to itself is the MySQL idiom for "ignore duplicates"
+      const assignments = updateColumns.length > 0
+        ? updateColumns.map((c) => `${c} = VALUES(${c})`).join(', ')
+        : `${keys[0]} = ${keys[0]}`;
+      return `INSERT INTO ${table} (${columnList})\nVALUES\n${values}\nON DUPLICATE KEY UPDATE ${assignments};`;
+    }
+
+    case 'merge': {
+      const matchCondition = keys.map((k) => `target.${k} = source.${k}`).join(' AND ');
+      const lines = [
+        `MERGE INTO ${table} AS target`,
+        `USING (VALUES\n${values}\n) AS source (${columnList})`,
+        `ON ${matchCondition}`,
+      ];
+      if (updateColumns.length > 0) {
+        lines.push(
+          `WHEN MATCHED THEN UPDATE SET ${updateColumns.map((c) => `target.${c} = source.${c}`).join(', ')}`
+        );
+      }
+      lines.push(
+        `WHEN NOT MATCHED THEN INSERT (${columnList}) VALUES (${columns.map((c) => `source.${c}`).join(', ')});`
+      );
+      return lines.join('\n');
+    }
+
+    case 'onConflict':
+    default: {
+      const action = updateColumns.length > 0
+        ? `DO UPDATE SET ${updateColumns.map((c) => `${c} = EXCLUDED.${c}`).join(', ')}`
+        : 'DO NOTHING';
+      return `INSERT INTO ${table} (${columnList})\nVALUES\n${values}\nON CONFLICT (${keys.join(', ')}) ${action};`;
+    }
+  }
+}
+
+/**
+ * Builds the type part of a CREATE TABLE column definition.
+ *
+ * An explicit override wins over inference: generic type names are mapped
+ * to the dialect, other safe type strings are used as raw SQL types. Without an
+ * override or inference result the column is typed as TEXT.
+ *
+ * Primary key columns are always NOT NULL, and text keys use the dialect's
+ * indexable text type, since MySQL and MSSQL cannot index TEXT columns.
+ *
+ * @param name - Column header name
+ * @param inferred - Inferred column descriptor, if inference is enabled
+ * @param override - Caller-supplied type for this column
+ * @param config - Dialect rules used for type names
+ * @param isKey - Whether the column is part of the primary key
+ * @returns Column type, followed by NOT NULL for keys and inferred non-nullable columns
+ * @internal
+ */
+function getColumnDefinition(
+  name: string,
+  inferred: InferredColumn | undefined,
+  override: string | undefined,
+  config: DialectConfig,
+  isKey = false
+): string {
+  const notNull = isKey || (inferred && !inferred.nullable) ? ' NOT NULL' : '';
+
+  if (override && override.length <= 64) {
+    if (isColumnType(override)) {
+      // Keep inferred sizes when the override names the same generic type
+      const column = inferred?.type === override ? inferred : { name, type: override, nullable: true };
+      return `${isKey && override === 'text' ? config.keyTextType : config.columnType(column)}${notNull}`;
+    }
+    if (RAW_COLUMN_TYPE_PATTERN.test(override)) {
+      return `${override}${notNull}`;
+    }
+  }
+
+  if (!inferred || (isKey && inferred.type === 'text')) {
+    return isKey ? `${config.keyTextType}${notNull}` : 'TEXT';
+  }
+
+  return `${config.columnType(inferred)}${notNull}`;
+}
+
+/**
+ * Checks if a string names one of the generic column types.
+ * @internal
+ */
+function isColumnType(value: string): value is ColumnType {
+  return ['integer', 'bigint', 'decimal', 'boolean', 'date', 'timestamp', 'varchar', 'text'].includes(value);
+}
+
 /**
  * Escapes a SQL identifier (table name, column name) to prevent injection.
  *
  * Removes special characters and quotes identifiers that start with numbers
- * or are SQL reserved words.
+ * or are reserved words in the target dialect.
  *
  * @param identifier - The identifier to escape
+ * @param config - Dialect rules used for quoting
  * @returns Safe SQL identifier string
  * @internal
  */
-function escapeIdentifier(identifier: string): string {
+function escapeIdentifier(identifier: string, config: DialectConfig): string {
   // Remove or replace invalid characters
   const cleaned = identifier.replace(/[^a-zA-Z0-9_]/g, '_');
   // Quote if necessary
-  if (/^[0-9]/.test(cleaned) || isReservedWord(cleaned)) {
-    return `"${cleaned}"`;
+  if (/^[0-9]/.test(cleaned) || isReservedWord(cleaned, config)) {
+    return config.quoteIdentifier(cleaned);
   }
   return cleaned;
 }
@@ -115,13 +577,14 @@ function escapeIdentifier(identifier: string): string {
  * Escapes a value for safe inclusion in SQL statements.
  *
  * Handles NULL, numbers, booleans, and strings with proper quoting.
- * Single quotes in strings are escaped by doubling them.
+ * Boolean literals and string escaping follow the target dialect.
  *
  * @param value - The value to escape
+ * @param config - Dialect rules used for literals
  * @returns SQL-safe value string
  * @internal
  */
-function escapeValue(value: unknown): string {
+function escapeValue(value: unknown, config: DialectConfig): string {
   if (value === null || value === undefined) {
     return 'NULL';
   }
@@ -131,29 +594,739 @@ function escapeValue(value: unknown): string {
   }
 
   if (typeof value === 'boolean') {
-    return value ? 'TRUE' : 'FALSE';
+    return value ? config.trueLiteral : config.falseLiteral;
+  }
+
+  return config.quoteString(String(value));
+}
+
+/**
+ * Escapes a value as a literal of its column's generic type.
+ *
+ * Text read from CSV is converted: empty strings become NULL in non-text
+ * columns, 'true'/'false' become the dialect's boolean literals and numeric
+ * strings are written unquoted. Values that do not fit the type, and
+ * columns without a known type, are escaped as usual.
+ *
+ * @param value - The value to escape
+ * @param type - Generic type of the column, if known
+ * @param config - Dialect rules used for literals
+ * @returns SQL-safe value string
+ * @internal
+ */
+function escapeTypedValue(value: unknown, type: ColumnType | undefined, config: DialectConfig): string {
+  if (typeof value !== 'string' || !type || type === 'varchar' || type === 'text') {
+    return escapeValue(value, config);
+  }
+
+  const trimmed = value.trim();
+  if (trimmed === '') {
+    return 'NULL';
+  }
+  if (type === 'boolean' && /^(true|false)$/i.test(trimmed)) {
+    return trimmed.toLowerCase() === 'true' ? config.trueLiteral : config.falseLiteral;
+  }
+  if ((type === 'integer' || type === 'bigint' || type === 'decimal') && NUMERIC_LITERAL_PATTERN.test(trimmed)) {
+    return trimmed.replace(/^\+/, '');
   }
 
-  // String value - escape single quotes
-  const str = String(value);
-  return `'${str.replace(/'/g, "''")}'`;
+  return escapeValue(value, config);
 }
 
 /**
- * Checks if a word is a SQL reserved keyword.
+ * Checks if a word is a reserved keyword in the target dialect.
  *
  * Used to determine if an identifier needs to be quoted.
  *
  * @param word - The word to check
+ * @param config - Dialect rules providing the extra reserved words
  * @returns True if the word is a reserved SQL keyword
  * @internal
  */
-function isReservedWord(word: string): boolean {
-  const reserved = [
-    'SELECT', 'FROM', 'WHERE', 'INSERT', 'UPDATE', 'DELETE', 'CREATE', 'DROP',
-    'TABLE', 'INDEX', 'VIEW', 'AND', 'OR', 'NOT', 'NULL', 'TRUE', 'FALSE',
-    'ORDER', 'BY', 'GROUP', 'HAVING', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER',
-    'ON', 'AS', 'INTO', 'VALUES', 'SET', 'LIKE', 'IN', 'BETWEEN', 'IS',
-  ];
-  return reserved.includes(word.toUpperCase());
+function isReservedWord(word: string, config: DialectConfig): boolean {
+  const upper = word.toUpperCase();
+  return COMMON_RESERVED_WORDS.includes(upper) || config.reservedWords.includes(upper);
+}
+
+// ============================================
+// SQL Parsing
+// ============================================
+
+/**
+ * Token produced by the SQL tokenizer.
+ * @internal
+ */
+interface SqlToken {
+  type: 'word' | 'identifier' | 'string' | 'number' | 'punct' | 'copy';
+  value: string;
+  line: number;
+}
+
+/**
+ * A table reconstructed from CREATE TABLE and INSERT statements.
+ * @internal
+ */
+interface SqlTable {
+  name: string;
+  headers: string[];
+  columnTypes: Record<string, string>;
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * Keywords that end the type part of a column definition in CREATE TABLE.
+ * @internal
+ */
+const COLUMN_CONSTRAINT_WORDS = [
+  'NOT', 'NULL', 'DEFAULT', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'CHECK',
+  'CONSTRAINT', 'AUTO_INCREMENT', 'AUTOINCREMENT', 'IDENTITY', 'COLLATE',
+  'COMMENT', 'GENERATED', 'ON', 'CHARACTER', 'CHARSET',
+];
+
+/**
+ * Keywords that start a table-level constraint instead of a column definition.
+ * @internal
+ */
+const TABLE_CONSTRAINT_WORDS = [
+  'CONSTRAINT', 'PRIMARY', 'UNIQUE', 'KEY', 'INDEX', 'FOREIGN', 'CHECK',
+  'FULLTEXT', 'SPATIAL', 'EXCLUDE',
+];
+
+/**
+ * Declared column types whose COPY values are read as numbers.
+ * @internal
+ */
+const NUMERIC_TYPE_PATTERN =
+  /^(SMALLINT|INTEGER|INT|BIGINT|INT[248]|SMALLSERIAL|SERIAL|BIGSERIAL|SERIAL[248]|NUMERIC|DECIMAL|REAL|DOUBLE PRECISION|FLOAT[48]?)\b/;
+
+/**
+ * Declared column types whose COPY values are read as booleans.
+ * @internal
+ */
+const BOOLEAN_TYPE_PATTERN = /^BOOL(EAN)?$/;
+
+/**
+ * Backslash escapes of the COPY text format.
+ * @internal
+ */
+const COPY_ESCAPES: Record<string, string> = { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v' };
+
+/**
+ * Parses a SQL dump into tabular data.
+ *
+ * Reads CREATE TABLE definitions for column names and types, and
+ * INSERT ... VALUES statements (including multi-row inserts) for rows.
+ * Handles double-quoted, backtick and bracket identifiers, escaped quotes,
+ * N'' and E'' string prefixes, PostgreSQL dollar-quoted strings, and
+ * NULL/TRUE/FALSE literals. Other statements (SET, DROP, LOCK TABLES,
+ * CREATE FUNCTION, ...) are ignored.
+ *
+ * Rows are also read from the `COPY table (...) FROM stdin;` blocks written
+ * by pg_dump: tab-separated lines ending at a `\.` line, with `\N` for NULL
+ * and backslash escapes. COPY values are text, so they are read as numbers
+ * or booleans only where CREATE TABLE declares a numeric or boolean column. When the dump
+ * contains several tables, all table names are listed in `metadata.tables`
+ * and the one chosen by `selectedTable` is returned.
+ *
+ * MySQL is the only dialect that treats backslash as an escape character
+ * inside strings by default. Backslash escapes are honoured when `dialect`
+ * is 'mysql', and ignored for any other dialect. Without a dialect they are
+ * honoured from the first backtick-quoted identifier on, as only MySQL dumps
+ * quote identifiers with backticks.
+ *
+ * Integers beyond `Number.MAX_SAFE_INTEGER`, such as BIGINT ids, are kept as
+ * strings so that no digits are lost.
+ *
+ * @param data - The SQL string to parse
+ * @param options - Parsing options
+ * @param options.selectedTable - Table to load (index number or name, default: 0)
+ * @param options.dialect - Dialect of the dump, detected from backtick identifiers when omitted
+ * @returns Parsed data with headers, rows, column types and metadata
+ * @throws {ParseError} If a string literal, quoted identifier or COPY block is not terminated
+ *
+ * @example
+ * ```typescript
+ * const data = parseSql(`
+ *   CREATE TABLE users (id INTEGER NOT NULL, name VARCHAR(50));
+ *   INSERT INTO users (id, name) VALUES (1, 'John'), (2, 'O''Brien');
+ * `);
+ * // headers: ['id', 'name']
+ * // rows: [{ id: 1, name: 'John' }, { id: 2, name: "O'Brien" }]
+ * // metadata.columnTypes: { id: 'INTEGER', name: 'VARCHAR(50)' }
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Load a specific table from a multi-table dump
+ * const data = parseSql(dump, { selectedTable: 'orders' });
+ * console.log(data.metadata?.tables); // ['customers', 'orders', 'products']
+ * ```
+ */
+export function parseSql(data: string, options: SqlOptions = {}): ParsedData {
+  const { selectedTable = 0, dialect } = options;
+  const tables = parseSqlTables(data, dialect);
+  const tableNames = tables.map((t) => t.name);
+  const table =
+    typeof selectedTable === 'number'
+      ? tables[selectedTable]
+      : tables.find((t) => t.name === selectedTable);
+
+  if (!table) {
+    return {
+      headers: [],
+      rows: [],
+      format: 'sql',
+      metadata: {
+        rowCount: 0,
+        columnCount: 0,
+        tables: tableNames,
+      },
+    };
+  }
+
+  return {
+    headers: table.headers,
+    rows: table.rows,
+    format: 'sql',
+    metadata: {
+      rowCount: table.rows.length,
+      columnCount: table.headers.length,
+      columnTypes: table.columnTypes,
+      tables: tableNames,
+    },
+  };
+}
+
+/**
+ * Parses every table defined or populated in a SQL dump, in order of first appearance.
+ *
+ * @param data - The SQL string to parse
+ * @param dialect - Dialect of the dump, if known
+ * @returns Reconstructed tables
+ * @internal
+ */
+function parseSqlTables(data: string, dialect?: SqlDialect): SqlTable[] {
+  const tokens = tokenizeSql(data, dialect === undefined ? undefined : dialect === 'mysql');
+  const tables = new Map<string, SqlTable>();
+
+  const getTable = (name: string): SqlTable => {
+    let table = tables.get(name);
+    if (!table) {
+      table = { name, headers: [], columnTypes: {}, rows: [] };
+      tables.set(name, table);
+    }
+    return table;
+  };
+
+  for (const statement of splitStatements(tokens)) {
+    const first = statement[0];
+    if (!first || first.type !== 'word') continue;
+    const keyword = first.value.toUpperCase();
+
+    if (keyword === 'CREATE') {
+      parseCreateTable(statement, getTable);
+    } else if (keyword === 'INSERT' || keyword === 'REPLACE') {
+      parseInsert(statement, getTable);
+    } else if (keyword === 'COPY') {
+      parseCopy(statement, getTable);
+    }
+  }
+
+  return Array.from(tables.values());
+}
+
+/**
+ * Splits SQL text into tokens, skipping whitespace and comments.
+ *
+ * The data lines following a `COPY ... FROM stdin;` statement become a
+ * single 'copy' token holding the lines up to the `\.` terminator, placed
+ * before the statement's semicolon.
+ *
+ * @param data - The SQL string to tokenize
+ * @param backslashEscapes - Whether backslash escapes are recognised in strings;
+ *   when undefined, they are from the first backtick-quoted identifier on
+ * @returns Array of tokens
+ * @throws {ParseError} If a string literal, quoted identifier or COPY block is not terminated
+ * @internal
+ */
+function tokenizeSql(data: string, backslashEscapes?: boolean): SqlToken[] {
+  let mysqlEscapes = backslashEscapes ?? false;
+  const tokens: SqlToken[] = [];
+  let statementStart = 0;
+  let line = 1;
+  let i = 0;
+
+  const fail = (message: string, atLine: number): never => {
+    throw new ParseError(message, ErrorCodes.INVALID_SQL, { line: atLine }, 'sql');
+  };
+
+  // Reads a quoted section starting at i (the opening quote), returning its unescaped content
+  const readQuoted = (close: string, allowBackslash: boolean, what: string): string => {
+    const startLine = line;
+    let value = '';
+    i++;
+    while (i < data.length) {
+      const ch = data[i];
+      if (ch === '\\' && allowBackslash && i + 1 < data.length) {
+        const next = data[i + 1];
+        const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', '0': '\0', b: '\b', Z: '\x1a' };
+        value += escapes[next] ?? next;
+        if (next === '\n') line++;
+        i += 2;
+        continue;
+      }
+      if (ch === close) {
+        if (data[i + 1] === close) {
+          value += close;
+          i += 2;
+          continue;
+        }
+        i++;
+        return value;
+      }
+      if (ch === '\n') line++;
+      value += ch;
+      i++;
+    }
+    return fail(`Unterminated ${what} starting on line ${startLine}`, startLine);
+  };
+
+  // Reads the data lines after the statement ending at i, up to and including the \. line
+  const readCopyData = (): string => {
+    const startLine = line;
+    const lineEnd = data.indexOf('\n', i);
+    if (lineEnd === -1) return fail(`Unterminated COPY data starting on line ${startLine}`, startLine);
+    i = lineEnd + 1;
+    line++;
+
+    let value = '';
+    while (i < data.length) {
+      const end = data.indexOf('\n', i);
+      const stop = end === -1 ? data.length : end;
+      const text = data.slice(i, stop).replace(/\r$/, '');
+      i = stop + 1;
+      line++;
+      if (text === '\\.') return value;
+      value += `${text}\n`;
+    }
+    return fail(`Unterminated COPY data starting on line ${startLine}`, startLine);
+  };
+
+  while (i < data.length) {
+    const ch = data[i];
+
+    if (ch === '\n') {
+      line++;
+      i++;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comments
+    if ((ch === '-' && data[i + 1] === '-') || ch === '#') {
+      while (i < data.length && data[i] !== '\n') i++;
+      continue;
+    }
+
+    // Block comments (including MySQL /*! ... */ version comments)
+    if (ch === '/' && data[i + 1] === '*') {
+      const end = data.indexOf('*/', i + 2);
+      const stop = end === -1 ? data.length : end + 2;
+      line += (data.slice(i, stop).match(/\n/g) || []).length;
+      i = stop;
+      continue;
+    }
+
+    const tokenLine = line;
+
+    // String literals with optional N'' (MSSQL) or E'' (PostgreSQL) prefix
+    if (ch === "'" || (/[NnEe]/.test(ch) && data[i + 1] === "'")) {
+      const escapePrefix = ch === 'E' || ch === 'e';
+      if (ch !== "'") i++;
+      const value = readQuoted("'", mysqlEscapes || escapePrefix, 'string literal');
+      tokens.push({ type: 'string', value, line: tokenLine });
+      continue;
+    }
+
+    // PostgreSQL dollar-quoted strings: $$...$$ or $tag$...$tag$, with no escapes
+    const dollarTag = ch === '$' ? /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(data.slice(i, i + 256)) : null;
+    if (dollarTag) {
+      const tag = dollarTag[0];
+      const end = data.indexOf(tag, i + tag.length);
+      if (end === -1) fail(`Unterminated dollar-quoted string starting on line ${tokenLine}`, tokenLine);
+      const value = data.slice(i + tag.length, end);
+      line += (value.match(/\n/g) || []).length;
+      i = end + tag.length;
+      tokens.push({ type: 'string', value, line: tokenLine });
+      continue;
+    }
+
+    // Quoted identifiers
+    if (ch === '"' || ch === '`' || ch === '[') {
+      const close = ch === '[' ? ']' : ch;
+      const value = readQuoted(close, false, 'quoted identifier');
+      if (ch === '`' && backslashEscapes === undefined) mysqlEscapes = true;
+      tokens.push({ type: 'identifier', value, line: tokenLine });
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(data.slice(i, i + 64));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], line: tokenLine });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(data.slice(i, i + 256));
+    if (word) {
+      tokens.push({ type: 'word', value: word[0], line: tokenLine });
+      i += word[0].length;
+      continue;
+    }
+
+    i++;
+    if (ch === ';') {
+      if (isCopyFromStdin(tokens.slice(statementStart))) {
+        tokens.push({ type: 'copy', value: readCopyData(), line: tokenLine + 1 });
+      }
+      tokens.push({ type: 'punct', value: ch, line: tokenLine });
+      statementStart = tokens.length;
+      continue;
+    }
+    tokens.push({ type: 'punct', value: ch, line: tokenLine });
+  }
+
+  return tokens;
+}
+
+/**
+ * Checks if the tokens form a `COPY ... FROM stdin` statement, which is
+ * followed by inline data.
+ * @internal
+ */
+function isCopyFromStdin(statement: SqlToken[]): boolean {
+  const n = statement.length;
+  return isKeyword(statement[0], 'COPY') && isKeyword(statement[n - 2], 'FROM') && isKeyword(statement[n - 1], 'STDIN');
+}
+
+/**
+ * Groups tokens into statements separated by semicolons.
+ * @internal
+ */
+function splitStatements(tokens: SqlToken[]): SqlToken[][] {
+  const statements: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+
+  for (const token of tokens) {
+    if (token.type === 'punct' && token.value === ';') {
+      if (current.length > 0) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) statements.push(current);
+
+  return statements;
+}
+
+/**
+ * Checks if a token is the given keyword (case-insensitive).
+ * @internal
+ */
+function isKeyword(token: SqlToken | undefined, keyword: string): boolean {
+  return !!token && token.type === 'word' && token.value.toUpperCase() === keyword;
+}
+
+/**
+ * Checks if a token is the given punctuation character.
+ * @internal
+ */
+function isPunct(token: SqlToken | undefined, value: string): boolean {
+  return !!token && token.type === 'punct' && token.value === value;
+}
+
+/**
+ * Reads a possibly schema-qualified name (schema.table) starting at index,
+ * returning the last part and the index after the name.
+ * @internal
+ */
+function readName(tokens: SqlToken[], index: number): { name: string; next: number } | null {
+  let i = index;
+  let name: string | null = null;
+
+  while (tokens[i] && (tokens[i].type === 'word' || tokens[i].type === 'identifier')) {
+    name = tokens[i].value;
+    i++;
+    if (!isPunct(tokens[i], '.')) break;
+    i++;
+  }
+
+  return name === null ? null : { name, next: i };
+}
+
+/**
+ * Splits the tokens between a pair of parentheses at top-level commas.
+ *
+ * @param tokens - Statement tokens
+ * @param open - Index of the opening parenthesis
+ * @returns The comma-separated groups and the index after the closing parenthesis
+ * @internal
+ */
+function readParenGroups(tokens: SqlToken[], open: number): { groups: SqlToken[][]; next: number } {
+  const groups: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+  let depth = 0;
+  let i = open;
+
+  for (; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (isPunct(token, '(')) {
+      depth++;
+      if (depth === 1) continue;
+    } else if (isPunct(token, ')')) {
+      depth--;
+      if (depth === 0) {
+        groups.push(current);
+        return { groups, next: i + 1 };
+      }
+    } else if (depth === 1 && isPunct(token, ',')) {
+      groups.push(current);
+      current = [];
+      continue;
+    }
+    current.push(token);
+  }
+
+  groups.push(current);
+  return { groups, next: i };
+}
+
+/**
+ * Joins tokens back into SQL text for types and unparsed expressions.
+ * @internal
+ */
+function tokensToText(tokens: SqlToken[]): string {
+  return tokens
+    .map((t) => (t.type === 'string' ? `'${t.value.replace(/'/g, "''")}'` : t.value))
+    .join(' ')
+    .replace(/\s*([(),.])\s*/g, (_, p: string) => (p === ',' ? ', ' : p))
+    .trim();
+}
+
+/**
+ * Handles a CREATE TABLE statement, recording column names and types.
+ * @internal
+ */
+function parseCreateTable(statement: SqlToken[], getTable: (name: string) => SqlTable): void {
+  let i = 1;
+  // Skip modifiers such as TEMPORARY, GLOBAL TEMPORARY, UNLOGGED
+  while (statement[i] && !isKeyword(statement[i], 'TABLE')) {
+    if (statement[i].type !== 'word') return;
+    i++;
+  }
+  if (!isKeyword(statement[i], 'TABLE')) return;
+  i++;
+
+  if (isKeyword(statement[i], 'IF') && isKeyword(statement[i + 1], 'NOT') && isKeyword(statement[i + 2], 'EXISTS')) {
+    i += 3;
+  }
+
+  const tableName = readName(statement, i);
+  if (!tableName || !isPunct(statement[tableName.next], '(')) return;
+
+  const table = getTable(tableName.name);
+  const { groups } = readParenGroups(statement, tableName.next);
+
+  for (const definition of groups) {
+    const [nameToken, ...rest] = definition;
+    if (!nameToken) continue;
+    if (nameToken.type === 'word' && TABLE_CONSTRAINT_WORDS.includes(nameToken.value.toUpperCase())) {
+      continue;
+    }
+
+    const column = nameToken.value;
+    // CHARACTER only ends the type in MySQL's CHARACTER SET; otherwise it is
+    // the type itself, as in PostgreSQL's character varying(50)
+    const typeEnd = rest.findIndex(
+      (t, index) =>
+        t.type === 'word' &&
+        COLUMN_CONSTRAINT_WORDS.includes(t.value.toUpperCase()) &&
+        (!isKeyword(t, 'CHARACTER') || isKeyword(rest[index + 1], 'SET'))
+    );
+    const typeTokens = typeEnd === -1 ? rest : rest.slice(0, typeEnd);
+
+    if (!table.headers.includes(column)) {
+      table.headers.push(column);
+    }
+    if (typeTokens.length > 0) {
+      table.columnTypes[column] = tokensToText(typeTokens).toUpperCase();
+    }
+  }
+}
+
+/**
+ * Handles an INSERT (or MySQL REPLACE) ... VALUES statement, appending its rows.
+ * @internal
+ */
+function parseInsert(statement: SqlToken[], getTable: (name: string) => SqlTable): void {
+  let i = 1;
+  // Skip modifiers such as IGNORE, LOW_PRIORITY, DELAYED
+  while (statement[i] && statement[i].type === 'word' && !isKeyword(statement[i], 'INTO')) {
+    i++;
+  }
+  if (isKeyword(statement[i], 'INTO')) i++;
+
+  const tableName = readName(statement, i);
+  if (!tableName) return;
+  i = tableName.next;
+
+  const table = getTable(tableName.name);
+  let columns: string[] | null = null;
+
+  if (isPunct(statement[i], '(')) {
+    const { groups, next } = readParenGroups(statement, i);
+    columns = groups.map((group) => group.map((t) => t.value).join(''));
+    i = next;
+    for (const column of columns) {
+      if (!table.headers.includes(column)) table.headers.push(column);
+    }
+  }
+
+  if (!isKeyword(statement[i], 'VALUES') && !isKeyword(statement[i], 'VALUE')) return;
+  i++;
+
+  while (isPunct(statement[i], '(')) {
+    const { groups, next } = readParenGroups(statement, i);
+    i = next;
+
+    const targetColumns = columns ?? table.headers;
+    // Without a column list or CREATE TABLE, name columns by position
+    while (targetColumns.length < groups.length) {
+      const generated = `Column ${targetColumns.length + 1}`;
+      targetColumns.push(generated);
+      if (!table.headers.includes(generated)) table.headers.push(generated);
+    }
+
+    const row: Record<string, unknown> = {};
+    groups.forEach((group, index) => {
+      row[targetColumns[index]] = tokensToValue(group);
+    });
+    table.rows.push(row);
+
+    if (!isPunct(statement[i], ',')) break;
+    i++;
+  }
+}
+
+/**
+ * Handles a `COPY table (...) FROM stdin` statement, appending the rows of
+ * its tab-separated data block.
+ * @internal
+ */
+function parseCopy(statement: SqlToken[], getTable: (name: string) => SqlTable): void {
+  const tableName = readName(statement, 1);
+  const data = statement[statement.length - 1];
+  if (!tableName || data.type !== 'copy') return;
+
+  const table = getTable(tableName.name);
+  let columns = table.headers;
+
+  if (isPunct(statement[tableName.next], '(')) {
+    const { groups } = readParenGroups(statement, tableName.next);
+    columns = groups.map((group) => group.map((t) => t.value).join(''));
+    for (const column of columns) {
+      if (!table.headers.includes(column)) table.headers.push(column);
+    }
+  }
+
+  const lines = data.value.split('\n');
+  lines.pop();
+
+  for (const text of lines) {
+    const fields = text.split('\t');
+    // Without a column list or CREATE TABLE, name columns by position
+    while (columns.length < fields.length) {
+      const generated = `Column ${columns.length + 1}`;
+      columns.push(generated);
+      if (!table.headers.includes(generated)) table.headers.push(generated);
+    }
+
+    const row: Record<string, unknown> = {};
+    fields.forEach((field, index) => {
+      const column = columns[index];
+      row[column] = copyFieldToValue(field, table.columnTypes[column]);
+    });
+    table.rows.push(row);
+  }
+}
+
+/**
+ * Converts a field of a COPY text-format row into a JavaScript value.
+ *
+ * `\N` is NULL; other fields are unescaped, then read as a number or
+ * boolean when the declared column type is numeric or boolean.
+ * @internal
+ */
+function copyFieldToValue(field: string, type: string | undefined): unknown {
+  if (field === '\\N') return null;
+
+  const value = field.replace(/\\(x[0-9a-fA-F]{1,2}|[0-7]{1,3}|.)/g, (_, escape: string) => {
+    if (escape[0] === 'x' && escape.length > 1) return String.fromCharCode(parseInt(escape.slice(1), 16));
+    if (/^[0-7]/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+    return COPY_ESCAPES[escape] ?? escape;
+  });
+
+  if (type && NUMERIC_TYPE_PATTERN.test(type) && NUMERIC_LITERAL_PATTERN.test(value)) {
+    return toNumber(value);
+  }
+  if (type && BOOLEAN_TYPE_PATTERN.test(type) && (value === 't' || value === 'f')) {
+    return value === 't';
+  }
+  return value;
+}
+
+/**
+ * Converts the tokens of a single VALUES entry into a JavaScript value.
+ *
+ * Literals become strings, numbers, booleans or null; any other expression
+ * (function calls, casts) is kept as its SQL text.
+ * @internal
+ */
+function tokensToValue(tokens: SqlToken[]): unknown {
+  if (tokens.length === 1) {
+    const [token] = tokens;
+    if (token.type === 'string') return token.value;
+    if (token.type === 'number') return toNumber(token.value);
+    if (token.type === 'word') {
+      const upper = token.value.toUpperCase();
+      if (upper === 'NULL') return null;
+      if (upper === 'TRUE') return true;
+      if (upper === 'FALSE') return false;
+    }
+  }
+
+  // Signed numbers
+  if (
+    tokens.length === 2 &&
+    (isPunct(tokens[0], '-') || isPunct(tokens[0], '+')) &&
+    tokens[1].type === 'number'
+  ) {
+    return toNumber(`${tokens[0].value}${tokens[1].value}`);
+  }
+
+  return tokensToText(tokens);
+}
+
+/**
+ * Converts a numeric literal to a number, keeping integers too large to be
+ * represented exactly as their digits.
+ * @internal
+ */
+function toNumber(literal: string): number | string {
+  const value = Number(literal);
+  return /^[-+]?\d+$/.test(literal) && !Number.isSafeInteger(value) ? literal.replace(/^\+/, '') : value;
 }
@@ -8,7 +8,18 @@
  */
 
 import { XMLParser, XMLBuilder } from 'fast-xml-parser';
-import type { ParsedData } from '@/types';
+import type { ParsedData, XmlOptions } from '@/types';
+import { expandArrayField } from './nested';
+
+/**
+ * Repeated elements found in an XML document
+ * @internal
+ */
+interface XmlRecords {
+  /** Name of the repeated element, if any */
+  name?: string;
+  records: Record<string, unknown>[];
+}
 
 /**
  * Parses XML data into a structured tabular format.
@@ -17,7 +28,14 @@ import type { ParsedData } from '@/types';
  * Handles nested structures by flattening them with dot notation.
  * Preserves XML attributes with an @_ prefix.
  *
+ * A repeated child element of each row, such as the line items of an order,
+ * can be exploded into one row per element or normalized into a child table
+ * named after the row element; see `expandArrayField`.
+ *
  * @param data - The XML string to parse
+ * @param options - Parsing options
+ * @param options.nestedArrays - Join repeated child elements in one cell ('join'), or expand them into rows ('explode') or a related table ('normalize') (default: 'join')
+ * @param options.arrayField - Dot path of the repeated child element to expand (default: the first one found)
  * @returns Parsed data with headers, rows, rawData, and metadata
  *
  * @example
@@ -41,7 +59,8 @@ import type { ParsedData } from '@/types';
  * // headers: ['@_id', '#text']
  * ```
  */
-export function parseXml(data: string): ParsedData {
+export function parseXml(data: string, options: XmlOptions = {}): ParsedData {
+  const { nestedArrays = 'join', arrayField } = options;
   const parser = new XMLParser({
     ignoreAttributes: false,
     attributeNamePrefix: '@_',
@@ -50,17 +69,24 @@ export function parseXml(data: string): ParsedData {
 
   try {
     const result = parser.parse(data);
-    const rows = extractRows(result);
-    const headers = extractHeaders(rows);
+    const { name, records } = extractRecords(result);
+    const { rows, headers, field, tables } = expandArrayField(records, {
+      mode: nestedArrays,
+      field: arrayField,
+      tableName: name,
+      flatten: (record) => flattenXmlObject(record),
+    });
 
     return {
       headers,
       rows,
       rawData: result,
       format: 'xml',
+      ...(tables && { sheetTables: tables }),
       metadata: {
         rowCount: rows.length,
         columnCount: headers.length,
+        ...(field && { arrayField: field }),
       },
     };
   } catch {
@@ -77,26 +103,21 @@ export function parseXml(data: string): ParsedData {
 }
 
 /**
- * Recursively extracts row data from a parsed XML object.
+ * Recursively extracts the records of a parsed XML object.
  *
  * Finds the first array-like structure in the XML and treats each element as a row.
  * Falls back to treating a single object as one row.
  *
- * @param obj - The parsed XML object to extract rows from
- * @returns Array of row objects with flattened key-value pairs
+ * @param obj - The parsed XML object to extract records from
+ * @returns The name of the repeated element and its records, still nested
  * @internal
  */
-function extractRows(obj: unknown): Record<string, unknown>[] {
-  if (!obj || typeof obj !== 'object') return [];
+function extractRecords(obj: unknown): XmlRecords {
+  if (!obj || typeof obj !== 'object') return { records: [] };
 
   // Handle arrays
   if (Array.isArray(obj)) {
-    return obj.map((item) => {
-      if (typeof item === 'object' && item !== null) {
-        return flattenXmlObject(item as Record<string, unknown>);
-      }
-      return { value: item };
-    });
+    return { records: obj.map(toRecord) };
   }
 
   // Find the first array-like structure
@@ -104,21 +125,24 @@ function extractRows(obj: unknown): Record<string, unknown>[] {
   for (const key in record) {
     const value = record[key];
     if (Array.isArray(value)) {
-      return value.map((item) => {
-        if (typeof item === 'object' && item !== null) {
-          return flattenXmlObject(item as Record<string, unknown>);
-        }
-        return { value: item };
-      });
+      return { name: key, records: value.map(toRecord) };
     }
     if (typeof value === 'object' && value !== null) {
-      const nested = extractRows(value);
-      if (nested.length > 0) return nested;
+      const nested = extractRecords(value);
+      if (nested.records.length > 0) return nested;
     }
   }
 
   // Single object, return as single row
-  return [flattenXmlObject(record)];
+  return { records: [record] };
+}
+
+/**
+ * Wraps text-only elements as `{ value }` records.
+ * @internal
+ */
+function toRecord(item: unknown): Record<string, unknown> {
+  return typeof item === 'object' && item !== null ? (item as Record<string, unknown>) : { value: item };
 }
 
 /**
@@ -158,23 +182,6 @@ function flattenXmlObject(
   return result;
 }
 
-/**
- * Extracts unique header names from all rows.
- *
- * Collects all unique keys from all row objects to ensure all columns are represented.
- *
- * @param rows - Array of row objects to extract headers from
- * @returns Array of unique header names
- * @internal
- */
-function extractHeaders(rows: Record<string, unknown>[]): string[] {
-  const headerSet = new Set<string>();
-  rows.forEach((row) => {
-    Object.keys(row).forEach((key) => headerSet.add(key));
-  });
-  return Array.from(headerSet);
-}
-
 /**
  * Converts tabular data to XML format.
  *
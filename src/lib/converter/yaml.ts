@@ -0,0 +1,157 @@
+/**
+ * @fileoverview YAML parsing and writing utilities using js-yaml.
+ *
+ * Sequences of mappings become rows and nested mappings are flattened with
+ * dot-notation keys, mirroring the JSON converter. Multi-document streams
+ * (documents separated by `---`) are read as one table.
+ *
+ * @module lib/converter/yaml
+ */
+
+import yaml from 'js-yaml';
+import { ParseError, ErrorCodes } from '@/lib/errors';
+import { flattenObject, unflattenObject } from './json';
+import type { ParsedData } from '@/types';
+
+/**
+ * Parses YAML data into a structured tabular format.
+ *
+ * Every document in the stream contributes rows:
+ * - A sequence of mappings adds one row per mapping
+ * - A single mapping adds one row
+ * - Empty documents are skipped
+ *
+ * Nested mappings are flattened with dot notation and timestamps are kept
+ * as ISO 8601 strings.
+ *
+ * @param data - The YAML string to parse
+ * @returns Parsed data with headers, rows, rawData, format, and metadata
+ * @throws {ParseError} If the YAML is invalid or a document is not a mapping or sequence of mappings
+ *
+ * @example
+ * ```typescript
+ * const data = parseYaml(`
+ * kind: Deployment
+ * metadata:
+ *   name: web
+ * ---
+ * kind: Service
+ * metadata:
+ *   name: web
+ * `);
+ * // headers: ['kind', 'metadata.name']
+ * // rows: [{ kind: 'Deployment', 'metadata.name': 'web' }, { kind: 'Service', 'metadata.name': 'web' }]
+ * ```
+ */
+export function parseYaml(data: string): ParsedData {
+  let documents: unknown[];
+
+  try {
+    documents = yaml.loadAll(data);
+  } catch (error) {
+    const mark = error instanceof yaml.YAMLException ? error.mark : undefined;
+    throw new ParseError(
+      error instanceof yaml.YAMLException ? `Invalid YAML: ${error.reason}` : 'Invalid YAML format',
+      ErrorCodes.INVALID_YAML,
+      mark ? { line: mark.line + 1, column: mark.column + 1 } : undefined,
+      'yaml'
+    );
+  }
+
+  const rows: Record<string, unknown>[] = [];
+
+  documents.forEach((document, index) => {
+    if (document === null || document === undefined) return;
+
+    const items = Array.isArray(document) ? document : [document];
+    for (const item of items) {
+      if (!isMapping(item)) {
+        throw new ParseError(
+          `YAML document ${index + 1} must be a mapping or a sequence of mappings`,
+          ErrorCodes.INVALID_YAML,
+          undefined,
+          'yaml'
+        );
+      }
+      rows.push(flattenObject(toPlainValue(item) as Record<string, unknown>));
+    }
+  });
+
+  // Extract headers from all rows
+  const headerSet = new Set<string>();
+  rows.forEach((row) => {
+    Object.keys(row).forEach((key) => headerSet.add(key));
+  });
+  const headers = Array.from(headerSet);
+
+  return {
+    headers,
+    rows,
+    rawData: documents.length === 1 ? documents[0] : documents,
+    format: 'yaml',
+    metadata: {
+      rowCount: rows.length,
+      columnCount: headers.length,
+    },
+  };
+}
+
+/**
+ * Writes data to YAML format.
+ *
+ * Produces a sequence with one mapping per row. Dot-notation keys are
+ * expanded back into nested mappings.
+ *
+ * @param headers - Array of column header names to include in output
+ * @param rows - Array of row objects with values keyed by header names
+ * @returns YAML formatted string
+ *
+ * @example
+ * ```typescript
+ * const output = writeYaml(['name', 'address.city'], [{ name: 'John', 'address.city': 'NYC' }]);
+ * // Returns:
+ * // - name: John
+ * //   address:
+ * //     city: NYC
+ * ```
+ */
+export function writeYaml(headers: string[], rows: Record<string, unknown>[]): string {
+  const documents = rows.map((row) => {
+    const filtered: Record<string, unknown> = {};
+    headers.forEach((header) => {
+      if (header in row) {
+        filtered[header] = row[header];
+      }
+    });
+    return unflattenObject(filtered);
+  });
+
+  return yaml.dump(documents, { noRefs: true, lineWidth: -1, skipInvalid: true });
+}
+
+/**
+ * Checks whether a loaded YAML value is a mapping.
+ * @internal
+ */
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Replaces timestamps with ISO 8601 strings so they survive flattening.
+ * @internal
+ */
+function toPlainValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainValue);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, toPlainValue(nested)])
+    );
+  }
+  return value;
+}
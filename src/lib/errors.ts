@@ -13,6 +13,10 @@ export const ErrorCodes = {
   INVALID_JSON: 'INVALID_JSON',
   INVALID_XML: 'INVALID_XML',
   INVALID_EXCEL: 'INVALID_EXCEL',
+  INVALID_SQL: 'INVALID_SQL',
+  INVALID_YAML: 'INVALID_YAML',
+  INVALID_PARQUET: 'INVALID_PARQUET',
+  INVALID_HTML: 'INVALID_HTML',
   EMPTY_DATA: 'EMPTY_DATA',
   UNSUPPORTED_FORMAT: 'UNSUPPORTED_FORMAT',
 
@@ -250,6 +254,11 @@ export function createParseError(format: string, details?: string): ParseError {
     xml: ErrorCodes.INVALID_XML,
     xlsx: ErrorCodes.INVALID_EXCEL,
     xls: ErrorCodes.INVALID_EXCEL,
+    sql: ErrorCodes.INVALID_SQL,
+    yaml: ErrorCodes.INVALID_YAML,
+    jsonl: ErrorCodes.INVALID_JSON,
+    parquet: ErrorCodes.INVALID_PARQUET,
+    html: ErrorCodes.INVALID_HTML,
   };
 
   return new ParseError(
@@ -0,0 +1,318 @@
+/**
+ * @fileoverview Conversion history persisted in IndexedDB.
+ *
+ * Successful conversions are stored with their formats, file names, counts,
+ * options, transforms and (when small enough) the input and the converted output, so
+ * they can be downloaded or run again later. The oldest entries are evicted
+ * once the stored history grows beyond {@link HISTORY_MAX_BYTES}.
+ *
+ * @module lib/history
+ */
+
+import { convertData, getOutputFilename, parseData } from '@/lib/converter';
+import { ErrorCodes, ValidationError } from '@/lib/errors';
+import { applyTransform } from '@/lib/transform';
+import { generateId, getMimeType } from '@/lib/utils';
+import type {
+  ConversionHistoryItem,
+  ConversionResult,
+  ConvertOptions,
+  InputFormat,
+  OutputFormat,
+  ParseOptions,
+  ParsedData,
+  TransformOptions,
+} from '@/types';
+
+const DB_NAME = 'csv-excel-converter';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+/** Maximum total size of the stored history */
+export const HISTORY_MAX_BYTES = 50 * 1024 * 1024; // 50MB
+
+/** Outputs larger than this are recorded without the result */
+export const HISTORY_MAX_RESULT_BYTES = 10 * 1024 * 1024; // 10MB
+
+/** Inputs larger than this are recorded without the input */
+export const HISTORY_MAX_INPUT_BYTES = 5 * 1024 * 1024; // 5MB
+
+/**
+ * The input a conversion ran on.
+ */
+export interface ConversionSource {
+  /** Name of the converted file, if any */
+  fileName?: string;
+  /** Raw input (file bytes or pasted text) */
+  data?: string | ArrayBuffer;
+  /** Sheet, table and encoding choices used when parsing */
+  parseOptions?: ParseOptions;
+  /** Transforms applied to the parsed input, in order */
+  transforms?: TransformOptions[];
+}
+
+/**
+ * Search and format filter for history entries.
+ */
+export interface HistoryFilter {
+  /** Case-insensitive text matched against the file names */
+  query?: string;
+  /** Keep entries whose input or output format matches */
+  format?: InputFormat | OutputFormat;
+}
+
+/**
+ * Checks whether the history can be stored in this environment.
+ */
+export function isHistorySupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Builds a history entry for a successful conversion.
+ *
+ * @param result - Successful conversion result
+ * @param options - Options the conversion ran with
+ * @param source - The input the conversion ran on
+ * @returns The history entry
+ */
+export function createHistoryItem(
+  result: ConversionResult,
+  options: ConvertOptions,
+  source: ConversionSource = {}
+): ConversionHistoryItem {
+  const { fileName, data, parseOptions, transforms } = source;
+  const output =
+    typeof result.data === 'string'
+      ? new Blob([result.data], { type: getMimeType(result.format) })
+      : result.data;
+
+  const item: ConversionHistoryItem = {
+    id: generateId(),
+    timestamp: Date.now(),
+    inputFormat: result.metadata?.inputFormat ?? options.inputFormat ?? 'csv',
+    outputFormat: result.format,
+    inputFileName: fileName,
+    outputFileName: getOutputFilename(fileName, result.format),
+    rowCount: result.metadata?.rowCount ?? 0,
+    columnCount: result.metadata?.columnCount ?? 0,
+    options,
+    parseOptions,
+    transforms: transforms?.length ? transforms : undefined,
+    input: data !== undefined && getInputSize(data) <= HISTORY_MAX_INPUT_BYTES ? data : undefined,
+    result: output && output.size <= HISTORY_MAX_RESULT_BYTES ? output : undefined,
+    size: 0,
+  };
+  item.size = getEntrySize(item);
+
+  return item;
+}
+
+/**
+ * Approximates the stored size of an entry: its result plus its metadata.
+ */
+export function getEntrySize(item: ConversionHistoryItem): number {
+  const { result, input, ...metadata } = item;
+  const inputSize = input === undefined ? 0 : getInputSize(input);
+  return (result?.size ?? 0) + inputSize + JSON.stringify(metadata).length;
+}
+
+/**
+ * Runs a stored conversion again on its kept input with the same options
+ * and transforms.
+ *
+ * @param item - History entry with a kept input
+ * @returns The parsed and transformed input and the new conversion result
+ * @throws {ValidationError} If the input was too large to keep
+ */
+export async function replayConversion(
+  item: ConversionHistoryItem
+): Promise<{ parsedData: ParsedData; result: ConversionResult }> {
+  if (item.input === undefined) {
+    throw new ValidationError('The input of this conversion was not kept', ErrorCodes.MISSING_REQUIRED, {
+      field: 'input',
+    });
+  }
+
+  const parsed = await parseData(item.input, item.options.inputFormat, item.parseOptions);
+  const parsedData = applyTransforms(parsed, item.transforms);
+  const result = await convertData(parsedData, item.options);
+  return { parsedData, result };
+}
+
+/**
+ * Applies the transforms of a history entry to parsed data, in order.
+ *
+ * @param data - Parsed input
+ * @param transforms - Transforms to apply
+ * @returns The transformed data
+ * @throws {ValidationError} If a transform maps two columns to the same name
+ */
+export function applyTransforms(data: ParsedData, transforms: TransformOptions[] = []): ParsedData {
+  return transforms.reduce((current, transform) => applyTransform(current, transform).data, data);
+}
+
+/**
+ * Picks the entries to evict so the history fits in `maxBytes`.
+ *
+ * Entries are evicted oldest first; the newest entry is always kept.
+ *
+ * @param items - Stored entries
+ * @param maxBytes - Maximum total size
+ * @returns Ids of the entries to delete
+ */
+export function selectEvictions(items: ConversionHistoryItem[], maxBytes: number): string[] {
+  const oldestFirst = [...items].sort((a, b) => a.timestamp - b.timestamp);
+  let total = oldestFirst.reduce((sum, item) => sum + item.size, 0);
+  const evicted: string[] = [];
+
+  for (const item of oldestFirst.slice(0, -1)) {
+    if (total <= maxBytes) break;
+    evicted.push(item.id);
+    total -= item.size;
+  }
+
+  return evicted;
+}
+
+/**
+ * Filters history entries by file name and format.
+ *
+ * @param items - Entries to filter
+ * @param filter - Search text and format
+ * @returns The matching entries, in their original order
+ */
+export function filterHistory(
+  items: ConversionHistoryItem[],
+  { query = '', format }: HistoryFilter
+): ConversionHistoryItem[] {
+  const search = query.trim().toLowerCase();
+
+  return items.filter((item) => {
+    if (format && item.inputFormat !== format && item.outputFormat !== format) {
+      return false;
+    }
+    if (!search) return true;
+    return [item.inputFileName, item.outputFileName].some((name) =>
+      name?.toLowerCase().includes(search)
+    );
+  });
+}
+
+/**
+ * Returns all history entries, newest first.
+ */
+export async function getHistory(): Promise<ConversionHistoryItem[]> {
+  if (!isHistorySupported()) return [];
+
+  const items = await runTransaction('readonly', (store) =>
+    store.getAll() as IDBRequest<ConversionHistoryItem[]>
+  );
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Stores an entry and evicts the oldest entries if the history is too large.
+ */
+export async function addHistoryItem(item: ConversionHistoryItem): Promise<void> {
+  await runTransaction('readwrite', (store) => store.put(item));
+
+  const evicted = selectEvictions(await getHistory(), HISTORY_MAX_BYTES);
+  if (evicted.length > 0) {
+    await runTransaction('readwrite', (store) => {
+      evicted.forEach((id) => store.delete(id));
+    });
+  }
+}
+
+/**
+ * Records a successful conversion in the history.
+ *
+ * Does nothing for failed conversions or where IndexedDB is unavailable.
+ * Storage errors are logged rather than thrown so they never affect the
+ * conversion itself.
+ *
+ * @param result - Conversion result
+ * @param options - Options the conversion ran with
+ * @param source - The input the conversion ran on
+ */
+export async function recordConversion(
+  result: ConversionResult,
+  options: ConvertOptions,
+  source?: ConversionSource
+): Promise<void> {
+  if (!result.success || !isHistorySupported()) return;
+
+  try {
+    await addHistoryItem(createHistoryItem(result, options, source));
+  } catch (error) {
+    console.warn('Failed to save conversion history:', error);
+  }
+}
+
+/**
+ * Deletes one history entry.
+ */
+export async function deleteHistoryItem(id: string): Promise<void> {
+  await runTransaction('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Deletes all history entries.
+ */
+export async function clearHistory(): Promise<void> {
+  await runTransaction('readwrite', (store) => store.clear());
+}
+
+/**
+ * Returns the size of an input in bytes (UTF-16 code units for text).
+ * @internal
+ */
+function getInputSize(input: string | ArrayBuffer): number {
+  return typeof input === 'string' ? input.length : input.byteLength;
+}
+
+/**
+ * Opens the history database, creating the store on first use.
+ * @internal
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs requests in one transaction and resolves with the result of the
+ * returned request once the transaction has committed.
+ * @internal
+ */
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
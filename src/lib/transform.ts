@@ -0,0 +1,299 @@
+/**
+ * @fileoverview Transform engine for reshaping parsed tabular data.
+ *
+ * Applies {@link TransformOptions} to {@link ParsedData}: whitespace trimming,
+ * row filters, column selection, type casts, renames and duplicate removal.
+ *
+ * @module lib/transform
+ */
+
+import { ValidationError, ErrorCodes } from '@/lib/errors';
+import type { ColumnMapping, FilterRule, ParsedData, TransformOptions } from '@/types';
+
+/**
+ * Result of applying a transform.
+ */
+export interface TransformResult {
+  /** Transformed data */
+  data: ParsedData;
+  /** Number of rows removed by filters */
+  rowsFiltered: number;
+  /** Number of duplicate rows removed */
+  duplicatesRemoved: number;
+}
+
+/** Date formats accepted by {@link ColumnMapping.dateFormat} */
+const DATE_FORMAT_PATTERNS: Record<string, { pattern: RegExp; order: [number, number, number] }> = {
+  'YYYY-MM-DD': { pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})$/, order: [1, 2, 3] },
+  'MM/DD/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: [3, 1, 2] },
+  'DD/MM/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: [3, 2, 1] },
+};
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const TRUE_VALUES = new Set(['true', '1', 'yes', 'y', 'on']);
+const FALSE_VALUES = new Set(['false', '0', 'no', 'n', 'off']);
+
+/**
+ * Applies a transform to parsed data.
+ *
+ * Steps run in this order, so filters, selected columns and mappings all
+ * refer to the original column names:
+ * 1. `trimWhitespace` - trim string values
+ * 2. `filters` - keep rows matching every rule
+ * 3. `selectedColumns` - keep only the listed columns (all when empty)
+ * 4. `columnMappings` - cast values and rename columns
+ * 5. `removeDuplicates` - drop rows identical to an earlier row
+ *
+ * Values that cannot be cast to the requested type become null.
+ *
+ * @param data - Parsed data to transform (not mutated)
+ * @param options - Transform options
+ * @returns The transformed data and the number of removed rows
+ * @throws {ValidationError} If two columns are mapped to the same name
+ *
+ * @example
+ * ```typescript
+ * const { data } = applyTransform(parsed, {
+ *   filters: [{ id: '1', column: 'age', operator: 'greaterThan', value: '18' }],
+ *   columnMappings: [{ original: 'age', mapped: 'Age', type: 'number' }],
+ *   removeDuplicates: true,
+ * });
+ * ```
+ */
+export function applyTransform(data: ParsedData, options: TransformOptions = {}): TransformResult {
+  const {
+    columnMappings = [],
+    filters = [],
+    removeDuplicates = false,
+    trimWhitespace = false,
+    selectedColumns = [],
+  } = options;
+
+  let rows = data.rows;
+
+  if (trimWhitespace) {
+    rows = rows.map((row) => {
+      const trimmed: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(row)) {
+        trimmed[key] = typeof value === 'string' ? value.trim() : value;
+      }
+      return trimmed;
+    });
+  }
+
+  const activeFilters = filters.filter((rule) => rule.column);
+  const beforeFilter = rows.length;
+  if (activeFilters.length > 0) {
+    rows = rows.filter((row) => activeFilters.every((rule) => matchesFilter(row[rule.column], rule)));
+  }
+  const rowsFiltered = beforeFilter - rows.length;
+
+  const sourceHeaders =
+    selectedColumns.length > 0
+      ? data.headers.filter((header) => selectedColumns.includes(header))
+      : data.headers;
+
+  const mappingsByColumn = new Map(columnMappings.map((mapping) => [mapping.original, mapping]));
+  const headers = sourceHeaders.map((header) => mappingsByColumn.get(header)?.mapped.trim() || header);
+
+  const duplicate = headers.find((header, index) => headers.indexOf(header) !== index);
+  if (duplicate !== undefined) {
+    throw new ValidationError(`Duplicate column name: ${duplicate}`, ErrorCodes.VALIDATION_ERROR, {
+      field: 'columnMappings',
+      value: duplicate,
+    });
+  }
+
+  rows = rows.map((row) => {
+    const output: Record<string, unknown> = {};
+    sourceHeaders.forEach((header, index) => {
+      const mapping = mappingsByColumn.get(header);
+      output[headers[index]] = mapping ? castValue(row[header], mapping) : row[header];
+    });
+    return output;
+  });
+
+  let duplicatesRemoved = 0;
+  if (removeDuplicates) {
+    const seen = new Set<string>();
+    const beforeDedupe = rows.length;
+    rows = rows.filter((row) => {
+      const key = JSON.stringify(headers.map((header) => row[header] ?? null));
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    duplicatesRemoved = beforeDedupe - rows.length;
+  }
+
+  return {
+    data: {
+      ...data,
+      headers,
+      rows,
+      metadata: {
+        ...data.metadata,
+        rowCount: rows.length,
+        columnCount: headers.length,
+      },
+    },
+    rowsFiltered,
+    duplicatesRemoved,
+  };
+}
+
+/**
+ * Checks whether a cell value satisfies a filter rule.
+ *
+ * Text operators (contains, startsWith, endsWith) are case-insensitive.
+ * greaterThan and lessThan compare numerically when both sides are numbers
+ * and fall back to natural string ordering otherwise.
+ *
+ * @param value - Cell value
+ * @param rule - Filter rule
+ * @returns True if the row should be kept
+ */
+export function matchesFilter(value: unknown, rule: FilterRule): boolean {
+  const text = value === null || value === undefined ? '' : String(value);
+  const lowerText = text.toLowerCase();
+  const lowerValue = rule.value.toLowerCase();
+
+  switch (rule.operator) {
+    case 'equals':
+      return text === rule.value;
+    case 'notEquals':
+      return text !== rule.value;
+    case 'contains':
+      return lowerText.includes(lowerValue);
+    case 'startsWith':
+      return lowerText.startsWith(lowerValue);
+    case 'endsWith':
+      return lowerText.endsWith(lowerValue);
+    case 'greaterThan':
+      return text !== '' && compareValues(text, rule.value) > 0;
+    case 'lessThan':
+      return text !== '' && compareValues(text, rule.value) < 0;
+    case 'isEmpty':
+      return text.trim() === '';
+    case 'isNotEmpty':
+      return text.trim() !== '';
+    default:
+      return true;
+  }
+}
+
+/**
+ * Casts a value to the type of a column mapping.
+ *
+ * @param value - Raw cell value
+ * @param mapping - Column mapping with the target type
+ * @returns The cast value, or null if the value is empty or cannot be cast
+ */
+export function castValue(value: unknown, mapping: Pick<ColumnMapping, 'type' | 'dateFormat'>): unknown {
+  if (!mapping.type) return value;
+  if (value === null || value === undefined || value === '') {
+    if (mapping.type === 'auto') return value;
+    return mapping.type === 'string' ? '' : null;
+  }
+
+  switch (mapping.type) {
+    case 'string':
+      return value instanceof Date ? value.toISOString() : String(value);
+    case 'number':
+      return toNumber(value);
+    case 'boolean':
+      return toBoolean(value);
+    case 'date':
+      return toDate(value, mapping.dateFormat);
+    case 'auto':
+      return autoCast(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Compares two values numerically when possible, otherwise as strings.
+ * @internal
+ */
+function compareValues(a: string, b: string): number {
+  const aNum = toNumber(a);
+  const bNum = toNumber(b);
+  if (aNum !== null && bNum !== null) {
+    return aNum - bNum;
+  }
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Converts a value to a finite number, or null.
+ * @internal
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const text = String(value).trim();
+  return NUMBER_PATTERN.test(text) ? Number(text) : null;
+}
+
+/**
+ * Converts common boolean spellings (true/false, yes/no, 1/0, on/off), or null.
+ * @internal
+ */
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (TRUE_VALUES.has(text)) return true;
+  if (FALSE_VALUES.has(text)) return false;
+  return null;
+}
+
+/**
+ * Converts a value to an ISO date string (YYYY-MM-DD), or null.
+ *
+ * With a date format the value must match it exactly; otherwise ISO dates
+ * and any other string accepted by `Date.parse` are used.
+ * @internal
+ */
+function toDate(value: unknown, dateFormat?: string): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+
+  const text = String(value).trim();
+  const iso = DATE_FORMAT_PATTERNS['YYYY-MM-DD'];
+  const format = dateFormat
+    ? DATE_FORMAT_PATTERNS[dateFormat.toUpperCase()]
+    : iso.pattern.test(text)
+      ? iso
+      : undefined;
+
+  if (format) {
+    const match = format.pattern.exec(text);
+    if (!match) return null;
+    const [year, month, day] = format.order.map((group) => Number(match[group]));
+    const date = new Date(Date.UTC(year, month - 1, day));
+    const valid =
+      date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+    return valid ? date.toISOString().slice(0, 10) : null;
+  }
+
+  const date = new Date(text);
+  if (isNaN(date.getTime())) return null;
+  // Non-ISO strings are parsed in local time, so read the local date parts
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Converts numeric and boolean strings to numbers and booleans.
+ * @internal
+ */
+function autoCast(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const text = value.trim();
+  if (NUMBER_PATTERN.test(text)) return Number(text);
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  return value;
+}
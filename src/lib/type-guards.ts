@@ -8,8 +8,21 @@ import type { ParsedData, ConversionResult, InputFormat, OutputFormat } from '@/
 // Format Type Guards
 // ============================================
 
-const INPUT_FORMATS = ['csv', 'tsv', 'json', 'xlsx', 'xls', 'xml'] as const;
-const OUTPUT_FORMATS = ['csv', 'tsv', 'json', 'xlsx', 'xls', 'xml', 'sql'] as const;
+const INPUT_FORMATS = ['csv', 'tsv', 'json', 'xlsx', 'xls', 'xml', 'sql', 'yaml', 'jsonl', 'parquet', 'html'] as const;
+const OUTPUT_FORMATS = [
+  'csv',
+  'tsv',
+  'json',
+  'xlsx',
+  'xls',
+  'xml',
+  'sql',
+  'yaml',
+  'jsonl',
+  'parquet',
+  'markdown',
+  'html',
+] as const;
 
 export function isInputFormat(value: unknown): value is InputFormat {
   return typeof value === 'string' && INPUT_FORMATS.includes(value as InputFormat);
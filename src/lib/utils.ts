@@ -30,6 +30,11 @@ export function getMimeType(format: string): string {
     xls: 'application/vnd.ms-excel',
     xml: 'application/xml',
     sql: 'application/sql',
+    yaml: 'application/yaml',
+    jsonl: 'application/x-ndjson',
+    parquet: 'application/vnd.apache.parquet',
+    markdown: 'text/markdown',
+    html: 'text/html',
   };
   return mimeTypes[format] || 'application/octet-stream';
 }
@@ -1,29 +1,62 @@
 import { z } from 'zod';
+import { RAW_COLUMN_TYPE_PATTERN } from '@/lib/converter/sql';
 
 // ============================================
 // Base Format Schemas
 // ============================================
 
-export const inputFormatSchema = z.enum(['csv', 'tsv', 'json', 'xlsx', 'xls', 'xml']);
-export const outputFormatSchema = z.enum(['csv', 'tsv', 'json', 'xlsx', 'xls', 'xml', 'sql']);
+export const inputFormatSchema = z.enum(['csv', 'tsv', 'json', 'xlsx', 'xls', 'xml', 'sql', 'yaml', 'jsonl', 'parquet', 'html']);
+export const outputFormatSchema = z.enum([
+  'csv',
+  'tsv',
+  'json',
+  'xlsx',
+  'xls',
+  'xml',
+  'sql',
+  'yaml',
+  'jsonl',
+  'parquet',
+  'markdown',
+  'html',
+]);
 
 // ============================================
 // Option Schemas
 // ============================================
 
+export const formulaSanitizationSchema = z.enum(['off', 'prefix', 'strip']);
+
 export const csvOptionsSchema = z.object({
-  delimiter: z.string().length(1, 'Delimiter must be exactly one character').default(','),
+  delimiter: z.string()
+    .min(1, 'Delimiter is required')
+    .max(10, 'Delimiter cannot exceed 10 characters')
+    .regex(/^[^\r\n]+$/, 'Delimiter cannot contain line breaks')
+    .default(','),
   hasHeader: z.boolean().default(true),
   skipEmptyLines: z.boolean().default(true),
   trimValues: z.boolean().default(true),
   encoding: z.string().optional(),
+  outputEncoding: z.enum(['utf-8', 'utf-8-bom', 'utf-16le', 'windows-1252']).default('utf-8'),
+  quoteChar: z.string().length(1, 'Quote character must be exactly one character').default('"'),
+  escapeChar: z.string().length(1, 'Escape character must be exactly one character').optional(),
+  lineTerminator: z.enum(['lf', 'crlf']).default('lf'),
+  quoting: z.enum(['minimal', 'all', 'nonNumeric', 'none']).default('minimal'),
+  formulaSanitization: formulaSanitizationSchema.default('off'),
 }).partial();
 
+export const nestedArrayModeSchema = z.enum(['join', 'explode', 'normalize']);
+
 export const jsonOptionsSchema = z.object({
   prettyPrint: z.boolean().default(true),
   indentation: z.number().min(0, 'Indentation must be non-negative').max(8, 'Indentation cannot exceed 8').default(2),
   flattenNested: z.boolean().default(false),
   arrayFormat: z.enum(['arrayOfObjects', 'objectOfArrays']).default('arrayOfObjects'),
+  unflatten: z.boolean().default(false),
+  recordPath: z.string().min(1, 'Record path is required').max(1000, 'Record path cannot exceed 1000 characters').optional(),
+  includeParentFields: z.boolean().default(false),
+  nestedArrays: nestedArrayModeSchema.default('join'),
+  arrayField: z.string().min(1, 'Array field is required').max(1000, 'Array field cannot exceed 1000 characters').optional(),
 }).partial();
 
 export const excelOptionsSchema = z.object({
@@ -33,10 +66,14 @@ export const excelOptionsSchema = z.object({
     .regex(/^[^*?:/\\[\]]+$/, 'Sheet name contains invalid characters (*?:/\\[])')
     .default('Sheet1'),
   selectedSheet: z.union([z.number(), z.string()]).optional(),
+  allSheets: z.enum(['stack', 'separate']).optional(),
   includeFormulas: z.boolean().optional(),
   autoFitColumns: z.boolean().default(true),
   freezeHeader: z.boolean().default(false),
   headerStyle: z.boolean().default(true),
+  splitBy: z.string().min(1, 'Split column name is required').optional(),
+  summarySheet: z.boolean().default(false),
+  formulaSanitization: formulaSanitizationSchema.default('off'),
 }).partial();
 
 export const sqlOptionsSchema = z.object({
@@ -48,19 +85,110 @@ export const sqlOptionsSchema = z.object({
   includeCreate: z.boolean().default(false),
   batchSize: z.number().min(1, 'Batch size must be at least 1').max(10000, 'Batch size cannot exceed 10000').default(100),
   dialect: z.enum(['mysql', 'postgresql', 'sqlite', 'mssql']).default('postgresql'),
+  inferTypes: z.boolean().default(false),
+  columnTypes: z.record(
+    z.string(),
+    z.string()
+      .max(64, 'Column type cannot exceed 64 characters')
+      .regex(RAW_COLUMN_TYPE_PATTERN, 'Column type must be a type name with optional (length) or (precision, scale)')
+  ).optional(),
+  mode: z.enum(['insert', 'upsert']).default('insert'),
+  keyColumns: z.array(z.string().min(1, 'Key column name is required')).optional(),
+  selectedTable: z.union([z.number().int().min(0), z.string()]).optional(),
+}).partial();
+
+export const parquetOptionsSchema = z.object({
+  compression: z.enum(['snappy', 'gzip', 'none']).default('snappy'),
+  rowGroupSize: z.number().int().min(1, 'Row group size must be at least 1').max(1000000, 'Row group size cannot exceed 1000000').default(100000),
+}).partial();
+
+export const markdownOptionsSchema = z.object({
+  alignment: z.enum(['auto', 'none']).default('auto'),
+  maxWidth: z.number().int().min(1, 'Max width must be at least 1').max(1000, 'Max width cannot exceed 1000').optional(),
+}).partial();
+
+export const htmlOptionsSchema = z.object({
+  standalone: z.boolean().default(true),
+  selectedTable: z.union([z.number().int().min(0), z.string()]).optional(),
+}).partial();
+
+export const xmlOptionsSchema = z.object({
+  nestedArrays: nestedArrayModeSchema.default('join'),
+  arrayField: z.string().min(1, 'Array field is required').max(1000, 'Array field cannot exceed 1000 characters').optional(),
 }).partial();
 
 // ============================================
 // Convert Options Schema
 // ============================================
 
+// Upserts match existing rows on their key columns, so writing one needs at least one
+const sqlWriteOptionsSchema = sqlOptionsSchema.refine(
+  (options) => options.mode !== 'upsert' || (options.keyColumns?.length ?? 0) > 0,
+  { message: 'Upsert mode requires at least one key column', path: ['keyColumns'] }
+);
+
 export const convertOptionsSchema = z.object({
   inputFormat: inputFormatSchema.optional(),
   outputFormat: outputFormatSchema,
+  csv: csvOptionsSchema.optional(),
+  json: jsonOptionsSchema.optional(),
+  excel: excelOptionsSchema.optional(),
+  sql: sqlWriteOptionsSchema.optional(),
+  parquet: parquetOptionsSchema.optional(),
+  markdown: markdownOptionsSchema.optional(),
+  html: htmlOptionsSchema.optional(),
+  xml: xmlOptionsSchema.optional(),
+});
+
+// ============================================
+// Parse Options Schema
+// ============================================
+
+export const parseOptionsSchema = z.object({
   csv: csvOptionsSchema.optional(),
   json: jsonOptionsSchema.optional(),
   excel: excelOptionsSchema.optional(),
   sql: sqlOptionsSchema.optional(),
+  html: htmlOptionsSchema.optional(),
+  xml: xmlOptionsSchema.optional(),
+});
+
+// ============================================
+// Transform Options Schema
+// ============================================
+
+export const filterOperatorSchema = z.enum([
+  'equals',
+  'notEquals',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'greaterThan',
+  'lessThan',
+  'isEmpty',
+  'isNotEmpty',
+]);
+
+export const filterRuleSchema = z.object({
+  id: z.string().default(''),
+  column: z.string().min(1, 'Filter column is required'),
+  operator: filterOperatorSchema,
+  value: z.string().default(''),
+});
+
+export const columnMappingSchema = z.object({
+  original: z.string().min(1, 'Original column name is required'),
+  mapped: z.string().max(255, 'Column name cannot exceed 255 characters').default(''),
+  type: z.enum(['string', 'number', 'date', 'boolean', 'auto']).optional(),
+  dateFormat: z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY']).optional(),
+});
+
+export const transformOptionsSchema = z.object({
+  columnMappings: z.array(columnMappingSchema).optional(),
+  filters: z.array(filterRuleSchema).optional(),
+  removeDuplicates: z.boolean().optional(),
+  trimWhitespace: z.boolean().optional(),
+  selectedColumns: z.array(z.string()).optional(),
 });
 
 // ============================================
@@ -76,6 +204,7 @@ export const convertRequestSchema = z.object({
   inputFormat: inputFormatSchema.optional(),
   outputFormat: outputFormatSchema,
   options: convertOptionsSchema.partial().optional(),
+  transform: transformOptionsSchema.optional(),
   fileName: z.string().optional(),
 });
 
@@ -84,8 +213,16 @@ export const parseRequestSchema = z.object({
     .min(1, 'Data is required')
     .max(MAX_DATA_SIZE, 'Data exceeds maximum size of 50MB'),
   format: inputFormatSchema.optional(),
+  options: parseOptionsSchema.optional(),
 });
 
+// Batch requests take shared options plus optional per-file overrides,
+// listed in the order the files were sent. Upsert key columns may come from
+// either, so they are checked once both are merged
+export const batchOptionsSchema = convertOptionsSchema.extend({ sql: sqlOptionsSchema.optional() }).partial();
+
+export const batchFileOptionsSchema = z.array(batchOptionsSchema.nullable());
+
 // ============================================
 // File Metadata Schema
 // ============================================
@@ -107,9 +244,16 @@ export type CsvOptions = z.infer<typeof csvOptionsSchema>;
 export type JsonOptions = z.infer<typeof jsonOptionsSchema>;
 export type ExcelOptions = z.infer<typeof excelOptionsSchema>;
 export type SqlOptions = z.infer<typeof sqlOptionsSchema>;
+export type ParquetOptions = z.infer<typeof parquetOptionsSchema>;
+export type MarkdownOptions = z.infer<typeof markdownOptionsSchema>;
+export type HtmlOptions = z.infer<typeof htmlOptionsSchema>;
+export type XmlOptions = z.infer<typeof xmlOptionsSchema>;
 export type ConvertOptions = z.infer<typeof convertOptionsSchema>;
+export type ParseOptions = z.infer<typeof parseOptionsSchema>;
+export type TransformOptions = z.infer<typeof transformOptionsSchema>;
 export type ConvertRequest = z.infer<typeof convertRequestSchema>;
 export type ParseRequest = z.infer<typeof parseRequestSchema>;
+export type BatchOptions = z.infer<typeof batchOptionsSchema>;
 export type FileMetadata = z.infer<typeof fileMetadataSchema>;
 
 // ============================================
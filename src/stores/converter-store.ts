@@ -9,6 +9,11 @@ import type {
   JsonOptions,
   ExcelOptions,
   SqlOptions,
+  ParquetOptions,
+  MarkdownOptions,
+  HtmlOptions,
+  ParseOptions,
+  TransformOptions,
 } from '@/types';
 
 interface ConverterState {
@@ -20,8 +25,12 @@ interface ConverterState {
 
   // Parsed data
   parsedData: ParsedData | null;
+  parseOptions: ParseOptions;
   isParsing: boolean;
   parseError: string | null;
+  // Transforms applied to the parsed data, and ones to apply to the next input
+  transforms: TransformOptions[];
+  pendingTransforms: TransformOptions[];
 
   // Output state
   outputFormat: OutputFormat;
@@ -34,11 +43,16 @@ interface ConverterState {
   jsonOptions: JsonOptions;
   excelOptions: ExcelOptions;
   sqlOptions: SqlOptions;
+  parquetOptions: ParquetOptions;
+  markdownOptions: MarkdownOptions;
+  htmlOptions: HtmlOptions;
 
   // Actions
   setInputData: (data: string | ArrayBuffer | null, fileName?: string, fileSize?: number) => void;
   setInputFormat: (format: InputFormat | null) => void;
-  setParsedData: (data: ParsedData | null) => void;
+  setParsedData: (data: ParsedData | null, transforms?: TransformOptions[]) => void;
+  setPendingTransforms: (transforms: TransformOptions[]) => void;
+  setParseOptions: (options: ParseOptions) => void;
   setIsParsing: (isParsing: boolean) => void;
   setParseError: (error: string | null) => void;
   setOutputFormat: (format: OutputFormat) => void;
@@ -49,7 +63,11 @@ interface ConverterState {
   setJsonOptions: (options: Partial<JsonOptions>) => void;
   setExcelOptions: (options: Partial<ExcelOptions>) => void;
   setSqlOptions: (options: Partial<SqlOptions>) => void;
+  setParquetOptions: (options: Partial<ParquetOptions>) => void;
+  setMarkdownOptions: (options: Partial<MarkdownOptions>) => void;
+  setHtmlOptions: (options: Partial<HtmlOptions>) => void;
   getConvertOptions: () => ConvertOptions;
+  restoreOptions: (options: ConvertOptions) => void;
   reset: () => void;
 }
 
@@ -59,8 +77,11 @@ const initialState = {
   fileName: null,
   fileSize: null,
   parsedData: null,
+  parseOptions: {},
   isParsing: false,
   parseError: null,
+  transforms: [] as TransformOptions[],
+  pendingTransforms: [] as TransformOptions[],
   outputFormat: 'json' as OutputFormat,
   result: null,
   isConverting: false,
@@ -70,23 +91,42 @@ const initialState = {
     hasHeader: true,
     skipEmptyLines: true,
     trimValues: true,
+    outputEncoding: 'utf-8' as const,
+    quoting: 'minimal' as const,
+    lineTerminator: 'lf' as const,
+    // Downloads are opened in spreadsheet applications, so neutralize formulas by default
+    formulaSanitization: 'prefix' as const,
   },
   jsonOptions: {
     prettyPrint: true,
     indentation: 2,
     flattenNested: false,
     arrayFormat: 'arrayOfObjects' as const,
+    unflatten: false,
   },
   excelOptions: {
     sheetName: 'Sheet1',
     autoFitColumns: true,
     freezeHeader: false,
     headerStyle: true,
+    formulaSanitization: 'prefix' as const,
   },
   sqlOptions: {
     tableName: 'my_table',
     includeCreate: false,
     batchSize: 100,
+    dialect: 'postgresql' as const,
+    inferTypes: true,
+  },
+  parquetOptions: {
+    compression: 'snappy' as const,
+    rowGroupSize: 100000,
+  },
+  markdownOptions: {
+    alignment: 'auto' as const,
+  },
+  htmlOptions: {
+    standalone: true,
   },
 };
 
@@ -99,6 +139,7 @@ export const useConverterStore = create<ConverterState>((set, get) => ({
       fileName: fileName ?? null,
       fileSize: fileSize ?? null,
       parsedData: null,
+      parseOptions: {},
       result: null,
       parseError: null,
       convertError: null,
@@ -106,7 +147,11 @@ export const useConverterStore = create<ConverterState>((set, get) => ({
 
   setInputFormat: (format) => set({ inputFormat: format }),
 
-  setParsedData: (data) => set({ parsedData: data, parseError: null }),
+  setParsedData: (data, transforms = []) => set({ parsedData: data, transforms, parseError: null }),
+
+  setPendingTransforms: (transforms) => set({ pendingTransforms: transforms }),
+
+  setParseOptions: (options) => set({ parseOptions: options }),
 
   setIsParsing: (isParsing) => set({ isParsing }),
 
@@ -140,6 +185,21 @@ export const useConverterStore = create<ConverterState>((set, get) => ({
       sqlOptions: { ...state.sqlOptions, ...options },
     })),
 
+  setParquetOptions: (options) =>
+    set((state) => ({
+      parquetOptions: { ...state.parquetOptions, ...options },
+    })),
+
+  setMarkdownOptions: (options) =>
+    set((state) => ({
+      markdownOptions: { ...state.markdownOptions, ...options },
+    })),
+
+  setHtmlOptions: (options) =>
+    set((state) => ({
+      htmlOptions: { ...state.htmlOptions, ...options },
+    })),
+
   getConvertOptions: () => {
     const state = get();
     return {
@@ -149,8 +209,25 @@ export const useConverterStore = create<ConverterState>((set, get) => ({
       json: state.jsonOptions,
       excel: state.excelOptions,
       sql: state.sqlOptions,
+      parquet: state.parquetOptions,
+      markdown: state.markdownOptions,
+      html: state.htmlOptions,
     };
   },
 
+  restoreOptions: (options) =>
+    set({
+      inputFormat: options.inputFormat ?? null,
+      outputFormat: options.outputFormat,
+      csvOptions: { ...initialState.csvOptions, ...options.csv },
+      jsonOptions: { ...initialState.jsonOptions, ...options.json },
+      excelOptions: { ...initialState.excelOptions, ...options.excel },
+      sqlOptions: { ...initialState.sqlOptions, ...options.sql },
+      parquetOptions: { ...initialState.parquetOptions, ...options.parquet },
+      markdownOptions: { ...initialState.markdownOptions, ...options.markdown },
+      htmlOptions: { ...initialState.htmlOptions, ...options.html },
+      result: null,
+    }),
+
   reset: () => set(initialState),
 }));
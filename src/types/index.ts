@@ -1,5 +1,17 @@
-export type InputFormat = 'csv' | 'tsv' | 'json' | 'xlsx' | 'xls' | 'xml';
-export type OutputFormat = 'csv' | 'tsv' | 'json' | 'xlsx' | 'xls' | 'xml' | 'sql';
+export type InputFormat = 'csv' | 'tsv' | 'json' | 'xlsx' | 'xls' | 'xml' | 'sql' | 'yaml' | 'jsonl' | 'parquet' | 'html';
+export type OutputFormat =
+  | 'csv'
+  | 'tsv'
+  | 'json'
+  | 'xlsx'
+  | 'xls'
+  | 'xml'
+  | 'sql'
+  | 'yaml'
+  | 'jsonl'
+  | 'parquet'
+  | 'markdown'
+  | 'html';
 
 export interface ConvertOptions {
   inputFormat?: InputFormat;
@@ -8,14 +20,34 @@ export interface ConvertOptions {
   json?: JsonOptions;
   excel?: ExcelOptions;
   sql?: SqlOptions;
+  parquet?: ParquetOptions;
+  markdown?: MarkdownOptions;
+  html?: HtmlOptions;
+  xml?: XmlOptions;
 }
 
+export type ParseOptions = Pick<ConvertOptions, 'csv' | 'json' | 'excel' | 'sql' | 'html' | 'xml'>;
+
+export type OutputEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le' | 'windows-1252';
+
+export type CsvQuoting = 'minimal' | 'all' | 'nonNumeric' | 'none';
+
+export type FormulaSanitization = 'off' | 'prefix' | 'strip';
+
+export type LineTerminator = 'lf' | 'crlf';
+
 export interface CsvOptions {
   delimiter?: string;
   hasHeader?: boolean;
   skipEmptyLines?: boolean;
   trimValues?: boolean;
   encoding?: string;
+  outputEncoding?: OutputEncoding;
+  quoteChar?: string;
+  escapeChar?: string;
+  lineTerminator?: LineTerminator;
+  quoting?: CsvQuoting;
+  formulaSanitization?: FormulaSanitization;
 }
 
 export interface JsonOptions {
@@ -23,21 +55,87 @@ export interface JsonOptions {
   indentation?: number;
   flattenNested?: boolean;
   arrayFormat?: 'arrayOfObjects' | 'objectOfArrays';
+  unflatten?: boolean;
+  recordPath?: string;
+  includeParentFields?: boolean;
+  nestedArrays?: NestedArrayMode;
+  arrayField?: string;
 }
 
+export type NestedArrayMode = 'join' | 'explode' | 'normalize';
+
 export interface ExcelOptions {
   sheetName?: string;
   selectedSheet?: number | string;
+  allSheets?: 'stack' | 'separate';
   includeFormulas?: boolean;
   autoFitColumns?: boolean;
   freezeHeader?: boolean;
   headerStyle?: boolean;
+  splitBy?: string;
+  summarySheet?: boolean;
+  formulaSanitization?: FormulaSanitization;
 }
 
+export type SqlDialect = 'mysql' | 'postgresql' | 'sqlite' | 'mssql';
+
+export type ColumnType =
+  | 'integer'
+  | 'bigint'
+  | 'decimal'
+  | 'boolean'
+  | 'date'
+  | 'timestamp'
+  | 'varchar'
+  | 'text';
+
 export interface SqlOptions {
   tableName?: string;
   includeCreate?: boolean;
   batchSize?: number;
+  dialect?: SqlDialect;
+  inferTypes?: boolean;
+  columnTypes?: Record<string, ColumnType | string>;
+  mode?: SqlStatementMode;
+  keyColumns?: string[];
+  selectedTable?: number | string;
+}
+
+export type SqlStatementMode = 'insert' | 'upsert';
+
+export type ParquetCompression = 'snappy' | 'gzip' | 'none';
+
+export interface ParquetOptions {
+  compression?: ParquetCompression;
+  rowGroupSize?: number;
+}
+
+export interface MarkdownOptions {
+  alignment?: 'auto' | 'none';
+  maxWidth?: number;
+}
+
+export interface HtmlOptions {
+  standalone?: boolean;
+  selectedTable?: number | string;
+}
+
+export interface XmlOptions {
+  nestedArrays?: NestedArrayMode;
+  arrayField?: string;
+}
+
+export interface SheetTable {
+  name: string;
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+export interface SheetSummary {
+  name: string;
+  headers: string[];
+  rowCount: number;
+  columnCount: number;
 }
 
 export interface ParsedData {
@@ -45,13 +143,21 @@ export interface ParsedData {
   rows: Record<string, unknown>[];
   rawData?: unknown;
   format?: InputFormat;
+  sheetTables?: SheetTable[];
   metadata?: {
     rowCount: number;
     columnCount: number;
     fileName?: string;
     fileSize?: number;
     sheets?: string[];
+    sheetSummaries?: SheetSummary[];
+    tables?: string[];
+    recordPath?: string;
+    recordPaths?: string[];
+    arrayField?: string;
     truncated?: boolean;
+    columnTypes?: Record<string, string>;
+    encoding?: string;
   };
 }
 
@@ -65,6 +171,7 @@ export interface ConversionResult {
     outputFormat: OutputFormat;
     rowCount: number;
     columnCount: number;
+    sanitizedCells?: number;
   };
 }
 
@@ -77,17 +184,55 @@ export interface ConversionHistoryItem {
   outputFileName?: string;
   rowCount: number;
   columnCount: number;
-  data?: string;
+  /** Options the conversion ran with */
+  options: ConvertOptions;
+  /** Sheet, table and encoding choices the input was parsed with */
+  parseOptions?: ParseOptions;
+  /** Transforms applied to the parsed input before converting, in order */
+  transforms?: TransformOptions[];
+  /** Original input, omitted when too large to keep */
+  input?: string | ArrayBuffer;
+  /** Converted output, omitted when too large to keep */
+  result?: Blob;
+  /** Approximate stored size in bytes, used for eviction */
+  size: number;
 }
 
 export interface BatchFile {
   id: string;
   file: File;
   status: 'pending' | 'converting' | 'success' | 'failed';
+  /** Conversion progress in percent */
+  progress?: number;
   result?: ConversionResult;
   error?: string;
 }
 
+export interface BatchManifestEntry {
+  fileName: string;
+  status: 'success' | 'failed';
+  /** Name of the converted file inside the archive */
+  outputFileName?: string;
+  inputFormat?: InputFormat;
+  outputFormat: OutputFormat;
+  rowCount?: number;
+  columnCount?: number;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface BatchManifest {
+  requestId: string;
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+  };
+  files: BatchManifestEntry[];
+}
+
 export interface FilterRule {
   id: string;
   column: string;
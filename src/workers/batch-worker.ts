@@ -0,0 +1,64 @@
+/**
+ * Web Worker for batch conversion
+ * Parses and converts files off the main thread
+ */
+
+import { convertFile } from '@/lib/converter';
+import type { ConversionResult, ConvertOptions } from '@/types';
+
+/**
+ * Message sent to the worker
+ */
+interface WorkerMessage {
+  type: 'convert';
+  id: string;
+  data: ArrayBuffer;
+  fileName: string;
+  options: ConvertOptions;
+}
+
+/**
+ * Response types sent from the worker
+ */
+interface WorkerResponse {
+  type: 'progress' | 'complete' | 'error';
+  id: string;
+  progress?: number;
+  result?: ConversionResult;
+  error?: string;
+}
+
+/**
+ * Post a response to the main thread
+ */
+function postResponse(response: WorkerResponse): void {
+  self.postMessage(response);
+}
+
+/**
+ * Handle messages from main thread
+ */
+self.onmessage = async (event: MessageEvent<WorkerMessage>) => {
+  const { type, id, data, fileName, options } = event.data;
+
+  if (type !== 'convert') {
+    postResponse({ type: 'error', id, error: `Unknown message type: ${type}` });
+    return;
+  }
+
+  try {
+    const result = await convertFile(data, fileName, options, (progress) =>
+      postResponse({ type: 'progress', id, progress })
+    );
+    postResponse({ type: 'complete', id, result });
+  } catch (error) {
+    postResponse({
+      type: 'error',
+      id,
+      error: error instanceof Error ? error.message : 'Unknown conversion error',
+    });
+  }
+};
+
+// Export types for use in wrapper
+export type { WorkerMessage, WorkerResponse };